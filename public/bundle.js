@@ -173,6 +173,7 @@ async function detectMode() {
     
     if (response.ok) {
       setMode('local', 'node');
+      initSessionPanel().catch((e) => console.error('Session check-in unavailable:', e));
     } else {
       await initWasmMode();
     }
@@ -335,6 +336,109 @@ function handleFile(file) {
   reader.readAsText(file);
 }
 
+// Training session check-in (local mode): players come from the player
+// store, and once anyone is checked in the solve splits just them
+const sessionPanel = document.getElementById('sessionPanel');
+const sessionDate = document.getElementById('sessionDate');
+const checkinList = document.getElementById('checkinList');
+const sessionSummary = document.getElementById('sessionSummary');
+
+let storedPlayers = [];
+let currentSession = null;
+
+function todayString() {
+  const now = new Date();
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+    .map((part, i) => String(part).padStart(i === 0 ? 4 : 2, '0'))
+    .join('-');
+}
+
+async function initSessionPanel() {
+  const response = await fetch('/api/players');
+  if (!response.ok) return;
+  storedPlayers = (await response.json()).players;
+  if (storedPlayers.length === 0) return;
+
+  sessionDate.value = todayString();
+  sessionPanel.style.display = 'block';
+  await loadSession();
+}
+
+// Latest session on the chosen date; created on the first check-in
+async function loadSession() {
+  const response = await fetch(`/api/sessions?date=${encodeURIComponent(sessionDate.value)}`);
+  const data = await response.json();
+  currentSession = response.ok ? data.sessions[0] || null : null;
+  renderCheckinList();
+}
+
+function renderCheckinList() {
+  const present = new Set(currentSession?.present || []);
+  checkinList.innerHTML = '';
+  storedPlayers.forEach((player) => {
+    const item = document.createElement('label');
+    item.className = 'checkin-item';
+    const box = document.createElement('input');
+    box.type = 'checkbox';
+    box.value = player.id;
+    box.checked = present.has(player.id);
+    const name = document.createElement('span');
+    name.textContent = player.name;
+    const meta = document.createElement('span');
+    meta.className = 'meta';
+    meta.textContent = `${player.rating} · ${(player.positions || [player.position]).join('/')}`;
+    item.append(box, name, meta);
+    checkinList.appendChild(item);
+  });
+  updateSessionSummary();
+}
+
+function sessionAttendees() {
+  return currentSession?.present.length || 0;
+}
+
+function updateSessionSummary() {
+  const count = sessionAttendees();
+  sessionSummary.textContent = count > 0
+    ? `${count} checked in. Optimize Teams splits just them and saves the split to this session.`
+    : 'Nobody checked in yet. Until then the uploaded CSV is used.';
+  solveBtn.disabled = !csvData && count === 0;
+}
+
+async function checkInPlayer(box) {
+  try {
+    if (!currentSession) {
+      const created = await fetch('/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: sessionDate.value }),
+      });
+      const session = await created.json();
+      if (!created.ok) throw new Error(session.error || 'Could not start the session');
+      currentSession = session;
+    }
+    const response = await fetch(`/api/sessions/${currentSession.id}/checkin`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ playerIds: [box.value], present: box.checked }),
+    });
+    const session = await response.json();
+    if (!response.ok) throw new Error(session.error || 'Check-in failed');
+    currentSession = session;
+  } catch (error) {
+    box.checked = !box.checked;
+    alert(`Check-in failed: ${error.message}`);
+  }
+  updateSessionSummary();
+}
+
+sessionDate?.addEventListener('change', () => {
+  if (sessionDate.value) loadSession();
+});
+checkinList?.addEventListener('change', (e) => {
+  if (e.target.type === 'checkbox') checkInPlayer(e.target);
+});
+
 // Parse CSV to model data
 function parseCSV(csvText) {
   const lines = csvText.trim().split('\n');
@@ -382,6 +486,18 @@ function sortPlayers(players) {
   });
 }
 
+// Select model based on scenario
+function wasmModelCode(scenario) {
+  switch (scenario) {
+    case 'with_positions':
+      return WITH_POSITIONS_MODEL;
+    case 'balanced_positions':
+      return BALANCED_POSITIONS_MODEL;
+    default:
+      return RATINGS_ONLY_MODEL;
+  }
+}
+
 // Solve using WASM
 async function solveWithWasm(solver, scenario, modelData) {
   if (!wasmInitialized || !MiniZinc) {
@@ -389,19 +505,7 @@ async function solveWithWasm(solver, scenario, modelData) {
   }
 
   const startTime = Date.now();
-  
-  // Select model based on scenario
-  let modelCode;
-  switch (scenario) {
-    case 'with_positions':
-      modelCode = WITH_POSITIONS_MODEL;
-      break;
-    case 'balanced_positions':
-      modelCode = BALANCED_POSITIONS_MODEL;
-      break;
-    default:
-      modelCode = RATINGS_ONLY_MODEL;
-  }
+  const modelCode = wasmModelCode(scenario);
 
   // Use MiniZinc.Model from named exports
   const model = new MiniZinc.Model();
@@ -460,9 +564,30 @@ async function solveWithWasm(solver, scenario, modelData) {
   };
 }
 
+// Team label for a team index (0 = Team A, 1 = Team B, ...)
+function teamLabel(team) {
+  return `Team ${String.fromCharCode(65 + team)}`;
+}
+
+// Players of each team from an assignment (team index per player)
+function splitIntoTeams(players, assignment) {
+  const numTeams = Math.max(2, ...assignment.map((team) => team + 1));
+  const teams = Array.from({ length: numTeams }, () => []);
+  assignment.forEach((team, idx) => {
+    if (idx < players.length) teams[team].push(players[idx]);
+  });
+  return teams;
+}
+
+// Spread (max - min) of per-team values
+function spreadOf(values) {
+  return values.length ? Math.max(...values) - Math.min(...values) : 0;
+}
+
 // Solve button click handler
 solveBtn.addEventListener('click', async () => {
-  if (!csvData) {
+  const sessionId = currentMode === 'local' && sessionAttendees() > 0 ? currentSession.id : null;
+  if (!csvData && !sessionId) {
     alert('Please select a CSV file first');
     return;
   }
@@ -480,10 +605,19 @@ solveBtn.addEventListener('click', async () => {
 
     if (currentMode === 'local') {
       // Use Express API
+      // Checked-in players take the place of the CSV
+      lastSolveRequest = sessionId ? { solver, scenario, sessionId } : { solver, scenario, csvData };
+      // Rebalance: keep the last split, moving as few players as possible
+      if (rebalanceToggle.checked && lastSplit) {
+        lastSolveRequest.previous = lastSplit;
+        if (maxMovesInput.value.trim() !== '') {
+          lastSolveRequest.maxMoves = maxMovesInput.value.trim();
+        }
+      }
       const response = await fetch('/api/solve', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ solver, scenario, csvData }),
+        body: JSON.stringify({ ...lastSolveRequest, bundle: true }),
       });
 
       data = await response.json();
@@ -492,54 +626,29 @@ solveBtn.addEventListener('click', async () => {
         throw new Error(data.error || 'Unknown error');
       }
 
+      lastBundle = data.bundle || null;
+      lastSplit = (data.teams || []).map((team) => team.map((p) => p.id ? { name: p.name, id: p.id } : p.name));
       displayResults(data, scenario);
+      displayRebalance(data.rebalance);
     } else {
       // Use WASM
       const { players, data: modelData } = parseCSV(csvData);
+      lastBundle = {
+        name: `minizinc-${scenario}`,
+        files: [
+          { name: 'team-assignment.mzn', content: wasmModelCode(scenario) },
+          { name: 'data.json', content: JSON.stringify(modelData, null, 2) + '\n' },
+          { name: 'roster.csv', content: csvData },
+        ],
+      };
       const result = await solveWithWasm(solver, scenario, modelData);
 
       // Build team rosters from assignment
       if (result.solution && result.solution.assignment) {
-        const assignment = result.solution.assignment;
-        const teamA = [];
-        const teamB = [];
-        
-        assignment.forEach((team, idx) => {
-          if (idx < players.length) {
-            if (team === 0) {
-              teamA.push(players[idx]);
-            } else {
-              teamB.push(players[idx]);
-            }
-          }
-        });
-
-        // Compute position counts from team rosters if not provided by solver
-        if (result.solution.forwards_a === undefined) {
-          result.solution.forwards_a = teamA.filter(p => p.position === 'forward').length;
-          result.solution.forwards_b = teamB.filter(p => p.position === 'forward').length;
-          result.solution.midfield_a = teamA.filter(p => p.position === 'midfield').length;
-          result.solution.midfield_b = teamB.filter(p => p.position === 'midfield').length;
-          result.solution.defense_a = teamA.filter(p => p.position === 'defense').length;
-          result.solution.defense_b = teamB.filter(p => p.position === 'defense').length;
-          
-          // Compute position_diff
-          result.solution.position_diff = 
-            Math.abs(result.solution.forwards_a - result.solution.forwards_b) +
-            Math.abs(result.solution.midfield_a - result.solution.midfield_b) +
-            Math.abs(result.solution.defense_a - result.solution.defense_b);
-        }
-
-        // Set default rating_weight if not provided
-        if (result.solution.rating_weight === undefined) {
-          result.solution.rating_weight = 10;
-        }
-
         displayResults({
           result,
           players,
-          teamA: sortPlayers(teamA),
-          teamB: sortPlayers(teamB),
+          teams: splitIntoTeams(players, result.solution.assignment),
           scenario,
         }, scenario);
       }
@@ -557,80 +666,100 @@ solveBtn.addEventListener('click', async () => {
 // Store last results for CSV download
 let lastResults = null;
 
+// Request behind the last local-mode solve, re-sent to /api/export
+let lastSolveRequest = null;
+
+// Model and data files of the last solve, for the MiniZinc bundle download
+let lastBundle = null;
+
+// Teams of the last local-mode solve, sent as `previous` to rebalance them
+let lastSplit = null;
+
+const rebalancePanel = document.getElementById('rebalancePanel');
+const rebalanceToggle = document.getElementById('rebalanceToggle');
+const maxMovesInput = document.getElementById('maxMoves');
+
+// Who changed team relative to the previous split
+function displayRebalance(rebalance) {
+  const rebalanceMoves = document.getElementById('rebalanceMoves');
+  rebalancePanel.style.display = lastSplit && lastSplit.length ? 'block' : 'none';
+  if (!rebalanceMoves) return;
+  if (!rebalance) {
+    rebalanceMoves.style.display = 'none';
+    return;
+  }
+
+  const limit = rebalance.maxMoves !== undefined ? ` (at most ${rebalance.maxMoves} allowed)` : '';
+  const lines = [
+    ...rebalance.moves.map((m) => `${m.name} → ${m.to} (from ${m.from})`),
+    ...rebalance.joined.map((m) => `${m.name} → ${m.to} (new)`),
+  ];
+  rebalanceMoves.innerHTML = `
+    <strong>Rebalanced: ${rebalance.moves.length} player(s) moved${limit}</strong>
+    ${lines.length ? `<ul>${lines.map((line) => `<li>${line}</li>`).join('')}</ul>` : ''}
+    ${rebalance.withdrawn.length ? `<div class="session-summary">Withdrawn: ${rebalance.withdrawn.join(', ')}</div>` : ''}
+  `;
+  rebalanceMoves.style.display = 'block';
+}
+
 function displayResults(data, scenario) {
-  const { result, teamA, teamB, players } = data;
+  const { result, players } = data;
   const solution = result.solution;
 
-  // Sort teams by position then name
-  const sortedTeamA = sortPlayers(teamA);
-  const sortedTeamB = sortPlayers(teamB);
+  // One roster per team (the server sends `teams`; older responses only teamA/teamB)
+  const teams = (data.teams || [data.teamA || [], data.teamB || []]).map(sortPlayers);
 
   // Calculate totals
-  const totalA = solution?.total_rating_a || sortedTeamA.reduce((sum, p) => sum + p.rating, 0);
-  const totalB = solution?.total_rating_b || sortedTeamB.reduce((sum, p) => sum + p.rating, 0);
-  const diff = solution?.rating_difference || Math.abs(totalA - totalB);
-
-  // Calculate position-wise ratings for balanced_positions scenario
-  const forwardRatingA = sortedTeamA.filter(p => p.position === 'forward').reduce((s, p) => s + p.rating, 0);
-  const forwardRatingB = sortedTeamB.filter(p => p.position === 'forward').reduce((s, p) => s + p.rating, 0);
-  const midfieldRatingA = sortedTeamA.filter(p => p.position === 'midfield').reduce((s, p) => s + p.rating, 0);
-  const midfieldRatingB = sortedTeamB.filter(p => p.position === 'midfield').reduce((s, p) => s + p.rating, 0);
-  const defenseRatingA = sortedTeamA.filter(p => p.position === 'defense').reduce((s, p) => s + p.rating, 0);
-  const defenseRatingB = sortedTeamB.filter(p => p.position === 'defense').reduce((s, p) => s + p.rating, 0);
+  const totals = teams.map((team, t) =>
+    solution?.team_ratings?.[t] ?? team.reduce((sum, p) => sum + p.rating, 0));
+  const diff = solution?.rating_difference ?? spreadOf(totals);
+
+  // Position-wise ratings per team, for the balanced_positions scenario
+  const ratingsFor = (position) =>
+    teams.map((team) => team.filter((p) => p.position === position).reduce((s, p) => s + p.rating, 0));
+  const positionRatings = {
+    forward: ratingsFor('forward'),
+    midfield: ratingsFor('midfield'),
+    defense: ratingsFor('defense'),
+  };
 
   // Store results for CSV download
   lastResults = {
-    teamA: sortedTeamA,
-    teamB: sortedTeamB,
-    totalA,
-    totalB,
+    teams,
+    totals,
     diff,
     solveTime: result.solveTime,
     status: result.status,
-    playerCount: (players || []).length || (sortedTeamA.length + sortedTeamB.length),
+    playerCount: (players || []).length || teams.reduce((sum, team) => sum + team.length, 0),
     solution,
     scenario,
-    positionRatings: {
-      forwardA: forwardRatingA, forwardB: forwardRatingB,
-      midfieldA: midfieldRatingA, midfieldB: midfieldRatingB,
-      defenseA: defenseRatingA, defenseB: defenseRatingB,
-    },
+    positionRatings,
   };
 
-   // Update DOM - show position-wise breakdown for balanced_positions
-  if (scenario === 'balanced_positions') {
-    document.getElementById('teamATotal').textContent = `(D: ${defenseRatingA}, M: ${midfieldRatingA}, F: ${forwardRatingA} = ${totalA} rating points)`;
-    document.getElementById('teamBTotal').textContent = `(D: ${defenseRatingB}, M: ${midfieldRatingB}, F: ${forwardRatingB} = ${totalB} rating points)`;
-  } else {
-    document.getElementById('teamATotal').textContent = `(${totalA} rating points)`;
-    document.getElementById('teamBTotal').textContent = `(${totalB} rating points)`;
-  }
-
-  const teamAList = document.getElementById('teamAList');
-  const teamBList = document.getElementById('teamBList');
-
-  teamAList.innerHTML = sortedTeamA
-    .map(
-      (p, idx) => `
-    <li>
-      <span class="player-number">${idx + 1}.</span>
-      <span class="player-name">${p.name}</span>
-      <span class="player-details">${p.position} - Rating: ${p.rating}</span>
-    </li>
-  `
-    )
-    .join('');
-
-  teamBList.innerHTML = sortedTeamB
-    .map(
-      (p, idx) => `
-    <li>
-      <span class="player-number">${idx + 1}.</span>
-      <span class="player-name">${p.name}</span>
-      <span class="player-details">${p.position} - Rating: ${p.rating}</span>
-    </li>
-  `
-    )
+  // One card per team; show the position-wise breakdown for balanced_positions
+  document.getElementById('teamsGrid').innerHTML = teams
+    .map((team, t) => {
+      const total = scenario === 'balanced_positions'
+        ? `(D: ${positionRatings.defense[t]}, M: ${positionRatings.midfield[t]}, F: ${positionRatings.forward[t]} = ${totals[t]} rating points)`
+        : `(${totals[t]} rating points)`;
+      const rows = team
+        .map(
+          (p, idx) => `
+        <li>
+          <span class="player-number">${idx + 1}.</span>
+          <span class="player-name">${p.name}</span>
+          <span class="player-details">${p.position} - Rating: ${p.rating}${p.pinned ? ' (pinned)' : ''}</span>
+        </li>
+      `
+        )
+        .join('');
+      return `
+    <div class="team-card">
+      <h3>${teamLabel(t)} <span class="total">${total}</span></h3>
+      <ul class="team-list">${rows}</ul>
+    </div>
+  `;
+    })
     .join('');
 
   document.getElementById('ratingDiff').textContent = diff;
@@ -638,65 +767,71 @@ function displayResults(data, scenario) {
   document.getElementById('status').textContent = result.status;
   document.getElementById('playerCount').textContent = lastResults.playerCount;
 
-  // Show download button
-  document.getElementById('downloadBtn').style.display = 'inline-block';
+  // Show download button; the server can also export Markdown, JSON and
+  // printable HTML team sheets
+  const downloadBtn = document.getElementById('downloadBtn');
+  const exportFormat = document.getElementById('exportFormat');
+  const serverExport = currentMode === 'local' && !!exportFormat;
+  if (exportFormat) {
+    exportFormat.style.display = serverExport ? 'inline-block' : 'none';
+  }
+  downloadBtn.textContent = serverExport ? 'Download Team Sheet' : 'Download CSV';
+  downloadBtn.style.display = 'inline-block';
+  const bundleBtn = document.getElementById('bundleBtn');
+  if (bundleBtn) {
+    bundleBtn.style.display = lastBundle ? 'inline-block' : 'none';
+  }
 
   // Display solver output details
-  displaySolverOutput(solution, scenario, totalA, totalB, sortedTeamA, sortedTeamB);
+  displaySolverOutput(solution, scenario, totals, teams, positionRatings);
 
   results.classList.add('active');
 }
 
-function displaySolverOutput(solution, scenario, totalA, totalB, teamA, teamB) {
+function displaySolverOutput(solution, scenario, totals, teams, positionRatings) {
   const solverOutput = document.getElementById('solverOutput');
   const solverOutputPre = document.getElementById('solverOutputPre');
-  
-  if (!solverOutput || !solverOutputPre) return;
 
-  // Calculate position-wise ratings
-  const forwardRatingA = teamA.filter(p => p.position === 'forward').reduce((s, p) => s + p.rating, 0);
-  const forwardRatingB = teamB.filter(p => p.position === 'forward').reduce((s, p) => s + p.rating, 0);
-  const midfieldRatingA = teamA.filter(p => p.position === 'midfield').reduce((s, p) => s + p.rating, 0);
-  const midfieldRatingB = teamB.filter(p => p.position === 'midfield').reduce((s, p) => s + p.rating, 0);
-  const defenseRatingA = teamA.filter(p => p.position === 'defense').reduce((s, p) => s + p.rating, 0);
-  const defenseRatingB = teamB.filter(p => p.position === 'defense').reduce((s, p) => s + p.rating, 0);
+  if (!solverOutput || !solverOutputPre) return;
 
-  const forwardDiff = Math.abs(forwardRatingA - forwardRatingB);
-  const midfieldDiff = Math.abs(midfieldRatingA - midfieldRatingB);
-  const defenseDiff = Math.abs(defenseRatingA - defenseRatingB);
+  // "Team A = 3, Team B = 4, ..." for per-team values
+  const byTeam = (values) => values.map((v, t) => `${teamLabel(t)} = ${v ?? 'N/A'}`).join(', ');
+  const ratingDiff = spreadOf(totals);
 
   let output = '';
-  
+
   output += '=== MiniZinc Solver Output ===\n\n';
-  
+
   // Scenario name
   let scenarioName = 'Ratings Only';
   if (scenario === 'with_positions') scenarioName = 'Ratings + Positions';
   if (scenario === 'balanced_positions') scenarioName = 'Position-wise Ratings';
   output += `Scenario: ${scenarioName}\n`;
   output += `Status: ${solution?.status || 'OPTIMAL'}\n\n`;
-  
+
   output += '--- Rating Balance ---\n';
-  output += `Team A Total Rating: ${totalA}\n`;
-  output += `Team B Total Rating: ${totalB}\n`;
-  output += `Rating Difference: ${Math.abs(totalA - totalB)}\n\n`;
-  
+  totals.forEach((total, t) => {
+    output += `${teamLabel(t)} Total Rating: ${total}\n`;
+  });
+  output += `Rating Difference (max - min): ${ratingDiff}\n\n`;
+
   if (scenario === 'with_positions' && solution) {
     const ratingWeight = solution.rating_weight || 10;
-    
+    // Position counts per team: from the solver when it reports them
+    const countsFor = (field, position) =>
+      solution[field] ?? teams.map((team) => team.filter((p) => p.position === position).length);
+    const forwards = countsFor('forwards', 'forward');
+    const midfield = countsFor('midfield', 'midfield');
+    const defense = countsFor('defense', 'defense');
+
     output += '--- Position Balance ---\n';
-    output += `Forwards:  Team A = ${solution.forwards_a ?? 'N/A'}, Team B = ${solution.forwards_b ?? 'N/A'} (diff: ${Math.abs((solution.forwards_a || 0) - (solution.forwards_b || 0))})\n`;
-    output += `Midfield:  Team A = ${solution.midfield_a ?? 'N/A'}, Team B = ${solution.midfield_b ?? 'N/A'} (diff: ${Math.abs((solution.midfield_a || 0) - (solution.midfield_b || 0))})\n`;
-    output += `Defense:   Team A = ${solution.defense_a ?? 'N/A'}, Team B = ${solution.defense_b ?? 'N/A'} (diff: ${Math.abs((solution.defense_a || 0) - (solution.defense_b || 0))})\n\n`;
-    
-    const positionDiff = solution.position_diff ?? (
-      Math.abs((solution.forwards_a || 0) - (solution.forwards_b || 0)) +
-      Math.abs((solution.midfield_a || 0) - (solution.midfield_b || 0)) +
-      Math.abs((solution.defense_a || 0) - (solution.defense_b || 0))
-    );
-    const ratingDiff = Math.abs(totalA - totalB);
+    output += `Forwards:  ${byTeam(forwards)} (diff: ${spreadOf(forwards)})\n`;
+    output += `Midfield:  ${byTeam(midfield)} (diff: ${spreadOf(midfield)})\n`;
+    output += `Defense:   ${byTeam(defense)} (diff: ${spreadOf(defense)})\n\n`;
+
+    const positionDiff = solution.position_diff ?? (spreadOf(forwards) + spreadOf(midfield) + spreadOf(defense));
     const objectiveValue = solution.objective ?? (ratingDiff * ratingWeight + positionDiff);
-    
+
     output += '--- Objective Function ---\n';
     output += `Objective = rating_diff * ${ratingWeight} + position_diff\n`;
     output += `         = ${ratingDiff} * ${ratingWeight} + ${positionDiff}\n`;
@@ -705,30 +840,31 @@ function displaySolverOutput(solution, scenario, totalA, totalB, teamA, teamB) {
   }
 
   if (scenario === 'balanced_positions') {
+    const forwardDiff = spreadOf(positionRatings.forward);
+    const midfieldDiff = spreadOf(positionRatings.midfield);
+    const defenseDiff = spreadOf(positionRatings.defense);
+
     output += '--- Position-wise Rating Balance ---\n';
-    output += `Forwards:  Team A = ${forwardRatingA}, Team B = ${forwardRatingB} (diff: ${forwardDiff})\n`;
-    output += `Midfield:  Team A = ${midfieldRatingA}, Team B = ${midfieldRatingB} (diff: ${midfieldDiff})\n`;
-    output += `Defense:   Team A = ${defenseRatingA}, Team B = ${defenseRatingB} (diff: ${defenseDiff})\n\n`;
-    
+    output += `Forwards:  ${byTeam(positionRatings.forward)} (diff: ${forwardDiff})\n`;
+    output += `Midfield:  ${byTeam(positionRatings.midfield)} (diff: ${midfieldDiff})\n`;
+    output += `Defense:   ${byTeam(positionRatings.defense)} (diff: ${defenseDiff})\n\n`;
+
     const objectiveValue = forwardDiff + midfieldDiff + defenseDiff;
-    
+
     output += '--- Objective Function ---\n';
     output += `Objective = forward_rating_diff + midfield_rating_diff + defense_rating_diff\n`;
     output += `         = ${forwardDiff} + ${midfieldDiff} + ${defenseDiff}\n`;
     output += `         = ${objectiveValue}\n\n`;
     output += `Note: Each position group is balanced for skill, ensuring equal strength at forwards, midfield, and defense.\n`;
   }
-  
-  output += '\n--- Team Rosters (sorted by position, then name) ---\n\n';
-  
-  output += 'Team A:\n';
-  teamA.forEach((p, idx) => {
-    output += `  ${idx + 1}. ${p.name.padEnd(12)} | ${p.position.padEnd(8)} | Rating: ${p.rating}\n`;
-  });
-  
-  output += '\nTeam B:\n';
-  teamB.forEach((p, idx) => {
-    output += `  ${idx + 1}. ${p.name.padEnd(12)} | ${p.position.padEnd(8)} | Rating: ${p.rating}\n`;
+
+  output += '\n--- Team Rosters (sorted by position, then name) ---\n';
+
+  teams.forEach((team, t) => {
+    output += `\n${teamLabel(t)}:\n`;
+    team.forEach((p, idx) => {
+      output += `  ${idx + 1}. ${p.name.padEnd(12)} | ${p.position.padEnd(8)} | Rating: ${p.rating}\n`;
+    });
   });
 
   solverOutputPre.textContent = output;
@@ -739,40 +875,40 @@ function displaySolverOutput(solution, scenario, totalA, totalB, teamA, teamB) {
 function downloadResultsCSV() {
   if (!lastResults) return;
 
-  const { teamA, teamB, totalA, totalB, diff, scenario, solution } = lastResults;
-  
+  const { teams, totals, diff, scenario, solution } = lastResults;
+
   // Build CSV content
   const csvLines = [
     'Team,Number,Name,Position,Rating',
   ];
 
-  teamA.forEach((p, idx) => {
-    csvLines.push(`Team A,${idx + 1},${p.name},${p.position},${p.rating}`);
-  });
-
-  teamB.forEach((p, idx) => {
-    csvLines.push(`Team B,${idx + 1},${p.name},${p.position},${p.rating}`);
+  teams.forEach((team, t) => {
+    team.forEach((p, idx) => {
+      csvLines.push(`${teamLabel(t)},${idx + 1},${p.name},${p.position},${p.rating}`);
+    });
   });
 
   // Add summary
   csvLines.push('');
   csvLines.push('Summary');
   csvLines.push(`Scenario,${scenario === 'with_positions' ? 'Ratings + Positions' : 'Ratings Only'}`);
-  csvLines.push(`Team A Total Rating,${totalA}`);
-  csvLines.push(`Team B Total Rating,${totalB}`);
+  totals.forEach((total, t) => {
+    csvLines.push(`${teamLabel(t)} Total Rating,${total}`);
+  });
   csvLines.push(`Rating Difference,${diff}`);
-  
+
   if (scenario === 'with_positions' && solution) {
-    csvLines.push(`Team A Forwards,${solution.forwards_a}`);
-    csvLines.push(`Team B Forwards,${solution.forwards_b}`);
-    csvLines.push(`Team A Midfield,${solution.midfield_a}`);
-    csvLines.push(`Team B Midfield,${solution.midfield_b}`);
-    csvLines.push(`Team A Defense,${solution.defense_a}`);
-    csvLines.push(`Team B Defense,${solution.defense_b}`);
+    const positions = [['Forwards', 'forwards', 'forward'], ['Midfield', 'midfield', 'midfield'], ['Defense', 'defense', 'defense']];
+    for (const [label, field, position] of positions) {
+      teams.forEach((team, t) => {
+        const count = solution[field]?.[t] ?? team.filter((p) => p.position === position).length;
+        csvLines.push(`${teamLabel(t)} ${label},${count}`);
+      });
+    }
   }
 
   const csvContent = csvLines.join('\n');
-  
+
   // Create and trigger download
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
@@ -786,5 +922,123 @@ function downloadResultsCSV() {
   URL.revokeObjectURL(url);
 }
 
-// Attach download handler
-document.getElementById('downloadBtn')?.addEventListener('click', downloadResultsCSV);
+// Download a team sheet of the last split from /api/export (local mode)
+async function downloadTeamSheet() {
+  if (!lastResults || !lastSolveRequest) return;
+
+  const format = document.getElementById('exportFormat')?.value || 'html';
+  try {
+    const response = await fetch('/api/export', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...lastSolveRequest,
+        format,
+        solution: lastResults.solution,
+      }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || `Export failed (${response.status})`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `team-sheet.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Export error:', error);
+    alert(`Could not export team sheet: ${error.message}`);
+  }
+}
+
+// Pack text files into a ZIP archive (stored, uncompressed)
+function createZip(files) {
+  const encoder = new TextEncoder();
+  const crcTable = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+  });
+  const crc32 = (bytes) => {
+    let crc = 0xffffffff;
+    for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+  };
+  const now = new Date();
+  const time = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const date = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const parts = [];
+  const central = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+    const common = (view, at) => {
+      view.setUint16(at, 20, true);
+      view.setUint16(at + 2, 0x0800, true);
+      view.setUint16(at + 4, 0, true);
+      view.setUint16(at + 6, time, true);
+      view.setUint16(at + 8, date, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+    const header = new Uint8Array(30 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, 0x04034b50, true);
+    common(headerView, 4);
+    header.set(name, 30);
+    parts.push(header, data);
+
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(4, 20, true);
+    common(entryView, 6);
+    entryView.setUint32(42, offset, true);
+    entry.set(name, 46);
+    central.push(entry);
+    offset += header.length + data.length;
+  }
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+}
+
+// Download the model, data and roster of the last solve as a zip
+function downloadBundle() {
+  if (!lastBundle) return;
+
+  const url = URL.createObjectURL(createZip(lastBundle.files));
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', `${lastBundle.name}.zip`);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+document.getElementById('bundleBtn')?.addEventListener('click', downloadBundle);
+
+// Attach download handler (WASM mode has no server, so it keeps the CSV download)
+document.getElementById('downloadBtn')?.addEventListener('click', () =>
+  currentMode === 'local' && lastSolveRequest ? downloadTeamSheet() : downloadResultsCSV());
@@ -6,13 +6,29 @@
  */
 
 import { MiniZincService } from '../solver/service.js';
+import { BuiltinSolverService } from '../solver/builtin.js';
+import { solveAlternatives } from '../solver/alternatives.js';
+import { PortfolioSolverService } from '../solver/portfolio.js';
+import { verifyResult } from '../solver/verify.js';
 import {
   SCENARIOS,
   POSITIONS,
+  BUILTIN_SOLVER,
+  PORTFOLIO_SOLVER,
   type ScenarioId,
   type PositionName,
 } from '../shared/constants.js';
-import type { Player, ModelData } from '../solver/types.js';
+import { applySolveParameters, parseSolveParameters } from '../shared/parameters.js';
+import { bundledScenarioId, checkScenarioOutput } from '../shared/scenarios.js';
+import type {
+  Player,
+  ModelData,
+  ObjectiveWeights,
+  ScenarioDefinition,
+  SolverConfig,
+  VerificationIssue,
+  TeamSolver,
+} from '../solver/types.js';
 
 // Re-export shared utilities for browser use
 export {
@@ -21,14 +37,24 @@ export {
   splitIntoTeams,
   countPositions,
   calculateTotalRating,
+  teamName,
 } from '../shared/utils.js';
+export { buildTeamSheet, formatTeamSheet } from '../shared/teamsheet.js';
+export { buildModelBundle, formatDzn } from '../shared/modelbundle.js';
+export { createZip } from '../shared/zip.js';
+import { teamName } from '../shared/utils.js';
 
-const service = new MiniZincService();
+const builtin = new BuiltinSolverService();
+let service: TeamSolver = new MiniZincService();
 
 let modelCodes: Record<string, string> = {};
 
+// Registered scenarios by id (manifests from /api/scenarios, or the bundled ones)
+let scenarios: Record<string, { modelFile: string; definition?: ScenarioDefinition }> = {};
+
 /**
- * Initialize the MiniZinc service for browser mode
+ * Initialize the MiniZinc service for browser mode. If the WASM build
+ * fails to load, solves run on the built-in solver instead.
  */
 export async function initMiniZinc(): Promise<void> {
   try {
@@ -36,8 +62,8 @@ export async function initMiniZinc(): Promise<void> {
     console.log('MiniZinc initialized in browser mode');
     console.log('Available solvers:', service.getAvailableSolvers());
   } catch (error) {
-    console.error('Failed to initialize MiniZinc:', error);
-    throw error;
+    console.warn('Failed to initialize MiniZinc, using the built-in solver:', error);
+    service = builtin;
   }
 }
 
@@ -53,41 +79,73 @@ export async function loadModel(filename: string): Promise<string> {
 }
 
 /**
- * Load all available model files
+ * Load all available model files. Pass the scenario definitions from
+ * `/api/scenarios` to use user-supplied models too; their output is then
+ * checked against each manifest's schema.
  */
-export async function loadAllModels(): Promise<void> {
-  for (const [id, scenario] of Object.entries(SCENARIOS)) {
-    modelCodes[id] = await loadModel(scenario.modelFile);
+export async function loadAllModels(definitions?: ScenarioDefinition[]): Promise<void> {
+  const entries: { id: string; modelFile: string; definition?: ScenarioDefinition }[] = definitions
+    ? definitions.map((definition) => ({ id: definition.id, modelFile: definition.modelFile, definition }))
+    : Object.values(SCENARIOS).map(({ id, modelFile }) => ({ id, modelFile }));
+  for (const { id, modelFile, definition } of entries) {
+    modelCodes[id] = await loadModel(modelFile);
+    scenarios[id] = { modelFile, definition };
   }
   console.log('Loaded models:', Object.keys(modelCodes));
 }
 
 /**
- * Solve a model with the given data and configuration
+ * Solve a model with the given data and configuration. With `alternatives`
+ * above 1 the result lists the k best distinct splits in `alternatives`.
+ * `parameters` overrides the scenario's objective weights, team-size
+ * tolerance and time limit (same shape as the API body fields).
  */
 export async function solveModel(
-  scenarioId: ScenarioId,
+  scenarioId: string,
   data: ModelData,
-  solver: string
+  solver: string,
+  alternatives: number = 1,
+  parameters?: { weights?: Partial<ObjectiveWeights>; sizeTolerance?: number; timeLimit?: number }
 ): Promise<any> {
   const modelCode = modelCodes[scenarioId];
   if (!modelCode) {
     throw new Error(`Model not loaded for scenario: ${scenarioId}`);
   }
 
-  const config = {
-    solver: solver as 'gecode' | 'chuffed' | 'cbc' | 'coinbc' | 'cp-sat',
-    timeLimit: 10000,
+  const { modelFile, definition } = scenarios[scenarioId];
+  const params = parseSolveParameters(parameters, definition?.parameters ?? (scenarioId as ScenarioId));
+  const conflicts = applySolveParameters(data, params);
+  if (conflicts.length > 0) {
+    throw new Error(conflicts.join('; '));
+  }
+
+  const config: SolverConfig = {
+    solver: solver as SolverConfig['solver'],
+    timeLimit: params.timeLimit,
   };
 
-  return service.solve(modelCode, data, config);
+  // The portfolio races every WASM solver, each in its own worker
+  const solverService =
+    solver === BUILTIN_SOLVER ? builtin
+    : solver === PORTFOLIO_SOLVER && service !== builtin ? new PortfolioSolverService(service)
+    : service;
+  let result = alternatives > 1
+    ? await solveAlternatives(solverService, modelCode, data, config, modelFile, alternatives)
+    : await solverService.solve(modelCode, data, config, modelFile);
+  if (definition) {
+    result = checkScenarioOutput(definition, result);
+  }
+  // Re-check the solver's numbers and the hard rules against the roster
+  const bundled = definition ? bundledScenarioId(definition) : (scenarioId as ScenarioId);
+  return { ...verifyResult(bundled, data, result, config), parameters: params };
 }
 
 /**
  * Get list of available solvers for current mode
  */
 export function getAvailableSolvers(): string[] {
-  return service.getAvailableSolvers();
+  const solvers = service.getAvailableSolvers();
+  return solvers.includes(BUILTIN_SOLVER) ? solvers : [...solvers, BUILTIN_SOLVER, PORTFOLIO_SOLVER];
 }
 
 /**
@@ -105,10 +163,10 @@ export function getScenarios(): string[] {
 }
 
 /**
- * Get scenario configuration by ID
+ * Get scenario configuration by ID (the manifest when one was loaded)
  */
-export function getScenarioConfig(scenarioId: ScenarioId) {
-  return SCENARIOS[scenarioId];
+export function getScenarioConfig(scenarioId: string) {
+  return scenarios[scenarioId]?.definition ?? SCENARIOS[scenarioId as ScenarioId];
 }
 
 /**
@@ -127,17 +185,28 @@ export function displayResults(result: any): void {
   if (result.status === 'OPTIMAL' || result.status === 'SATISFIED') {
     console.log(`Status: ${result.status}`);
     console.log(`Solve Time: ${result.solveTime}ms`);
+    if (result.verification?.timeLimited) {
+      console.log('Stopped at the time limit: the split may not be optimal');
+    }
+    if (result.verification && !result.verification.verified) {
+      console.warn('Verification failed:');
+      result.verification.issues.forEach((issue: VerificationIssue) => console.warn(`  - ${issue.message}`));
+    }
 
     if (result.solution) {
       const sol = result.solution;
-      console.log(`\nTeam A: ${sol.total_rating_a} points`);
-      console.log(`Team B: ${sol.total_rating_b} points`);
+      console.log('');
+      (sol.team_ratings || []).forEach((total: number, t: number) => {
+        console.log(`${teamName(t)}: ${total} points`);
+      });
       console.log(`Rating Difference: ${sol.rating_difference}`);
 
-      if (sol.forwards_a !== undefined) {
+      if (sol.forwards !== undefined) {
         console.log('\nPosition Distribution:');
-        console.log(`  Team A: ${sol.forwards_a} forwards, ${sol.midfield_a} midfield, ${sol.defense_a} defense`);
-        console.log(`  Team B: ${sol.forwards_b} forwards, ${sol.midfield_b} midfield, ${sol.defense_b} defense`);
+        sol.forwards.forEach((_: number, t: number) => {
+          const keepers = sol.goalkeepers?.[t] ? `, ${sol.goalkeepers[t]} goalkeepers` : '';
+          console.log(`  ${teamName(t)}: ${sol.forwards[t]} forwards, ${sol.midfield[t]} midfield, ${sol.defense[t]} defense${keepers}`);
+        });
       }
     }
   } else {
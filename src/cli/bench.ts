@@ -0,0 +1,222 @@
+/**
+ * Benchmark reports: per-combination timing summaries, JSON/CSV output and
+ * comparison against a saved baseline report
+ */
+
+import { formatCSV } from '../shared/csv.js';
+import { objectiveValue } from '../solver/evaluate.js';
+import type { SolverResult } from '../solver/types.js';
+
+/**
+ * Summary of N runs of one solver on one scenario and roster
+ */
+export interface BenchEntry {
+  roster: string;
+  scenario: string;
+  solver: string;
+  runs: number;
+  /** Solve time of every run in milliseconds, in run order */
+  times: number[];
+  min: number;
+  median: number;
+  p95: number;
+  /** Best objective found across runs (absent when no run found a split) */
+  objective?: number;
+  /** Number of runs ending in each status */
+  statuses: Record<string, number>;
+  /** Median of each numeric solver statistic across runs */
+  statistics: Record<string, number>;
+  /** Every split passed verification */
+  verified: boolean;
+  errorMessage?: string;
+}
+
+export interface BenchReport {
+  createdAt: string;
+  runs: number;
+  numTeams: number;
+  timeLimit: number;
+  environment: { node: string; platform: string; minizincInstalled: boolean };
+  entries: BenchEntry[];
+}
+
+/**
+ * How an entry changed against the baseline report
+ */
+export interface BenchComparison {
+  entry: BenchEntry;
+  baseline?: BenchEntry;
+  /** Relative change of the median solve time (0.1 = 10% slower) */
+  medianChange?: number;
+  regressions: string[];
+}
+
+// Median slowdowns smaller than this many milliseconds are treated as noise
+const MIN_TIME_REGRESSION_MS = 50;
+
+// Statuses from best to worst, for spotting runs that got less conclusive
+const STATUS_RANK = ['OPTIMAL', 'UNSATISFIABLE', 'SATISFIED', 'UNKNOWN', 'ERROR'];
+
+/**
+ * Nearest-rank percentile of a list of numbers (p between 0 and 1)
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+}
+
+/**
+ * Summarize the results of repeated runs of one combination
+ */
+export function summarizeRuns(
+  key: Pick<BenchEntry, 'roster' | 'scenario' | 'solver'>,
+  results: SolverResult[]
+): BenchEntry {
+  const times = results.map((r) => r.solveTime);
+  const statuses: Record<string, number> = {};
+  results.forEach((r) => (statuses[r.status] = (statuses[r.status] ?? 0) + 1));
+
+  const objectives = results
+    .filter((r) => r.solution)
+    .map((r) => objectiveValue(r.solution!));
+
+  const statKeys = new Set(results.flatMap((r) => Object.keys(r.statistics ?? {})));
+  const statistics: Record<string, number> = {};
+  for (const stat of [...statKeys].sort()) {
+    const values = results
+      .map((r) => r.statistics?.[stat])
+      .filter((v): v is number => typeof v === 'number');
+    if (values.length > 0) {
+      statistics[stat] = percentile(values, 0.5);
+    }
+  }
+
+  return {
+    ...key,
+    runs: results.length,
+    times,
+    min: Math.min(...times),
+    median: percentile(times, 0.5),
+    p95: percentile(times, 0.95),
+    objective: objectives.length > 0 ? Math.min(...objectives) : undefined,
+    statuses,
+    statistics,
+    verified: results.every((r) => !r.solution || r.verification?.verified !== false),
+    errorMessage: results.find((r) => r.errorMessage)?.errorMessage,
+  };
+}
+
+/**
+ * Most frequent status of an entry (ties go to the worse status)
+ */
+export function mainStatus(entry: BenchEntry): string {
+  return Object.entries(entry.statuses)
+    .sort(([a, na], [b, nb]) => nb - na || STATUS_RANK.indexOf(b) - STATUS_RANK.indexOf(a))[0]?.[0] ?? 'UNKNOWN';
+}
+
+function entryKey(entry: Pick<BenchEntry, 'roster' | 'scenario' | 'solver'>): string {
+  return `${entry.roster}\u0000${entry.scenario}\u0000${entry.solver}`;
+}
+
+/**
+ * Validate a parsed baseline report file
+ */
+export function parseBenchReport(value: unknown): BenchReport {
+  const report = value as BenchReport;
+  if (!report || typeof report !== 'object' || !Array.isArray(report.entries)) {
+    throw new Error('Baseline is not a bench report (expected an object with "entries")');
+  }
+  return report;
+}
+
+/**
+ * Match every entry with the baseline entry for the same roster, scenario
+ * and solver. Slower medians (beyond `threshold`, e.g. 0.2 for 20%), worse
+ * objectives, less conclusive statuses and failed verification count as
+ * regressions.
+ */
+export function compareWithBaseline(
+  report: BenchReport,
+  baseline: BenchReport,
+  threshold: number
+): BenchComparison[] {
+  const previous = new Map(baseline.entries.map((e) => [entryKey(e), e]));
+
+  return report.entries.map((entry) => {
+    const base = previous.get(entryKey(entry));
+    if (!base) {
+      return { entry, regressions: [] };
+    }
+
+    const regressions: string[] = [];
+    const medianChange = base.median > 0 ? entry.median / base.median - 1 : undefined;
+    if (
+      medianChange !== undefined &&
+      medianChange > threshold &&
+      entry.median - base.median >= MIN_TIME_REGRESSION_MS
+    ) {
+      regressions.push(`median ${base.median}ms -> ${entry.median}ms`);
+    }
+    if (base.objective !== undefined && (entry.objective === undefined || entry.objective > base.objective)) {
+      regressions.push(`objective ${base.objective} -> ${entry.objective ?? 'none'}`);
+    }
+    const [was, now] = [mainStatus(base), mainStatus(entry)];
+    if (STATUS_RANK.indexOf(now) > STATUS_RANK.indexOf(was)) {
+      regressions.push(`status ${was} -> ${now}`);
+    }
+    if (base.verified && !entry.verified) {
+      regressions.push('verification failed');
+    }
+    return { entry, baseline: base, medianChange, regressions };
+  });
+}
+
+/**
+ * One CSV row per combination; solver statistics get a column each
+ */
+export function formatBenchCSV(report: BenchReport): string {
+  const statKeys = [...new Set(report.entries.flatMap((e) => Object.keys(e.statistics)))].sort();
+  const header = [
+    'roster', 'scenario', 'solver', 'runs', 'min_ms', 'median_ms', 'p95_ms',
+    'objective', 'status', 'verified', ...statKeys,
+  ];
+  const rows = report.entries.map((e) => [
+    e.roster, e.scenario, e.solver, e.runs, e.min, e.median, e.p95,
+    e.objective, mainStatus(e), e.verified, ...statKeys.map((k) => e.statistics[k]),
+  ]);
+  return formatCSV([header, ...rows]);
+}
+
+/**
+ * Terminal table of the report, with the change against the baseline when given
+ */
+export function formatBenchTable(report: BenchReport, comparisons?: BenchComparison[]): string {
+  const header = ['roster', 'scenario', 'solver', 'status', 'objective', 'min', 'median', 'p95'];
+  if (comparisons) header.push('vs baseline');
+
+  const rows = report.entries.map((e, i) => {
+    const row = [
+      e.roster,
+      e.scenario,
+      e.solver,
+      mainStatus(e) + (e.verified ? '' : ' (unverified)'),
+      e.objective === undefined ? '-' : String(e.objective),
+      `${e.min}ms`,
+      `${e.median}ms`,
+      `${e.p95}ms`,
+    ];
+    if (comparisons) {
+      const c = comparisons[i];
+      const change = c.medianChange === undefined
+        ? (c.baseline ? '' : 'new')
+        : `${c.medianChange >= 0 ? '+' : ''}${Math.round(c.medianChange * 100)}%`;
+      row.push(c.regressions.length > 0 ? `${change} REGRESSION` : change);
+    }
+    return row;
+  });
+
+  const widths = header.map((h, col) => Math.max(h.length, ...rows.map((r) => r[col].length)));
+  const line = (cells: string[]) => cells.map((c, col) => c.padEnd(widths[col])).join('  ').trimEnd();
+  return [line(header), line(widths.map((w) => '-'.repeat(w))), ...rows.map(line)].join('\n');
+}
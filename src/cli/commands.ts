@@ -5,57 +5,376 @@
  * 
  * Usage:
  *   npx tsx src/cli/commands.ts [options]
+ *   npx tsx src/cli/commands.ts bench [options]
+ *   npx tsx src/cli/commands.ts generate [options]
+ *   npx tsx src/cli/commands.ts players <list|add|update|remove|import|export> [options]
+ *   npx tsx src/cli/commands.ts sessions <list|show|remove> [id]
+ *   npx tsx src/cli/commands.ts games <record|list> [options]
  * 
  * Options:
- *   --solver, -s    Solver to use (cbc, coinbc, cp-sat, chuffed, gecode, all)
- *   --scenario, -c  Scenario to run (ratings_only, with_positions, all)
+ *   --solver, -s    Solver to use (cbc, coinbc, cp-sat, chuffed, gecode, builtin, portfolio, all)
+ *   --scenario, -c  Scenario to run (ratings_only, with_positions, balanced_positions,
+ *                   balanced_attributes, any custom scenario, all)
+ *   --models-dir, -m  Directory of .mzn models and .scenario.json manifests (default: models)
  *   --file, -f      CSV file path (default: data/test-players.csv)
+ *   --stored        Use the player store as the roster instead of --file
+ *   --ids           Comma-separated stored player IDs to use (implies --stored)
+ *   --store         Player store file (default: data/players.json, or $PLAYER_STORE)
+ *   --present       Comma-separated IDs of the stored players who turned up: checks
+ *                   them in to the session for --date and solves with just them
+ *   --date          Session date, YYYY-MM-DD (default: today)
+ *   --session       Solve the players checked in to a stored session (e.g. s3)
+ *   --teams, -t     Number of teams to split into (default: 2)
+ *   --pairs, -p     JSON file of keep-together / keep-apart player groups
+ *   --pin           Pin a player to a team, e.g. "Aoife Kelly=A" (repeatable)
+ *   --previous      JSON file of the split to rebalance (a team sheet, or teams of names)
+ *   --rebalance     Rebalance the latest split of --session / --present, moving few players
+ *   --max-moves     Most players of the previous split that may change team
+ *   --quota, -q     Per-team position quota, e.g. goalkeeper=1 or defense=4: (repeatable)
+ *   --balance       Spread a CSV category column evenly, e.g. experience (hard) or club=2 (repeatable)
+ *   --alternatives, -k  Return the k best distinct splits (default: 1)
+ *   --rounds        Social mixer: one split per round, mixing up teammates (default: 1)
+ *   --repeat-penalty  Cost of each earlier round a pair shared a team (default: 1)
+ *   --history       JSON file of past splits, oldest first; recent teammates cost extra
+ *   --season        Penalise recent teammates from the sessions in the player store
+ *   --history-penalty  Cost of sharing a team in last week's split (default: 4)
+ *   --history-decay    Share of the penalty kept per week further back (default: 0.5)
+ *   --weight, -w    Objective weight, e.g. rating=5 or position=2 (repeatable)
+ *   --attribute-weight, -a  Weight of a CSV attribute column, e.g. speed=2 (repeatable)
+ *   --size-tolerance, -z  Largest allowed difference between team sizes (default: 1)
+ *   --time-limit, -l      Solver time limit in milliseconds (default: 10000)
+ *   --output, -o    Write a team sheet of the best split to a file
+ *   --format        Team sheet format (csv, json, markdown, html); default from the
+ *                   --output extension, printed to stdout when given without --output
+ *   --bundle        Write the model, .dzn/JSON data and roster to a folder (or a .zip)
  *   --help, -h      Show help
  * 
+ * Bench options (solver and scenario accept comma-separated lists):
+ *   --file, -f      Roster CSV, repeatable to benchmark several rosters
+ *   --runs, -n      Runs per solver x scenario x roster (default: 5)
+ *   --report, -r    Report file name without extension (default: bench-report)
+ *   --baseline, -b  Earlier JSON report to compare against
+ *   --threshold     Median slowdown in percent that counts as a regression (default: 20)
+ * 
+ * Generate options (synthetic roster CSV, written to stdout by default):
+ *   --players       Number of players (default: 20)
+ *   --ratings       Rating distribution (uniform, normal, top-heavy, bottom-heavy, bimodal)
+ *   --mix           Position shares, e.g. forward=6,midfield=2 (repeatable)
+ *   --multi         Share of players with a second position, 0 to 1 (default: 0)
+ *   --duplicates    Number of players that repeat an earlier name (default: 0)
+ *   --seed          Random seed; the same seed gives the same roster
+ *   --output, -o    Write the CSV to a file
+ * 
+ * Players (manage the player store; --store picks the file):
+ *   list                      Print the stored players
+ *   add --name N --rating R [--position P] [--notes T]
+ *   update <id> [--name N] [--rating R] [--position P] [--notes T]
+ *   remove <id>
+ *   import <csv> [--replace]  Add or update players from a roster CSV
+ *   export [--output, -o F]   Write the store as a roster CSV
+ *   ratings [id]              Rating trends, or one player's rating history
+ * 
+ * Sessions (attendance and the splits solved for it):
+ *   list                      Print the sessions, newest first
+ *   show <id>                 Print who checked in and every recorded split
+ *   remove <id>
+ * 
+ * Games (match results that update ratings Elo-style):
+ *   record --session S [--split N] --score 3,1 [--k-factor K] [--date D]
+ *   record --team p1,p2 --team p3,p4 --score 3,1
+ *   list                      Print the recorded games, newest first
+ * 
  * Examples:
  *   npx tsx src/cli/commands.ts --solver cbc --scenario with_positions
  *   npx tsx src/cli/commands.ts -s all -c all
+ *   npx tsx src/cli/commands.ts --solver builtin
+ *   npx tsx src/cli/commands.ts --solver portfolio
  *   npx tsx src/cli/commands.ts --file data/my-team.csv
+ *   npx tsx src/cli/commands.ts --teams 3 --scenario balanced_positions
+ *   npx tsx src/cli/commands.ts --pairs data/pairs.json
+ *   npx tsx src/cli/commands.ts --pin "Aoife Kelly=A" --pin "Ciara O'Brien=B"
+ *   npx tsx src/cli/commands.ts --quota goalkeeper=1 --quota defense=4:
+ *   npx tsx src/cli/commands.ts -f data/test-categories.csv --balance experience --balance club=2
+ *   npx tsx src/cli/commands.ts --alternatives 3 --scenario with_positions
+ *   npx tsx src/cli/commands.ts --rounds 3 --teams 4 --repeat-penalty 2
+ *   npx tsx src/cli/commands.ts --present p1,p3,p4,p7,p9,p12 --season --history-decay 0.75
+ *   npx tsx src/cli/commands.ts -c with_positions --weight rating=5 --time-limit 30000
+ *   npx tsx src/cli/commands.ts -f data/test-attributes.csv -c balanced_attributes -a speed=2
+ *   npx tsx src/cli/commands.ts --models-dir my-models --scenario my_scenario
+ *   npx tsx src/cli/commands.ts -c with_positions --output teams.html
+ *   npx tsx src/cli/commands.ts --format markdown
+ *   npx tsx src/cli/commands.ts -c balanced_positions --bundle bug-report.zip
+ *   npx tsx src/cli/commands.ts bench -s gecode,chuffed,cbc -c all -n 10
+ *   npx tsx src/cli/commands.ts bench -s all -b bench-report.json -r bench-new
+ *   npx tsx src/cli/commands.ts generate --players 200 --ratings bimodal --seed 7 -o data/big.csv
+ *   npx tsx src/cli/commands.ts players import data/test-players.csv
+ *   npx tsx src/cli/commands.ts players add --name "Aoife Kelly" --rating 7 --position midfield
+ *   npx tsx src/cli/commands.ts --stored -c with_positions
+ *   npx tsx src/cli/commands.ts --present p1,p3,p4,p7,p9,p12 -c with_positions
+ *   npx tsx src/cli/commands.ts --present p1,p3,p4,p7,p9,p12,p15 --rebalance --max-moves 2
+ *   npx tsx src/cli/commands.ts games record --session s1 --score 12,9
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import { MiniZincService } from '../solver/service.js';
-import type { SolverConfig } from '../solver/types.js';
+import { BuiltinSolverService } from '../solver/builtin.js';
+import { solveAlternatives } from '../solver/alternatives.js';
+import { solveRounds } from '../solver/rounds.js';
+import { verifyResult } from '../solver/verify.js';
+import {
+  compareWithBaseline,
+  formatBenchCSV,
+  formatBenchTable,
+  parseBenchReport,
+  summarizeRuns,
+  type BenchEntry,
+  type BenchReport,
+} from './bench.js';
+import { PortfolioSolverService } from '../solver/portfolio.js';
+import type {
+  SolverConfig,
+  SolverResult,
+  PositionQuotas,
+  CategoryBalance,
+  PreviousPlacement,
+  HistoryWeek,
+  TeamPins,
+  CSVReport,
+  TeamSolver,
+  SolveParameters,
+  ObjectiveWeights,
+  ScenarioDefinition,
+  ScenarioRegistry,
+  StoredPlayer,
+  TrainingSession,
+} from '../solver/types.js';
+import { findScenario, loadScenarioRegistry, readScenarioModel } from '../solver/registry.js';
+import { loadPlayerStore, savePlayerStore } from '../solver/store.js';
+import { parseGameInput, ratingTrend, recordGame } from '../shared/ratings.js';
 import {
-  SCENARIOS,
   SOLVERS,
   DEFAULT_SOLVER,
+  BUILTIN_SOLVER,
+  PORTFOLIO_SOLVER,
   DEFAULT_SCENARIO,
   DEFAULT_TIME_LIMIT,
-  RATING_WEIGHT,
-  type ScenarioId,
+  DEFAULT_NUM_TEAMS,
+  MAX_ALTERNATIVES,
+  MAX_ROUNDS,
+  DEFAULT_REPEAT_PENALTY,
+  DEFAULT_HISTORY_PENALTY,
+  DEFAULT_HISTORY_DECAY,
+  MAX_TIME_LIMIT,
+  DEFAULT_SIZE_TOLERANCE,
+  DEFAULT_ATTRIBUTE_WEIGHT,
+  DEFAULT_MODELS_DIR,
+  DEFAULT_PLAYER_STORE,
+  DEFAULT_BENCH_RUNS,
+  DEFAULT_BENCH_REPORT,
+  DEFAULT_BENCH_THRESHOLD,
+  DEFAULT_POSITION_MIX,
+  DEFAULT_ROSTER_SIZE,
+  MAX_ROSTER_SIZE,
+  RATING_DISTRIBUTIONS,
+  MIN_RATING,
+  MAX_RATING,
+  DEFAULT_K_FACTOR,
+  MAX_K_FACTOR,
+  EXPORT_FORMATS,
+  DEFAULT_EXPORT_FORMAT,
+  type RatingDistribution,
+  type ExportFormat,
 } from '../shared/constants.js';
 import {
   parseCSV,
+  parseNumTeams,
+  parseAlternativeCount,
   sortPlayersByPosition,
   splitIntoTeams,
+  assignRoles,
+  playingPosition,
   countPositions,
   calculateTotalRating,
   formatPlayer,
+  teamName,
+  spread,
+  formatPositionCounts,
+  describeHardRules,
+  explainInfeasibleSplit,
 } from '../shared/utils.js';
+import { applyPairingRules, parsePairingRules } from '../shared/pairings.js';
+import { applyTeamPins, parsePinSpec } from '../shared/pins.js';
+import {
+  applyRebalance,
+  describeMove,
+  parseMaxMoves,
+  parsePreviousSplit,
+  sessionPreviousSplit,
+  summarizeRebalance,
+} from '../shared/rebalance.js';
+import { summarizeAttributes } from '../shared/attributes.js';
+import { applyCategoryBalance, parseCategorySpec, summarizeCategories } from '../shared/categories.js';
+import { parseRepeatPenalty, parseRoundCount, summarizeTeammates } from '../shared/mixer.js';
+import {
+  applyHistory,
+  parseHistory,
+  parseHistoryDecay,
+  parseHistoryPenalty,
+  sessionHistory,
+  summarizeHistory,
+} from '../shared/history.js';
+import { applyPositionQuotas, parseQuotaSpec } from '../shared/quotas.js';
+import {
+  applySolveParameters,
+  describeSolveParameters,
+  describeWeights,
+  parseAttributeWeightSpec,
+  parseSolveParameters,
+  parseWeightSpec,
+} from '../shared/parameters.js';
+import { bundledScenarioId, checkScenarioOutput, findMissingModelData } from '../shared/scenarios.js';
+import { CSVValidationError, formatCSVIssue } from '../shared/csv.js';
+import {
+  buildTeamSheet,
+  exportFormatForFile,
+  formatTeamSheet,
+  parseExportFormat,
+} from '../shared/teamsheet.js';
+import { buildModelBundle } from '../shared/modelbundle.js';
+import { createZip } from '../shared/zip.js';
+import {
+  formatRosterCSV,
+  generateRoster,
+  parsePositionMixSpec,
+  parseRosterOptions,
+} from '../shared/generator.js';
+import {
+  addPlayer,
+  formatPlayersCSV,
+  importPlayersCSV,
+  parsePlayerInput,
+  removePlayer,
+  selectStoredPlayers,
+  updatePlayer,
+  type PlayerInput,
+} from '../shared/roster.js';
+import {
+  addSession,
+  findSession,
+  findSessionByDate,
+  parseSessionDate,
+  recordSessionSplit,
+  removeSession,
+  sessionPlayers,
+  today,
+  updateSession,
+} from '../shared/sessions.js';
 
 // CLI argument parsing
 interface CLIOptions {
+  command: 'solve' | 'bench' | 'generate' | 'players' | 'sessions' | 'games';
+  /** Action and arguments of the players / sessions / games command, e.g. ["update", "p3"] */
+  positionals: string[];
   solver: string;
   scenario: string;
+  modelsDir: string;
   file: string;
+  /** Every --file given (bench runs each roster) */
+  files: string[];
+  /** Player store file (players command, --stored) */
+  store: string;
+  stored: boolean;
+  ids?: string;
+  present?: string;
+  date?: string;
+  session?: string;
+  teams: string;
+  pairs?: string;
+  pins: string[];
+  previous?: string;
+  rebalance: boolean;
+  maxMoves?: string;
+  /** Split to rebalance, read from --previous or the session (set in main) */
+  previousSplit?: PreviousPlacement[];
+  quotas: string[];
+  /** Category balance specs (--balance) */
+  balance: string[];
+  alternatives: string;
+  rounds: string;
+  repeatPenalty?: string;
+  history?: string;
+  season: boolean;
+  historyPenalty?: string;
+  historyDecay?: string;
+  /** Past weeks whose teammates are penalised, read from --history or the store (set in main) */
+  historyWeeks?: HistoryWeek[];
+  weights: string[];
+  attributeWeights: string[];
+  sizeTolerance?: string;
+  timeLimit?: string;
+  runs: string;
+  report: string;
+  baseline?: string;
+  threshold: string;
+  players?: string;
+  ratings?: string;
+  mix: string[];
+  multi?: string;
+  duplicates?: string;
+  seed?: string;
+  name?: string;
+  rating?: string;
+  position?: string;
+  notes?: string;
+  replace: boolean;
+  score?: string;
+  split?: string;
+  /** Player IDs of each team (games record --team) */
+  teamIds: string[];
+  kFactor?: string;
+  output?: string;
+  format?: string;
+  bundle?: string;
   help: boolean;
 }
 
 function parseArgs(args: string[]): CLIOptions {
   const options: CLIOptions = {
+    command: 'solve',
+    positionals: [],
     solver: DEFAULT_SOLVER,
     scenario: DEFAULT_SCENARIO,
+    modelsDir: process.env.MODELS_DIR || DEFAULT_MODELS_DIR,
     file: 'data/test-players.csv',
+    files: [],
+    store: process.env.PLAYER_STORE || DEFAULT_PLAYER_STORE,
+    stored: false,
+    teams: String(DEFAULT_NUM_TEAMS),
+    pins: [],
+    rebalance: false,
+    quotas: [],
+    balance: [],
+    alternatives: '1',
+    rounds: '1',
+    season: false,
+    weights: [],
+    attributeWeights: [],
+    runs: String(DEFAULT_BENCH_RUNS),
+    report: DEFAULT_BENCH_REPORT,
+    threshold: String(DEFAULT_BENCH_THRESHOLD),
+    mix: [],
+    replace: false,
+    teamIds: [],
     help: false,
   };
 
+  const subcommands = ['bench', 'generate', 'players', 'sessions', 'games'] as const;
+  if (subcommands.includes(args[0] as (typeof subcommands)[number])) {
+    options.command = args[0] as (typeof subcommands)[number];
+    args = args.slice(1);
+  }
+
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     const nextArg = args[i + 1];
@@ -75,10 +394,300 @@ function parseArgs(args: string[]): CLIOptions {
           i++;
         }
         break;
+      case '--models-dir':
+      case '-m':
+        if (nextArg) {
+          options.modelsDir = nextArg;
+          i++;
+        }
+        break;
       case '--file':
       case '-f':
         if (nextArg) {
           options.file = nextArg;
+          options.files.push(nextArg);
+          i++;
+        }
+        break;
+      case '--stored':
+        options.stored = true;
+        break;
+      case '--ids':
+        if (nextArg) {
+          options.ids = nextArg;
+          i++;
+        }
+        break;
+      case '--store':
+        if (nextArg) {
+          options.store = nextArg;
+          i++;
+        }
+        break;
+      case '--present':
+        if (nextArg) {
+          options.present = nextArg;
+          i++;
+        }
+        break;
+      case '--date':
+        if (nextArg) {
+          options.date = nextArg;
+          i++;
+        }
+        break;
+      case '--session':
+        if (nextArg) {
+          options.session = nextArg;
+          i++;
+        }
+        break;
+      case '--teams':
+      case '-t':
+        if (nextArg) {
+          options.teams = nextArg;
+          i++;
+        }
+        break;
+      case '--pairs':
+      case '-p':
+        if (nextArg) {
+          options.pairs = nextArg;
+          i++;
+        }
+        break;
+      case '--pin':
+        if (nextArg) {
+          options.pins.push(nextArg);
+          i++;
+        }
+        break;
+      case '--previous':
+        if (nextArg) {
+          options.previous = nextArg;
+          i++;
+        }
+        break;
+      case '--rebalance':
+        options.rebalance = true;
+        break;
+      case '--max-moves':
+        if (nextArg) {
+          options.maxMoves = nextArg;
+          i++;
+        }
+        break;
+      case '--quota':
+      case '-q':
+        if (nextArg) {
+          options.quotas.push(nextArg);
+          i++;
+        }
+        break;
+      case '--balance':
+        if (nextArg) {
+          options.balance.push(nextArg);
+          i++;
+        }
+        break;
+      case '--alternatives':
+      case '-k':
+        if (nextArg) {
+          options.alternatives = nextArg;
+          i++;
+        }
+        break;
+      case '--rounds':
+        if (nextArg) {
+          options.rounds = nextArg;
+          i++;
+        }
+        break;
+      case '--repeat-penalty':
+        if (nextArg) {
+          options.repeatPenalty = nextArg;
+          i++;
+        }
+        break;
+      case '--history':
+        if (nextArg) {
+          options.history = nextArg;
+          i++;
+        }
+        break;
+      case '--season':
+        options.season = true;
+        break;
+      case '--history-penalty':
+        if (nextArg) {
+          options.historyPenalty = nextArg;
+          i++;
+        }
+        break;
+      case '--history-decay':
+        if (nextArg) {
+          options.historyDecay = nextArg;
+          i++;
+        }
+        break;
+      case '--weight':
+      case '-w':
+        if (nextArg) {
+          options.weights.push(nextArg);
+          i++;
+        }
+        break;
+      case '--attribute-weight':
+      case '-a':
+        if (nextArg) {
+          options.attributeWeights.push(nextArg);
+          i++;
+        }
+        break;
+      case '--size-tolerance':
+      case '-z':
+        if (nextArg) {
+          options.sizeTolerance = nextArg;
+          i++;
+        }
+        break;
+      case '--time-limit':
+      case '-l':
+        if (nextArg) {
+          options.timeLimit = nextArg;
+          i++;
+        }
+        break;
+      case '--runs':
+      case '-n':
+        if (nextArg) {
+          options.runs = nextArg;
+          i++;
+        }
+        break;
+      case '--report':
+      case '-r':
+        if (nextArg) {
+          options.report = nextArg;
+          i++;
+        }
+        break;
+      case '--baseline':
+      case '-b':
+        if (nextArg) {
+          options.baseline = nextArg;
+          i++;
+        }
+        break;
+      case '--threshold':
+        if (nextArg) {
+          options.threshold = nextArg;
+          i++;
+        }
+        break;
+      case '--players':
+        if (nextArg) {
+          options.players = nextArg;
+          i++;
+        }
+        break;
+      case '--ratings':
+        if (nextArg) {
+          options.ratings = nextArg;
+          i++;
+        }
+        break;
+      case '--mix':
+        if (nextArg) {
+          options.mix.push(nextArg);
+          i++;
+        }
+        break;
+      case '--multi':
+        if (nextArg) {
+          options.multi = nextArg;
+          i++;
+        }
+        break;
+      case '--duplicates':
+        if (nextArg) {
+          options.duplicates = nextArg;
+          i++;
+        }
+        break;
+      case '--seed':
+        if (nextArg) {
+          options.seed = nextArg;
+          i++;
+        }
+        break;
+      case '--name':
+        if (nextArg) {
+          options.name = nextArg;
+          i++;
+        }
+        break;
+      case '--rating':
+        if (nextArg) {
+          options.rating = nextArg;
+          i++;
+        }
+        break;
+      case '--position':
+        if (nextArg) {
+          options.position = nextArg;
+          i++;
+        }
+        break;
+      case '--notes':
+        if (nextArg) {
+          options.notes = nextArg;
+          i++;
+        }
+        break;
+      case '--replace':
+        options.replace = true;
+        break;
+      case '--score':
+        if (nextArg) {
+          options.score = nextArg;
+          i++;
+        }
+        break;
+      case '--split':
+        if (nextArg) {
+          options.split = nextArg;
+          i++;
+        }
+        break;
+      case '--team':
+        if (nextArg) {
+          options.teamIds.push(nextArg);
+          i++;
+        }
+        break;
+      case '--k-factor':
+        if (nextArg) {
+          options.kFactor = nextArg;
+          i++;
+        }
+        break;
+      case '--output':
+      case '-o':
+        if (nextArg) {
+          options.output = nextArg;
+          i++;
+        }
+        break;
+      case '--format':
+        if (nextArg) {
+          options.format = nextArg;
+          i++;
+        }
+        break;
+      case '--bundle':
+        if (nextArg) {
+          options.bundle = nextArg;
           i++;
         }
         break;
@@ -87,8 +696,11 @@ function parseArgs(args: string[]): CLIOptions {
         options.help = true;
         break;
       default:
+        if (['players', 'sessions', 'games'].includes(options.command) && !arg.startsWith('-')) {
+          options.positionals.push(arg);
+        }
         // Legacy support: first positional arg is solver
-        if (!arg.startsWith('-') && i === 0) {
+        if (!arg.startsWith('-') && i === 0 && options.command === 'solve') {
           options.solver = arg;
         }
         break;
@@ -98,7 +710,7 @@ function parseArgs(args: string[]): CLIOptions {
   return options;
 }
 
-function showHelp(): void {
+function showHelp(registry: ScenarioRegistry): void {
   console.log(`
 Camogie Team Optimization CLI
 
@@ -107,15 +719,188 @@ Usage:
 
 Options:
   --solver, -s    Solver to use (default: ${DEFAULT_SOLVER})
-                  Available: ${SOLVERS.local.join(', ')}, all
+                  Available: ${SOLVERS.local.join(', ')}, ${BUILTIN_SOLVER}, ${PORTFOLIO_SOLVER}, all
+                  (falls back to ${BUILTIN_SOLVER} when MiniZinc is not installed)
+                  ${PORTFOLIO_SOLVER} races the available solvers in parallel and keeps
+                  the first proven optimum; all runs them one after another
   
   --scenario, -c  Scenario to run (default: ${DEFAULT_SCENARIO})
-                  Available: ${Object.keys(SCENARIOS).join(', ')}, all
+                  Available: ${registry.scenarios.map((s) => s.id).join(', ')}, all
+  
+  --models-dir, -m
+                  Directory scanned for scenarios (default: ${DEFAULT_MODELS_DIR}, or $MODELS_DIR).
+                  Each <name>.mzn needs a <name>.scenario.json manifest next to it
   
   --file, -f      CSV file path (default: data/test-players.csv)
   
+  --stored        Use the player store as the roster instead of --file
+  --ids           Comma-separated stored player IDs to pick (implies --stored)
+  --store         Player store file (default: ${DEFAULT_PLAYER_STORE}, or $PLAYER_STORE)
+  
+  --present       Comma-separated IDs of the stored players who turned up. They
+                  are checked in to the session for --date (created if needed),
+                  only they are split, and the split is recorded in the session
+  --date          Session date for --present, YYYY-MM-DD (default: today)
+  --session       Solve the players checked in to a stored session (e.g. s3)
+  
+  --teams, -t     Number of teams to split into (default: ${DEFAULT_NUM_TEAMS})
+  
+  --pairs, -p     JSON file with keep-together / keep-apart groups, e.g.
+                  {"together": [["Aoife Kelly", "Ciara O'Brien"]], "apart": [["A", "B"]]}
+                  (CSV "group" / "avoid" columns are also honoured)
+  
+  --pin           Pin a player to a team and let the solver place everyone
+                  else, repeatable: "Aoife Kelly=A", "p3=2" (stored player ID).
+                  A CSV "team" column (A, B, ... or 1, 2, ...) pins players too
+  
+  --previous      JSON file of an earlier split to rebalance after late arrivals
+                  or withdrawals: a --format json team sheet, [["Aoife", ...], [...]]
+                  or {"Aoife Kelly": "A", ...}. The fairest split is kept, moving
+                  as few of its players as possible; the moves are listed
+  --rebalance     Rebalance the latest split recorded for --session (or --present)
+  --max-moves     Hard cap on how many players of the previous split may change team
+  
+  --quota, -q     Hard per-team position quota, repeatable:
+                  goalkeeper=1 (exactly 1), defense=4: (at least 4),
+                  forward=:5 (at most 5), midfield=3:5 (between 3 and 5)
+  
+  --balance       Spread a category column of the CSV (any text column, e.g.
+                  experience, club or age band) across teams, repeatable:
+                  experience or experience=hard keeps every value's count
+                  within one player across teams (no team gets all the
+                  beginners);
+                  club=2 adds the club counts' spread times 2 to the objective
+  
+  --alternatives, -k
+                  Return the k best distinct splits (default: 1, max: ${MAX_ALTERNATIVES}),
+                  so a coach can choose between equally fair options
+
+  --rounds        Social mixer: split the same players once per round
+                  (default: 1, max: ${MAX_ROUNDS}); each round is fair on its own
+                  and pairs who were already teammates cost --repeat-penalty
+                  per earlier round together, so players meet new teammates
+
+  --repeat-penalty
+                  Cost added to the objective for each earlier round a pair of
+                  players shared a team (default: ${DEFAULT_REPEAT_PENALTY}); raise it to favour
+                  new teammates over closer ratings
+
+  --history       JSON file of past splits, oldest week first (team sheets,
+                  teams of names, or a player store with sessions); pairs who
+                  were teammates recently cost extra, so the same players do
+                  not land together week after week
+  --season        Like --history, reading the splits recorded in the player
+                  store's sessions (before the --session / --present one)
+  --history-penalty
+                  Cost of sharing a team in last week's split (default: ${DEFAULT_HISTORY_PENALTY})
+  --history-decay Share of the penalty kept for each week further back
+                  (default: ${DEFAULT_HISTORY_DECAY}; 0 = last week only, 1 = all weeks alike)
+  
+  --weight, -w    Objective weight, repeatable: rating=N (team rating spread),
+                  position=N (position count spread, with_positions),
+                  position_rating=N (per-position rating spread, balanced_positions)
+                  A scenario accepts only the weights its model reads. Defaults:
+                            ${registry.scenarios
+                    .map(({ id, parameters }) => `${id} ${describeWeights(parameters) || '(none)'}`)
+                    .join('\n                            ')}
+  
+  --attribute-weight, -a
+                  Weight of an attribute column of the CSV (any numeric column
+                  besides rating, e.g. speed=2), repeatable. balanced_attributes
+                  minimises each attribute's team-total spread times its weight
+                  (default: ${DEFAULT_ATTRIBUTE_WEIGHT})
+  
+  --size-tolerance, -z
+                  Largest allowed difference between team sizes (default: ${DEFAULT_SIZE_TOLERANCE})
+  
+  --time-limit, -l
+                  Solver time limit in ms (default: ${DEFAULT_TIME_LIMIT}, max: ${MAX_TIME_LIMIT})
+  
+  --output, -o    Write a team sheet of the best split (rosters, totals, balance
+                  stats) to this file. With several solvers or scenarios, each
+                  run gets its own file (teams-cbc-with_positions.html)
+  
+  --format        Team sheet format: ${Object.keys(EXPORT_FORMATS).join(', ')}
+                  (default: from the --output extension, else ${DEFAULT_EXPORT_FORMAT}).
+                  Without --output the sheet is printed after the results
+  
+  --bundle        Write the scenario's .mzn, the roster as data.dzn and data.json,
+                  the roster CSV and a README to this folder (or to a .zip), to
+                  reproduce the run in the MiniZinc IDE or attach it to a bug report
+  
   --help, -h      Show this help message
 
+Bench:
+  npx tsx src/cli/commands.ts bench [options]
+
+  Runs each solver x scenario x roster combination several times and reports
+  min/median/p95 solve time, objective, status and solver statistics.
+  --solver and --scenario also accept comma-separated lists here; the other
+  options above apply to every run.
+
+  --file, -f      Roster CSV, repeatable to benchmark several rosters
+  --runs, -n      Runs per combination (default: ${DEFAULT_BENCH_RUNS})
+  --report, -r    Write <name>.json and <name>.csv (default: ${DEFAULT_BENCH_REPORT})
+  --baseline, -b  Compare against an earlier JSON report; exits with status 1
+                  on regressions (slower median, worse objective or status)
+  --threshold     Median slowdown in percent counted as a regression (default: ${DEFAULT_BENCH_THRESHOLD})
+
+Generate:
+  npx tsx src/cli/commands.ts generate [options]
+
+  Writes a synthetic roster CSV for stress tests and demos. The same options
+  and seed always give the same roster.
+
+  --players       Number of players (default: ${DEFAULT_ROSTER_SIZE}, max: ${MAX_ROSTER_SIZE})
+  --ratings       Rating distribution (default: uniform)
+                  Available: ${RATING_DISTRIBUTIONS.join(', ')}
+  --mix           Position shares, repeatable or comma-separated
+                  (default: ${Object.entries(DEFAULT_POSITION_MIX).map(([p, n]) => `${p}=${n}`).join(',')})
+  --multi         Share of players who list a second position, 0 to 1 (default: 0)
+  --duplicates    Number of players that repeat an earlier player's name (default: 0)
+  --seed          Random seed (default: random, printed to stderr)
+  --output, -o    Write the CSV to this file instead of stdout
+
+Players:
+  npx tsx src/cli/commands.ts players <action> [options]
+
+  Manages the player store, a JSON file that keeps the squad between solves.
+  Players get a stable ID (p1, p2, ...) that --ids and the API refer to.
+
+  list            Print the stored players
+  add             Add a player: --name, --rating (${MIN_RATING}-${MAX_RATING}), --position
+                  (several as midfield|forward, preferred first), --notes
+  update <id>     Change the fields given (same options as add)
+  remove <id>     Remove a player
+  import <csv>    Add the players of a roster CSV; rows with a stored ID or
+                  name update that player. --replace empties the store first
+  export          Write the store as a roster CSV (--output, -o for a file)
+  ratings [id]    Rating trend of every player, or one player's full history
+
+Sessions:
+  npx tsx src/cli/commands.ts sessions <action> [id]
+
+  A session is one training day: who checked in, and the splits solved for
+  them. --present or --session on a solve records its split in the session.
+
+  list            Print the sessions, newest first
+  show <id>       Print who checked in and every recorded split
+  remove <id>     Remove a session and its splits
+
+Games:
+  npx tsx src/cli/commands.ts games <action> [options]
+
+  Records the score of a game played with a split and moves each player's
+  rating Elo-style: winners of an upset gain more than favourites. Ratings
+  keep decimals in the store and are rounded for solves.
+
+  record          --session <id> scores a session's split (--split N, default
+                  the latest), or give each team with --team p1,p2,... instead
+                  --score       Score of each team in order, e.g. 12,9
+                  --k-factor    Most a rating moves in one game (default: ${DEFAULT_K_FACTOR}, max: ${MAX_K_FACTOR})
+                  --date        Day of the game (default: the session's, else today)
+  list            Print the recorded games, newest first
+
 Examples:
   # Test with CBC solver and ratings+positions scenario
   npx tsx src/cli/commands.ts --solver cbc --scenario with_positions
@@ -123,73 +908,406 @@ Examples:
   # Test all solvers with all scenarios
   npx tsx src/cli/commands.ts -s all -c all
 
+  # Race all available solvers, keep the first optimal answer
+  npx tsx src/cli/commands.ts --solver portfolio --scenario balanced_positions
+
+  # Solve without MiniZinc using the built-in branch-and-bound solver
+  npx tsx src/cli/commands.ts --solver builtin --scenario with_positions
+
   # Use custom CSV file
   npx tsx src/cli/commands.ts --file data/my-team.csv --solver coinbc
 
+  # Split a big squad into four teams
+  npx tsx src/cli/commands.ts --teams 4 --scenario with_positions
+
+  # Show the three best distinct splits
+  npx tsx src/cli/commands.ts --alternatives 3 --scenario with_positions
+
+  # Three rounds of four teams, mixing teammates up as much as ratings allow
+  npx tsx src/cli/commands.ts --rounds 3 --teams 4 --repeat-penalty 2
+
+  # Tonight's players, steering away from the teams of recent weeks
+  npx tsx src/cli/commands.ts --present p1,p3,p4,p7,p9,p12 --season --history-decay 0.75
+
+  # Favour position balance over rating balance, and give the solver 30s
+  npx tsx src/cli/commands.ts -c with_positions -w rating=2 -w position=5 -l 30000
+
+  # Spread beginners evenly (hard) and clubs as well as the ratings allow
+  npx tsx src/cli/commands.ts -f data/test-categories.csv --balance experience --balance club=2
+
+  # Balance speed, stickwork, fitness and experience, speed counting double
+  npx tsx src/cli/commands.ts -f data/test-attributes.csv -c balanced_attributes -a speed=2
+
+  # Run a custom model from another directory
+  npx tsx src/cli/commands.ts --models-dir my-models --scenario my_scenario
+
+  # Save a printable team sheet, or print one as Markdown for a group chat
+  npx tsx src/cli/commands.ts -c with_positions --output teams.html
+  npx tsx src/cli/commands.ts -c with_positions --format markdown
+
+  # Save the MiniZinc model and data of a run for the MiniZinc IDE
+  npx tsx src/cli/commands.ts -c balanced_positions --teams 3 --bundle bug-report.zip
+
+  # Benchmark the WASM solvers, 10 runs each, on two rosters
+  npx tsx src/cli/commands.ts bench -s gecode,chuffed,cbc -c all -n 10 -f data/a.csv -f data/b.csv
+
+  # Re-run and compare against a saved report
+  npx tsx src/cli/commands.ts bench -s all -c all -b bench-report.json -r bench-new
+
+  # Generate a reproducible 200-player roster and split it into 8 teams
+  npx tsx src/cli/commands.ts generate --players 200 --ratings bimodal --multi 0.3 --seed 7 -o data/big.csv
+  npx tsx src/cli/commands.ts --solver builtin --teams 8 --file data/big.csv
+
+  # Keep the squad in the player store and solve with part of it
+  npx tsx src/cli/commands.ts players import data/test-players.csv
+  npx tsx src/cli/commands.ts players update p4 --rating 8 --notes "back from injury"
+  npx tsx src/cli/commands.ts --stored --ids p1,p2,p3,p4,p5,p6 -c with_positions
+
+  # Split whoever turned up today, then look back at the session
+  npx tsx src/cli/commands.ts --present p1,p3,p4,p7,p9,p12 -c with_positions
+  npx tsx src/cli/commands.ts sessions list
+  npx tsx src/cli/commands.ts sessions show s1
+
+  # Record the result of that split and see how the ratings moved
+  npx tsx src/cli/commands.ts games record --session s1 --score 12,9
+  npx tsx src/cli/commands.ts players ratings
+
   # Legacy: just specify solver (uses default scenario)
   npx tsx src/cli/commands.ts cbc
 
-Scenarios:
-${Object.entries(SCENARIOS)
-  .map(([id, s]) => `  ${id.padEnd(16)} - ${s.description}`)
+Scenarios (from ${registry.dir}):
+${registry.scenarios
+  .map((s) => `  ${s.id.padEnd(18)} - ${s.description || s.name}${s.builtin ? '' : ` (${s.modelFile})`}`)
   .join('\n')}
-`);
+${registry.problems.length > 0 ? `\nSkipped:\n${registry.problems.map((p) => `  ${p}`).join('\n')}\n` : ''}`);
+}
+
+function printCSVReport(report: CSVReport): void {
+  if (report.errors.length > 0) {
+    console.error(`\nCSV errors (${report.errors.length} row(s) left out):`);
+    report.errors.forEach((issue) => console.error(`  - ${formatCSVIssue(issue)}`));
+  }
+  if (report.warnings.length > 0) {
+    console.warn(`\nCSV warnings:`);
+    report.warnings.forEach((issue) => console.warn(`  - ${formatCSVIssue(issue)}`));
+  }
+}
+
+/**
+ * Where a roster comes from: a CSV file, or (--stored / --ids) the player
+ * store, optionally limited to some player IDs
+ */
+type RosterSource = { file: string } | { store: string; ids?: string[]; session?: string };
+
+function rosterSources(options: CLIOptions): RosterSource[] {
+  if (options.session) {
+    return [{ store: options.store, session: options.session }];
+  }
+  if (options.stored || options.ids) {
+    return [{ store: options.store, ids: options.ids?.split(',').map((id) => id.trim()).filter(Boolean) }];
+  }
+  return (options.files.length > 0 ? options.files : [options.file]).map((file) => ({ file }));
+}
+
+function rosterLabel(source: RosterSource): string {
+  if ('file' in source) {
+    return source.file;
+  }
+  if (source.session) {
+    return `${source.store} (session ${source.session})`;
+  }
+  return source.ids ? `${source.store} (${source.ids.join(', ')})` : source.store;
+}
+
+/**
+ * The roster as CSV text. Throws when the file or a stored player ID is missing.
+ */
+function readRoster(source: RosterSource): string {
+  if ('store' in source) {
+    const store = loadPlayerStore(source.store);
+    if (source.session) {
+      const session = findSession(store, source.session);
+      if (!session) {
+        throw new Error(`Unknown session: ${source.session}`);
+      }
+      return formatPlayersCSV(sessionPlayers(store, session));
+    }
+    return formatPlayersCSV(selectStoredPlayers(store, source.ids ?? 'all'));
+  }
+  const csvFullPath = path.resolve(source.file);
+  if (!fs.existsSync(csvFullPath)) {
+    throw new Error(`CSV file not found: ${csvFullPath}`);
+  }
+  return fs.readFileSync(csvFullPath, 'utf8');
+}
+
+/**
+ * A roster parsed for one scenario, with the command-line rules and
+ * parameters applied
+ */
+interface PreparedRoster {
+  data: ReturnType<typeof parseCSV>;
+  params: SolveParameters;
+  alternatives: number;
+  rounds: number;
+  repeatPenalty: number;
+  /** Rules that can never be satisfied (nothing to solve when non-empty) */
+  conflicts: string[];
+}
+
+/**
+ * Parse roster CSV text and apply --teams, --pairs, --pin, the split to
+ * rebalance, --balance, --quota and the solve
+ * parameters for a scenario. Throws when the roster or an option is invalid
+ * (a CSVValidationError carries the import report).
+ */
+function prepareRoster(csvText: string, scenario: ScenarioDefinition, options: CLIOptions): PreparedRoster {
+  const data = parseCSV(csvText);
+
+  data.num_teams = parseNumTeams(options.teams, data.num_players);
+  const alternatives = parseAlternativeCount(options.alternatives);
+  const rounds = parseRoundCount(options.rounds);
+  const repeatPenalty = parseRepeatPenalty(options.repeatPenalty);
+  if (rounds > 1 && alternatives > 1) {
+    throw new Error('Use either --rounds or --alternatives, not both');
+  }
+  const params = parseSolveParameters({
+    weights: options.weights.reduce<Partial<ObjectiveWeights>>((acc, spec) => parseWeightSpec(spec, acc), {}),
+    attributeWeights: options.attributeWeights.reduce<Record<string, number>>(
+      (acc, spec) => parseAttributeWeightSpec(spec, acc),
+      {}
+    ),
+    sizeTolerance: options.sizeTolerance,
+    timeLimit: options.timeLimit,
+  }, scenario.parameters);
+  const extraPairs = options.pairs
+    ? JSON.parse(fs.readFileSync(path.resolve(options.pairs), 'utf8'))
+    : undefined;
+  const pins = options.pins.reduce<TeamPins>((acc, spec) => parsePinSpec(spec, acc), {});
+  const quotas = options.quotas.reduce<PositionQuotas>((acc, spec) => parseQuotaSpec(spec, acc), {});
+  const balance = options.balance.reduce<CategoryBalance>((acc, spec) => parseCategorySpec(spec, acc), {});
+  // Parameters first: the size tolerance bounds how big keep-together groups can be
+  const conflicts = [
+    ...applySolveParameters(data, params),
+    ...applyPairingRules(data, parsePairingRules(extraPairs)),
+    ...applyTeamPins(data, pins),
+    ...applyRebalance(data, options.previousSplit ?? [], parseMaxMoves(options.maxMoves)),
+    ...applyCategoryBalance(data, balance),
+    ...applyPositionQuotas(data, quotas),
+  ];
+  if (options.historyWeeks) {
+    applyHistory(
+      data,
+      options.historyWeeks,
+      parseHistoryPenalty(options.historyPenalty),
+      parseHistoryDecay(options.historyDecay)
+    );
+  }
+
+  const missing = findMissingModelData(scenario, data);
+  if (missing.length > 0) {
+    throw new Error(`Scenario ${scenario.id} needs data fields the roster does not provide: ${missing.join(', ')}`);
+  }
+  return { data, params, alternatives, rounds, repeatPenalty, conflicts };
+}
+
+/**
+ * Where and how to write team sheets (--output / --format)
+ */
+interface TeamSheetTarget {
+  format: ExportFormat;
+  /** File to write; printed to stdout when absent */
+  path?: string;
+}
+
+/**
+ * `target` itself, or with several runs `<name>-<solver>-<scenario><ext>`
+ */
+function runOutputPath(target: string, perRun: boolean, solver: string, scenarioId: string): string {
+  const parsed = path.parse(path.resolve(target));
+  return perRun ? path.join(parsed.dir, `${parsed.name}-${solver}-${scenarioId}${parsed.ext}`) : path.format(parsed);
+}
+
+function resolveTeamSheetTarget(options: CLIOptions): TeamSheetTarget | undefined {
+  if (!options.output && !options.format) {
+    return undefined;
+  }
+  const format = options.format
+    ? parseExportFormat(options.format)
+    : exportFormatForFile(options.output!) ?? DEFAULT_EXPORT_FORMAT;
+  return { format, path: options.output };
+}
+
+function writeTeamSheet(
+  target: TeamSheetTarget,
+  content: string,
+  perRun: boolean,
+  solver: string,
+  scenarioId: string
+): void {
+  if (!target.path) {
+    console.log(`\n--- Team Sheet (${target.format}) ---\n${content}`);
+    return;
+  }
+  const withExtension = path.extname(target.path) ? target.path : target.path + EXPORT_FORMATS[target.format].extension;
+  const file = runOutputPath(withExtension, perRun, solver, scenarioId);
+  fs.writeFileSync(file, content);
+  console.log(`\nTeam sheet written to ${file}`);
 }
 
 async function runSolve(
-  service: MiniZincService,
+  service: TeamSolver,
   solver: string,
-  scenarioId: ScenarioId,
-  csvPath: string
+  registry: ScenarioRegistry,
+  scenario: ScenarioDefinition,
+  options: CLIOptions,
+  teamSheet?: TeamSheetTarget,
+  /** Several solver x scenario runs: name output files after each run */
+  perRun: boolean = false
 ): Promise<void> {
-  const scenario = SCENARIOS[scenarioId];
+  const roster = rosterSources(options)[0];
+  const scenarioId = scenario.id;
   
   console.log(`\n${'='.repeat(60)}`);
   console.log(`Solver: ${solver.toUpperCase()} | Scenario: ${scenario.name}`);
   console.log(`${'='.repeat(60)}`);
 
   // Load model and data
-  const modelPath = path.resolve(`./models/${scenario.modelFile}`);
-  if (!fs.existsSync(modelPath)) {
-    console.error(`Model file not found: ${modelPath}`);
+  let modelCode: string;
+  try {
+    modelCode = readScenarioModel(registry, scenario);
+  } catch (error) {
+    console.error(`Model file not readable: ${(error as Error).message}`);
     return;
   }
-
-  const modelCode = fs.readFileSync(modelPath, 'utf8');
   
-  // Load and parse CSV
-  const csvFullPath = path.resolve(csvPath);
-  if (!fs.existsSync(csvFullPath)) {
-    console.error(`CSV file not found: ${csvFullPath}`);
+  let csvText: string;
+  let prepared: PreparedRoster;
+  try {
+    csvText = readRoster(roster);
+    prepared = prepareRoster(csvText, scenario, options);
+  } catch (error) {
+    if (error instanceof CSVValidationError) {
+      printCSVReport(error.report);
+    }
+    console.error((error as Error).message);
     return;
   }
+  const { data, params, alternatives, rounds, repeatPenalty, conflicts } = prepared;
+  printCSVReport(data.report);
   
-  const csvData = fs.readFileSync(csvFullPath, 'utf8');
-  const data = parseCSV(csvData);
-  
-  console.log(`\nLoaded ${data.num_players} players from ${csvPath}`);
+  console.log(`\nLoaded ${data.num_players} players from ${rosterLabel(roster)}`);
+  console.log(`Splitting into ${data.num_teams} teams`);
+  console.log(`Parameters: ${describeSolveParameters(params)}`);
+
+  if (data.history) {
+    const { weeks, penalty, decay } = data.history;
+    console.log(
+      `History: ${weeks} week(s), penalty ${penalty} per shared split, decay ${decay} per week ` +
+      `(${data.num_repeat_pairs} pair(s) penalised)`
+    );
+  }
+
+  const rules = describeHardRules(data);
+  if (rules.length > 0) {
+    console.log(`\nHard rules:`);
+    rules.forEach((r) => console.log(`  ${r}`));
+  }
+
+  // Written before solving, so inputs that crash or hang the solver are kept
+  if (options.bundle) {
+    const bundle = buildModelBundle({
+      scenario,
+      modelCode,
+      data,
+      solver,
+      timeLimit: params.timeLimit,
+      csvText,
+    });
+    const target = runOutputPath(options.bundle, perRun, solver, scenarioId);
+    try {
+      if (target.toLowerCase().endsWith('.zip')) {
+        fs.writeFileSync(target, createZip(bundle.files));
+      } else {
+        fs.mkdirSync(target, { recursive: true });
+        bundle.files.forEach((file) => fs.writeFileSync(path.join(target, file.name), file.content));
+      }
+      console.log(`MiniZinc bundle written to ${target}`);
+    } catch (error) {
+      console.error(`Could not write MiniZinc bundle: ${(error as Error).message}`);
+    }
+  }
+
+  if (conflicts.length > 0) {
+    console.error(`\nPairing rules, pins, move limits, category balance, position quotas or parameters cannot be satisfied:`);
+    conflicts.forEach((c) => console.error(`  - ${c}`));
+    return;
+  }
 
   // Check solver availability
   const available = service.getAvailableSolvers();
-  if (!available.includes(solver)) {
+  if (solver !== PORTFOLIO_SOLVER && !available.includes(solver)) {
     console.warn(`Warning: Solver "${solver}" not in available list (${available.join(', ')})`);
     console.warn('Attempting to proceed anyway...');
   }
 
   const config: SolverConfig = {
     solver: solver as SolverConfig['solver'],
-    timeLimit: DEFAULT_TIME_LIMIT,
+    timeLimit: params.timeLimit,
   };
 
   try {
-    const result = await service.solve(modelCode, data, config, scenario.modelFile);
+    // Output that breaks the scenario's declared schema becomes an ERROR;
+    // the rest is re-checked against the roster
+    const result = verifyResult(
+      bundledScenarioId(scenario),
+      data,
+      checkScenarioOutput(
+        scenario,
+        rounds > 1
+          ? await solveRounds(service, modelCode, data, config, scenario.modelFile, {
+              rounds,
+              repeatPenalty,
+              scenarioId: bundledScenarioId(scenario),
+            })
+          : alternatives > 1
+            ? await solveAlternatives(service, modelCode, data, config, scenario.modelFile, alternatives)
+            : await service.solve(modelCode, data, config, scenario.modelFile)
+      ),
+      config
+    );
 
     if (result.status === 'ERROR') {
       console.error(`\nError: ${result.errorMessage || 'Solver failed'}`);
       return;
     }
 
+    const infeasible = result.status === 'UNSATISFIABLE' ? explainInfeasibleSplit(data) : null;
+    if (infeasible) {
+      console.error(`\n${infeasible}`);
+      return;
+    }
+
     console.log(`\nStatus: ${result.status}`);
+    const verification = result.verification;
+    if (verification?.timeLimited) {
+      console.warn(`Stopped at the ${config.timeLimit}ms time limit: the split may not be optimal`);
+    }
+    if (verification && result.solution) {
+      if (verification.verified) {
+        console.log(`Verified: ${verification.checked.length} reported value(s) recomputed, hard rules hold`);
+      } else {
+        console.warn(`Verification FAILED (solver output disagrees with the roster):`);
+        verification.issues.forEach((issue) => console.warn(`  - ${issue.message}`));
+      }
+    }
+    if (result.portfolio) {
+      console.log(`Winner: ${result.solver}`);
+      result.portfolio.forEach((run) => {
+        const objective = run.objective !== undefined ? `, objective ${run.objective}` : '';
+        console.log(`  ${run.solver.padEnd(10)} ${run.status.padEnd(13)} ${run.solveTime}ms${objective}`);
+      });
+    }
     console.log(`Solve Time: ${result.solveTime}ms`);
 
     if (result.solution) {
@@ -197,82 +1315,266 @@ async function runSolve(
       const assignment = solution.assignment || solution.output?.json?.team_assignment || [];
       
       if (assignment.length > 0) {
-        const { teamA, teamB } = splitIntoTeams(data.players, assignment);
-        const sortedA = sortPlayersByPosition(teamA);
-        const sortedB = sortPlayersByPosition(teamB);
-        
-        const totalA = solution.total_rating_a ?? calculateTotalRating(teamA);
-        const totalB = solution.total_rating_b ?? calculateTotalRating(teamB);
-        const ratingDiff = Math.abs(totalA - totalB);
-
-        // Display Team A
-        console.log(`\n--- Team A (${totalA} rating points) ---`);
-        sortedA.forEach((p, i) => console.log(formatPlayer(p, i)));
-
-        // Display Team B
-        console.log(`\n--- Team B (${totalB} rating points) ---`);
-        sortedB.forEach((p, i) => console.log(formatPlayer(p, i)));
+        const players = assignRoles(data.players, solution.roles);
+        const teams = splitIntoTeams(players, assignment, data.num_teams);
+        const totals: number[] = solution.team_ratings ?? teams.map(calculateTotalRating);
+        const ratingDiff = spread(totals);
+
+        // Display each team
+        teams.forEach((team, t) => {
+          console.log(`\n--- ${teamName(t)} (${totals[t]} rating points) ---`);
+          sortPlayersByPosition(team).forEach((p, i) => console.log(formatPlayer(p, i)));
+        });
 
         console.log(`\n--- Summary ---`);
-        console.log(`Rating Difference: ${ratingDiff}`);
+        console.log(`Rating Difference (max - min): ${ratingDiff}`);
+
+        // Season history: how many teammate pairs are new compared with recent weeks
+        if (data.history) {
+          const { freshness, repeats } = summarizeHistory(data, assignment);
+          console.log(`Freshness: ${freshness}% of teammate pairs not together recently`);
+          if (repeats.length > 0) {
+            console.log(`\nRecent teammates together again:`);
+            repeats.forEach(({ players: pair, cost }) => console.log(`  ${pair.join(' & ')} (cost ${cost})`));
+          }
+        }
+
+        // Multi-position players the solver moved off their preferred position
+        const moved = players.filter((p) => p.role && p.role !== p.position);
+        if (moved.length > 0) {
+          console.log(`\nPlaying out of preferred position:`);
+          moved.forEach((p) => console.log(`  ${p.name}: ${p.role} (prefers ${p.position})`));
+        }
+
+        // Pinned players kept their team; the solver placed the rest
+        const pinned = players.filter((p) => p.pinned);
+        if (pinned.length > 0) {
+          console.log(`\nPinned: ${pinned.length} player(s), ${players.length - pinned.length} placed by the solver`);
+          teams.forEach((team, t) => {
+            const names = team.filter((p) => p.pinned).map((p) => p.name);
+            if (names.length > 0) console.log(`  ${teamName(t)}: ${names.join(', ')}`);
+          });
+        }
+
+        // Rebalancing: changes from the previous split
+        if (data.previous?.length) {
+          const { moves, joined, withdrawn, maxMoves } = summarizeRebalance(data, assignment);
+          const cap = maxMoves !== undefined ? ` (at most ${maxMoves} allowed)` : '';
+          console.log(`\nRebalanced: ${moves.length} player(s) moved${cap}`);
+          [...moves, ...joined].forEach((move) => console.log(`  ${describeMove(move)}`));
+          if (withdrawn.length > 0) {
+            console.log(`  Withdrawn: ${withdrawn.join(', ')}`);
+          }
+        }
+
+        // Per-attribute team totals when the CSV has attribute columns
+        const attributes = summarizeAttributes(data, assignment);
+        if (attributes.length > 0) {
+          console.log(`\nAttribute Totals:`);
+          const width = Math.max(...attributes.map((a) => a.name.length)) + 1;
+          attributes.forEach(({ name, totals, spread: attributeSpread, weight }) => {
+            const byTeam = totals.map((v, t) => `${teamName(t)} = ${v}`).join(', ');
+            const weighted = scenarioId === 'balanced_attributes' ? `, weight ${weight}` : '';
+            console.log(`  ${`${name}:`.padEnd(width)} ${byTeam} (diff: ${attributeSpread}${weighted})`);
+          });
+        }
+
+        // Per-value team counts of each balanced category; the soft ones'
+        // weighted spreads add to the objective
+        const categories = summarizeCategories(data, assignment);
+        if (categories.length > 0) {
+          console.log(`\nCategory Distribution:`);
+          categories.forEach(({ name, rule, counts, spread: categorySpread }) => {
+            console.log(`  ${name} (${rule === 'hard' ? 'hard' : `weight ${rule}`}, diff: ${categorySpread}):`);
+            const width = Math.max(...Object.keys(counts).map((value) => value.length)) + 1;
+            Object.entries(counts).forEach(([value, byTeam]) => {
+              console.log(`    ${`${value}:`.padEnd(width)} ${byTeam.map((n, t) => `${teamName(t)} = ${n}`).join(', ')}`);
+            });
+          });
+        }
+        const softCategories = categories.filter((c) => c.rule !== 'hard');
+        const categoryDiff = softCategories.reduce((sum, c) => sum + c.spread * (c.rule as number), 0);
+        // Penalised pairs (recent teammates) add their cost too
+        const repeats = solution.repeat_penalty ?? 0;
+        const categoryTerm = (softCategories.length > 0 ? ' + category_diff' : '') +
+          (data.num_repeat_pairs > 0 ? ' + repeat_penalty' : '');
+        const categoryValue = (softCategories.length > 0 ? ` + ${categoryDiff}` : '') +
+          (data.num_repeat_pairs > 0 ? ` + ${repeats}` : '');
+
+        // Position distribution whenever quotas are in force
+        if (scenarioId === 'ratings_only' && Object.keys(data.quotas ?? {}).length > 0) {
+          console.log(`\nPosition Distribution:`);
+          teams.map(countPositions).forEach((pos, t) => {
+            console.log(`  ${teamName(t)}: ${formatPositionCounts(pos)}`);
+          });
+        }
 
         // Position balance (for with_positions scenario)
         if (scenarioId === 'with_positions') {
-          const posA = countPositions(teamA);
-          const posB = countPositions(teamB);
+          const positions = teams.map(countPositions);
           
           console.log(`\nPosition Distribution:`);
-          console.log(`  Team A: ${posA.forward} forwards, ${posA.midfield} midfield, ${posA.defense} defense`);
-          console.log(`  Team B: ${posB.forward} forwards, ${posB.midfield} midfield, ${posB.defense} defense`);
+          positions.forEach((pos, t) => {
+            console.log(`  ${teamName(t)}: ${formatPositionCounts(pos)}`);
+          });
           
-          const positionDiff = 
-            Math.abs(posA.forward - posB.forward) +
-            Math.abs(posA.midfield - posB.midfield) +
-            Math.abs(posA.defense - posB.defense);
+          const positionDiff =
+            spread(positions.map((p) => p.forward)) +
+            spread(positions.map((p) => p.midfield)) +
+            spread(positions.map((p) => p.defense)) +
+            spread(positions.map((p) => p.goalkeeper));
           
-          const objective = ratingDiff * RATING_WEIGHT + positionDiff;
+          const offPreference = moved.length;
+          const { rating: ratingWeight = 0, position: positionWeight = 0 } = params.weights;
+          const objective =
+            ratingDiff * ratingWeight + positionDiff * positionWeight + offPreference + categoryDiff + repeats;
           
           console.log(`\nObjective Function:`);
-          console.log(`  objective = rating_diff * ${RATING_WEIGHT} + position_diff`);
-          console.log(`           = ${ratingDiff} * ${RATING_WEIGHT} + ${positionDiff}`);
+          console.log(`  objective = rating_diff * ${ratingWeight} + position_diff * ${positionWeight} + off_preference${categoryTerm}`);
+          console.log(`           = ${ratingDiff} * ${ratingWeight} + ${positionDiff} * ${positionWeight} + ${offPreference}${categoryValue}`);
           console.log(`           = ${objective}`);
         }
 
         // Position-wise rating balance (for balanced_positions scenario)
         if (scenarioId === 'balanced_positions') {
-          const posA = countPositions(teamA);
-          const posB = countPositions(teamB);
+          const positions = teams.map(countPositions);
           
           // Calculate position-wise ratings
-          const forwardRatingA = teamA.filter(p => p.position === 'forward').reduce((s, p) => s + p.rating, 0);
-          const forwardRatingB = teamB.filter(p => p.position === 'forward').reduce((s, p) => s + p.rating, 0);
-          const midfieldRatingA = teamA.filter(p => p.position === 'midfield').reduce((s, p) => s + p.rating, 0);
-          const midfieldRatingB = teamB.filter(p => p.position === 'midfield').reduce((s, p) => s + p.rating, 0);
-          const defenseRatingA = teamA.filter(p => p.position === 'defense').reduce((s, p) => s + p.rating, 0);
-          const defenseRatingB = teamB.filter(p => p.position === 'defense').reduce((s, p) => s + p.rating, 0);
+          const ratingsFor = (position: string) =>
+            teams.map((team) => team.filter((p) => playingPosition(p) === position).reduce((s, p) => s + p.rating, 0));
+          const forwardRatings = ratingsFor('forward');
+          const midfieldRatings = ratingsFor('midfield');
+          const defenseRatings = ratingsFor('defense');
+          const goalkeeperRatings = ratingsFor('goalkeeper');
           
-          const forwardDiff = Math.abs(forwardRatingA - forwardRatingB);
-          const midfieldDiff = Math.abs(midfieldRatingA - midfieldRatingB);
-          const defenseDiff = Math.abs(defenseRatingA - defenseRatingB);
-          const objective = forwardDiff + midfieldDiff + defenseDiff;
+          const forwardDiff = spread(forwardRatings);
+          const midfieldDiff = spread(midfieldRatings);
+          const defenseDiff = spread(defenseRatings);
+          const goalkeeperDiff = spread(goalkeeperRatings);
+          const offPreference = moved.length;
+          const { rating: ratingWeight = 0, positionRating: positionRatingWeight = 0 } = params.weights;
+          const positionRatingDiff = forwardDiff + midfieldDiff + defenseDiff + goalkeeperDiff;
+          const objective = positionRatingDiff * positionRatingWeight + ratingDiff * ratingWeight +
+            offPreference + categoryDiff + repeats;
+          const byTeam = (values: number[]) =>
+            values.map((v, t) => `${teamName(t)} = ${v}`).join(', ');
           
           console.log(`\nPosition Distribution:`);
-          console.log(`  Team A: ${posA.forward} forwards, ${posA.midfield} midfield, ${posA.defense} defense`);
-          console.log(`  Team B: ${posB.forward} forwards, ${posB.midfield} midfield, ${posB.defense} defense`);
+          positions.forEach((pos, t) => {
+            console.log(`  ${teamName(t)}: ${formatPositionCounts(pos)}`);
+          });
           
           console.log(`\nPosition-wise Ratings:`);
-          console.log(`  Forwards:  Team A = ${forwardRatingA}, Team B = ${forwardRatingB} (diff: ${forwardDiff})`);
-          console.log(`  Midfield:  Team A = ${midfieldRatingA}, Team B = ${midfieldRatingB} (diff: ${midfieldDiff})`);
-          console.log(`  Defense:   Team A = ${defenseRatingA}, Team B = ${defenseRatingB} (diff: ${defenseDiff})`);
+          console.log(`  Forwards:  ${byTeam(forwardRatings)} (diff: ${forwardDiff})`);
+          console.log(`  Midfield:  ${byTeam(midfieldRatings)} (diff: ${midfieldDiff})`);
+          console.log(`  Defense:   ${byTeam(defenseRatings)} (diff: ${defenseDiff})`);
+          console.log(`  Goal:      ${byTeam(goalkeeperRatings)} (diff: ${goalkeeperDiff})`);
           
           console.log(`\nObjective Function:`);
-          console.log(`  objective = forward_diff + midfield_diff + defense_diff`);
-          console.log(`           = ${forwardDiff} + ${midfieldDiff} + ${defenseDiff}`);
+          console.log(`  objective = (forward_diff + midfield_diff + defense_diff + goalkeeper_diff) * ${positionRatingWeight}`);
+          console.log(`              + rating_diff * ${ratingWeight} + off_preference${categoryTerm}`);
+          console.log(`           = (${forwardDiff} + ${midfieldDiff} + ${defenseDiff} + ${goalkeeperDiff}) * ${positionRatingWeight}`);
+          console.log(`              + ${ratingDiff} * ${ratingWeight} + ${offPreference}${categoryValue}`);
           console.log(`           = ${objective}`);
         }
+
+        // Weighted attribute spreads (for balanced_attributes scenario)
+        if (scenarioId === 'balanced_attributes') {
+          const { rating: ratingWeight = 0, positionRating: positionRatingWeight = 0 } = params.weights;
+          const positionRatingDiff = ['forward', 'midfield', 'defense', 'goalkeeper']
+            .map((position) => spread(teams.map((team) =>
+              team.filter((p) => playingPosition(p) === position).reduce((s, p) => s + p.rating, 0))))
+            .reduce((a, b) => a + b, 0);
+          const offPreference = moved.length;
+          const objective = attributes.reduce((sum, a) => sum + a.spread * a.weight, 0) +
+            positionRatingDiff * positionRatingWeight + ratingDiff * ratingWeight + offPreference + categoryDiff +
+            repeats;
+          const terms = attributes.map((a) => `${a.name}_diff * ${a.weight}`);
+          const values = attributes.map((a) => `${a.spread} * ${a.weight}`);
+
+          console.log(`\nObjective Function:`);
+          console.log(`  objective = ${[...terms, `position_rating_diff * ${positionRatingWeight}`].join(' + ')}`);
+          console.log(`              + rating_diff * ${ratingWeight} + off_preference${categoryTerm}`);
+          console.log(`           = ${[...values, `${positionRatingDiff} * ${positionRatingWeight}`].join(' + ')}`);
+          console.log(`              + ${ratingDiff} * ${ratingWeight} + ${offPreference}${categoryValue}`);
+          console.log(`           = ${objective}`);
+        }
+      }
+    }
+
+    // Social mixer: every round's teams, then who played alongside whom
+    if (result.rounds && rounds > 1) {
+      console.log(`\n--- Rounds (${result.rounds.length} of ${rounds} requested, repeat penalty ${repeatPenalty}) ---`);
+      result.rounds.forEach((round) => {
+        const repeats = round.solution.repeat_penalty ?? 0;
+        const fresh = round.solution.freshness !== undefined ? `, freshness ${round.solution.freshness}%` : '';
+        const unverified = round.verification?.verified === false ? ', failed verification' : '';
+        console.log(
+          `\n  Round ${round.round}: objective ${round.objective}, rating diff ${round.solution.rating_difference}, ` +
+          `repeat penalty ${repeats}${fresh} (${round.status}${unverified})`
+        );
+        const players = assignRoles(data.players, round.solution.roles);
+        splitIntoTeams(players, round.solution.assignment ?? [], data.num_teams).forEach((team, t) => {
+          console.log(`    ${teamName(t)}: ${sortPlayersByPosition(team).map((p) => p.name).join(', ')}`);
+        });
+      });
+
+      const { players, matrix, distinctTeammates, repeatedPairs } = summarizeTeammates(
+        data.players,
+        result.rounds.map((round) => round.solution.assignment ?? [])
+      );
+      console.log(`\nTeammates (rounds together; # = player number):`);
+      const width = Math.max(...players.map((name) => name.length)) + 1;
+      const cell = String(players.length).length + 1;
+      console.log(`  ${''.padEnd(cell + width + 1)}${players.map((_, q) => String(q + 1).padStart(cell)).join('')}`);
+      matrix.forEach((row, p) => {
+        const counts = row.map((count, q) => (p === q ? '-' : String(count)).padStart(cell)).join('');
+        console.log(
+          `  ${String(p + 1).padStart(cell)} ${players[p].padEnd(width)}${counts}   ` +
+          `${distinctTeammates[p]} different teammate(s)`
+        );
+      });
+      console.log(`  Pairs on the same team more than once: ${repeatedPairs}`);
+    }
+
+    // Keep the best split in the session's history (--present / --session),
+    // or every round's split for a social mixer
+    if ('store' in roster && roster.session && result.solution) {
+      const store = loadPlayerStore(roster.store);
+      const session = findSession(store, roster.session);
+      if (session) {
+        const splits = result.rounds?.length
+          ? result.rounds
+          : [{ solution: result.solution, status: result.status }];
+        splits.forEach((split, r) => {
+          recordSessionSplit(session, data.players, split.solution, data.num_teams, {
+            scenario: scenarioId,
+            solver: result.solver ?? solver,
+            status: split.status,
+            ...(result.rounds?.length ? { round: r + 1 } : {}),
+          });
+        });
+        savePlayerStore(roster.store, store);
+        const recorded = splits.length > 1 ? `${splits.length} splits` : 'Split';
+        console.log(`\n${recorded} recorded in session ${session.id} (${session.date})`);
       }
     }
 
+    // k best mode: every distinct split found, best first
+    if (result.alternatives && alternatives > 1) {
+      console.log(`\n--- Alternatives (${result.alternatives.length} of ${alternatives} requested) ---`);
+      const bestObjective = result.alternatives[0]?.objective;
+      result.alternatives.forEach((alt) => {
+        const tie = alt.objective === bestObjective ? ', equally fair' : '';
+        const unverified = alt.verification?.verified === false ? ', failed verification' : '';
+        console.log(`\n  #${alt.rank}: objective ${alt.objective} (${alt.status}${tie}${unverified})`);
+        const players = assignRoles(data.players, alt.solution.roles);
+        splitIntoTeams(players, alt.solution.assignment ?? [], data.num_teams).forEach((team, t) => {
+          console.log(`    ${teamName(t)}: ${sortPlayersByPosition(team).map((p) => p.name).join(', ')}`);
+        });
+      });
+    }
+
     // Statistics
     if (result.statistics && Object.keys(result.statistics).length > 0) {
       console.log(`\n--- Statistics ---`);
@@ -281,52 +1583,562 @@ async function runSolve(
       if (stats.failures) console.log(`  Failures: ${stats.failures}`);
       if (stats.restarts) console.log(`  Restarts: ${stats.restarts}`);
     }
+
+    if (teamSheet && result.solution) {
+      const sheet = buildTeamSheet(data, result.solution, {
+        scenario: scenario.name,
+        status: result.status,
+        solver: result.solver ?? solver,
+        verification: result.verification,
+      });
+      writeTeamSheet(teamSheet, formatTeamSheet(sheet, teamSheet.format), perRun, solver, scenarioId);
+    }
   } catch (error) {
     console.error(`\nError running solver:`, error);
   }
 }
 
+/**
+ * generate subcommand: write a synthetic roster CSV to --output or stdout.
+ * Without --seed a random seed is used and printed, so the roster can be
+ * reproduced.
+ */
+function runGenerate(options: CLIOptions): void {
+  const seed = options.seed ?? String(Math.floor(Math.random() * 2 ** 31));
+  const rosterOptions = parseRosterOptions({
+    players: options.players === undefined ? undefined : Number(options.players),
+    ratings: options.ratings as RatingDistribution | undefined,
+    mix: options.mix.length > 0
+      ? options.mix.reduce((acc, spec) => parsePositionMixSpec(spec, acc), {})
+      : undefined,
+    multiPosition: options.multi === undefined ? undefined : Number(options.multi),
+    duplicates: options.duplicates === undefined ? undefined : Number(options.duplicates),
+    seed: Number(seed),
+  });
+  const csv = formatRosterCSV(generateRoster(rosterOptions));
+
+  if (options.output) {
+    fs.writeFileSync(path.resolve(options.output), csv);
+    console.error(`Wrote ${rosterOptions.players} players to ${path.resolve(options.output)} (seed ${seed})`);
+  } else {
+    process.stdout.write(csv);
+    if (options.seed === undefined) {
+      console.error(`Seed: ${seed}`);
+    }
+  }
+}
+
+// Player fields given as --name / --rating / --position / --notes
+function playerFlags(options: CLIOptions): Record<string, string> {
+  const fields = { name: options.name, rating: options.rating, position: options.position, notes: options.notes };
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Record<string, string>;
+}
+
+function playerSkillText(skill: number): string {
+  return skill.toFixed(2);
+}
+
+function signed(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+/**
+ * games subcommand: record a result (updating ratings) or list the games.
+ * Returns false when the action failed.
+ */
+function runGames(options: CLIOptions): boolean {
+  const [action = 'list'] = options.positionals;
+  const store = loadPlayerStore(options.store);
+
+  switch (action) {
+    case 'record': {
+      const game = recordGame(store, parseGameInput(store, {
+        sessionId: options.session,
+        split: options.split,
+        teams: options.teamIds.length > 0 ? options.teamIds.map((team) => team.split(',').map((id) => id.trim())) : undefined,
+        scores: options.score,
+        kFactor: options.kFactor,
+        date: options.date,
+      }));
+      savePlayerStore(options.store, store);
+      console.log(`Recorded game ${game.id} on ${game.date}: ${game.scores.join(' - ')} (K-factor ${game.kFactor})`);
+      game.teams.forEach((team, t) => {
+        console.log(`\n${teamName(t)} (${game.scores[t]}):`);
+        team.forEach((p) => {
+          const change = game.changes.find((c) => c.id === p.id);
+          console.log(change
+            ? `  ${p.name.padEnd(24)} ${playerSkillText(change.before)} -> ${playerSkillText(change.after)}  (${signed(change.after - change.before)})`
+            : `  ${p.name.padEnd(24)} no longer in the store`);
+        });
+      });
+      return true;
+    }
+    case 'list': {
+      if (store.games.length === 0) {
+        console.log(`No games in ${path.resolve(options.store)}`);
+        return true;
+      }
+      [...store.games].reverse().forEach((game) => {
+        const session = game.sessionId ? ` (session ${game.sessionId})` : '';
+        console.log(`  ${game.id.padEnd(6)} ${game.date}  ${game.scores.join(' - ')}${session}`);
+        game.teams.forEach((team, t) =>
+          console.log(`           ${teamName(t)}: ${team.map((p) => p.name).join(', ')}`));
+      });
+      return true;
+    }
+    default:
+      console.error(`Unknown games action: ${action}. Available: record, list`);
+      return false;
+  }
+}
+
+function describeStoredPlayer(player: StoredPlayer): string {
+  const positions = (player.positions ?? [player.position]).join('/');
+  return `${player.name}, rating ${player.rating}, ${positions}${player.notes ? ` (${player.notes})` : ''}`;
+}
+
+/**
+ * --present: check the listed players in to the session for --date (the
+ * latest one that day, or a new one) and point the solve at it
+ */
+function checkInPresent(options: CLIOptions): TrainingSession {
+  const store = loadPlayerStore(options.store);
+  const date = options.date ? parseSessionDate(options.date) : today();
+  const present = [...new Set(options.present!.split(',').map((id) => id.trim()).filter(Boolean))];
+  const unknown = present.filter((id) => !store.players.some((p) => p.id === id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown player ID(s): ${unknown.join(', ')}`);
+  }
+
+  const existing = findSessionByDate(store, date);
+  const session = existing
+    ? updateSession(store, existing.id, { present })!
+    : addSession(store, { date, present });
+  savePlayerStore(options.store, store);
+  options.session = session.id;
+  return session;
+}
+
+/**
+ * The split to rebalance: the --previous file, or the latest split recorded
+ * for the session (--rebalance)
+ */
+function readPreviousSplit(options: CLIOptions): PreviousPlacement[] {
+  if (options.previous) {
+    return parsePreviousSplit(JSON.parse(fs.readFileSync(path.resolve(options.previous), 'utf8')));
+  }
+  if (!options.session) {
+    throw new Error('--rebalance needs --session or --present (or give the split with --previous)');
+  }
+  const session = findSession(loadPlayerStore(options.store), options.session);
+  if (!session) {
+    throw new Error(`Unknown session: ${options.session}`);
+  }
+  return sessionPreviousSplit(session);
+}
+
+/**
+ * Past weeks whose teammates are penalised: the --history file, or the
+ * splits recorded in the store's sessions (--season)
+ */
+function readHistory(options: CLIOptions): HistoryWeek[] {
+  if (options.history && options.season) {
+    throw new Error('Use either --history or --season, not both');
+  }
+  if (options.history) {
+    return parseHistory(JSON.parse(fs.readFileSync(path.resolve(options.history), 'utf8')));
+  }
+  const store = loadPlayerStore(options.store);
+  const current = options.session ? findSession(store, options.session) : undefined;
+  return sessionHistory(store, current);
+}
+
+function formatSessionTeams(teams: { name: string }[][]): string[] {
+  return teams.map((team, t) => `    ${teamName(t)}: ${team.map((p) => p.name).join(', ')}`);
+}
+
+/**
+ * sessions subcommand: list, show or remove stored sessions. Returns false
+ * when the action failed.
+ */
+function runSessions(options: CLIOptions): boolean {
+  const [action = 'list', target] = options.positionals;
+  const store = loadPlayerStore(options.store);
+
+  switch (action) {
+    case 'list': {
+      if (store.sessions.length === 0) {
+        console.log(`No sessions in ${path.resolve(options.store)}`);
+        return true;
+      }
+      [...store.sessions]
+        .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))
+        .forEach((s) => console.log(
+          `  ${s.id.padEnd(6)} ${s.date}  ${s.present.length} present, ${s.splits.length} split(s)${s.notes ? `  (${s.notes})` : ''}`));
+      return true;
+    }
+    case 'show': {
+      const session = target ? findSession(store, target) : undefined;
+      if (!session) {
+        console.error(target ? `Unknown session: ${target}` : 'Usage: sessions show <id>');
+        return false;
+      }
+      const names = session.present.map((id) => store.players.find((p) => p.id === id)?.name ?? `${id} (removed)`);
+      console.log(`Session ${session.id} on ${session.date}${session.notes ? ` (${session.notes})` : ''}`);
+      console.log(`\nPresent (${names.length}): ${names.join(', ') || 'nobody yet'}`);
+      session.splits.forEach((split, i) => {
+        const objective = split.objective !== undefined ? `, objective ${split.objective}` : '';
+        console.log(`\nSplit ${i + 1}: ${split.scenario}, ${split.solver ?? 'unknown solver'}, ${split.status}${objective} (${split.createdAt})`);
+        formatSessionTeams(split.teams).forEach((line) => console.log(line));
+      });
+      return true;
+    }
+    case 'remove': {
+      const session = target ? removeSession(store, target) : undefined;
+      if (!session) {
+        console.error(target ? `Unknown session: ${target}` : 'Usage: sessions remove <id>');
+        return false;
+      }
+      savePlayerStore(options.store, store);
+      console.log(`Removed session ${session.id} (${session.date})`);
+      return true;
+    }
+    default:
+      console.error(`Unknown sessions action: ${action}. Available: list, show, remove`);
+      return false;
+  }
+}
+
+/**
+ * players subcommand: list, add, update, remove, import or export the
+ * players in the store. Returns false when the action failed.
+ */
+function runPlayers(options: CLIOptions): boolean {
+  const [action = 'list', target] = options.positionals;
+  const store = loadPlayerStore(options.store);
+  const storePath = path.resolve(options.store);
+
+  switch (action) {
+    case 'list': {
+      if (store.players.length === 0) {
+        console.log(`No players in ${storePath}`);
+        return true;
+      }
+      store.players.forEach((p) => console.log(`  ${p.id.padEnd(6)} ${describeStoredPlayer(p)}`));
+      console.log(`\n${store.players.length} player(s) in ${storePath}`);
+      return true;
+    }
+    case 'add': {
+      const player = addPlayer(store, parsePlayerInput(playerFlags(options)) as PlayerInput);
+      savePlayerStore(options.store, store);
+      console.log(`Added ${player.id}: ${describeStoredPlayer(player)}`);
+      return true;
+    }
+    case 'update': {
+      const changes = playerFlags(options);
+      if (!target || Object.keys(changes).length === 0) {
+        console.error('Usage: players update <id> [--name N] [--rating R] [--position P] [--notes T]');
+        return false;
+      }
+      const player = updatePlayer(store, target, parsePlayerInput(changes, true));
+      if (!player) {
+        console.error(`Unknown player: ${target}`);
+        return false;
+      }
+      savePlayerStore(options.store, store);
+      console.log(`Updated ${player.id}: ${describeStoredPlayer(player)}`);
+      return true;
+    }
+    case 'remove': {
+      const player = target ? removePlayer(store, target) : undefined;
+      if (!player) {
+        console.error(target ? `Unknown player: ${target}` : 'Usage: players remove <id>');
+        return false;
+      }
+      savePlayerStore(options.store, store);
+      console.log(`Removed ${player.id}: ${player.name}`);
+      return true;
+    }
+    case 'import': {
+      if (!target) {
+        console.error('Usage: players import <csv> [--replace]');
+        return false;
+      }
+      let result: ReturnType<typeof importPlayersCSV>;
+      try {
+        result = importPlayersCSV(store, readRoster({ file: target }), options.replace);
+      } catch (error) {
+        if (error instanceof CSVValidationError) {
+          printCSVReport(error.report);
+        }
+        console.error((error as Error).message);
+        return false;
+      }
+      printCSVReport(result.report);
+      result.skipped.forEach((reason) => console.warn(`Skipped ${reason}`));
+      savePlayerStore(options.store, store);
+      console.log(`Imported ${target}: ${result.created.length} added, ${result.updated.length} updated, ${result.skipped.length} skipped (${storePath})`);
+      return true;
+    }
+    case 'export': {
+      const csv = formatPlayersCSV(store.players);
+      if (options.output) {
+        fs.writeFileSync(path.resolve(options.output), csv);
+        console.error(`Wrote ${store.players.length} players to ${path.resolve(options.output)}`);
+      } else {
+        process.stdout.write(csv);
+      }
+      return true;
+    }
+    case 'ratings': {
+      if (target) {
+        const player = store.players.find((p) => p.id === target);
+        if (!player) {
+          console.error(`Unknown player: ${target}`);
+          return false;
+        }
+        console.log(`${player.id} ${player.name}: rating ${player.rating} (skill ${playerSkillText(player.skill ?? player.rating)})`);
+        (player.ratingHistory ?? []).forEach((change) => console.log(
+          `  ${change.date}  ${change.game.padEnd(5)} ${playerSkillText(change.before)} -> ${playerSkillText(change.after)}  (${signed(change.after - change.before)})`));
+        if (!player.ratingHistory?.length) {
+          console.log('  No recorded games yet');
+        }
+        return true;
+      }
+      store.players.map((p) => ratingTrend(p)).forEach((trend) => console.log(
+        `  ${trend.id.padEnd(6)} ${trend.name.padEnd(24)} ${String(trend.rating).padStart(2)}  skill ${playerSkillText(trend.skill)}` +
+        (trend.games > 0 ? `  ${signed(trend.change)} over ${trend.games} game(s)  [${trend.recent.map(playerSkillText).join(' ')}]` : '')));
+      return true;
+    }
+    default:
+      console.error(`Unknown players action: ${action}. Available: list, add, update, remove, import, export, ratings`);
+      return false;
+  }
+}
+
+/**
+ * bench subcommand: run every solver x scenario x roster combination
+ * `--runs` times, print a summary table and write JSON and CSV reports.
+ * Returns false when the baseline comparison finds a regression.
+ */
+async function runBench(
+  solvers: string[],
+  scenarios: ScenarioDefinition[],
+  registry: ScenarioRegistry,
+  serviceFor: (solver: string) => TeamSolver,
+  minizincInstalled: boolean,
+  options: CLIOptions
+): Promise<boolean> {
+  const runs = Number(options.runs);
+  const threshold = Number(options.threshold);
+  if (!Number.isInteger(runs) || runs < 1) {
+    throw new Error(`Runs must be a positive integer, got "${options.runs}"`);
+  }
+  if (!Number.isFinite(threshold) || threshold < 0) {
+    throw new Error(`Threshold must be a non-negative percentage, got "${options.threshold}"`);
+  }
+  const baseline = options.baseline
+    ? parseBenchReport(JSON.parse(fs.readFileSync(path.resolve(options.baseline), 'utf8')))
+    : undefined;
+
+  const rosters = rosterSources(options);
+  const entries: BenchEntry[] = [];
+  let timeLimit = 0;
+  let numTeams = 0;
+
+  for (const source of rosters) {
+    const roster = rosterLabel(source);
+    for (const scenario of scenarios) {
+      let prepared: PreparedRoster;
+      try {
+        prepared = prepareRoster(readRoster(source), scenario, options);
+      } catch (error) {
+        console.error(`Skipping ${roster} / ${scenario.id}: ${(error as Error).message}`);
+        continue;
+      }
+      const { data, params, conflicts } = prepared;
+      if (conflicts.length > 0) {
+        console.error(`Skipping ${roster} / ${scenario.id}: ${conflicts.join('; ')}`);
+        continue;
+      }
+      timeLimit = params.timeLimit;
+      numTeams = data.num_teams;
+      const modelCode = readScenarioModel(registry, scenario);
+
+      for (const solver of solvers) {
+        const service = serviceFor(solver);
+        const config: SolverConfig = {
+          solver: solver as SolverConfig['solver'],
+          timeLimit: params.timeLimit,
+        };
+        const results: SolverResult[] = [];
+        process.stdout.write(`${roster} / ${scenario.id} / ${solver}: `);
+        for (let run = 0; run < runs; run++) {
+          const result = verifyResult(
+            bundledScenarioId(scenario),
+            data,
+            checkScenarioOutput(scenario, await service.solve(modelCode, data, config, scenario.modelFile)),
+            config
+          );
+          results.push(result);
+          process.stdout.write(`${result.solveTime}ms `);
+        }
+        process.stdout.write('\n');
+        entries.push(summarizeRuns({ roster, scenario: scenario.id, solver }, results));
+      }
+    }
+  }
+
+  const report: BenchReport = {
+    createdAt: new Date().toISOString(),
+    runs,
+    numTeams,
+    timeLimit,
+    environment: { node: process.version, platform: `${process.platform}-${process.arch}`, minizincInstalled },
+    entries,
+  };
+  const comparisons = baseline ? compareWithBaseline(report, baseline, threshold / 100) : undefined;
+
+  console.log(`\n${formatBenchTable(report, comparisons)}`);
+
+  const jsonPath = path.resolve(`${options.report}.json`);
+  const csvPath = path.resolve(`${options.report}.csv`);
+  fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2) + '\n');
+  fs.writeFileSync(csvPath, formatBenchCSV(report));
+  console.log(`\nReport written to ${jsonPath} and ${csvPath}`);
+
+  const regressions = (comparisons ?? []).filter((c) => c.regressions.length > 0);
+  if (regressions.length > 0) {
+    console.error(`\nRegressions against ${options.baseline}:`);
+    regressions.forEach(({ entry, regressions: found }) =>
+      console.error(`  ${entry.roster} / ${entry.scenario} / ${entry.solver}: ${found.join(', ')}`));
+    return false;
+  }
+  if (baseline) {
+    console.log(`\nNo regressions against ${options.baseline} (threshold ${threshold}%)`);
+  }
+  return true;
+}
+
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const options = parseArgs(args);
+  const registry = loadScenarioRegistry(options.modelsDir);
 
   if (options.help) {
-    showHelp();
+    showHelp(registry);
+    return;
+  }
+
+  if (options.command === 'generate') {
+    runGenerate(options);
     return;
   }
 
-  // Initialize MiniZinc service
+  if (options.command === 'players' || options.command === 'sessions' || options.command === 'games') {
+    const run = { players: runPlayers, sessions: runSessions, games: runGames }[options.command];
+    try {
+      if (!run(options)) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      // Invalid player, session or game fields, or an unreadable store
+      console.error((error as Error).message);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  // Initialize MiniZinc service; without a MiniZinc install every solve
+  // runs on the built-in solver instead
   const service = new MiniZincService();
   await service.init({
     minizinc: process.env.MINIZINC_BIN || 'minizinc',
   });
+  const builtin = new BuiltinSolverService();
+  const minizincInstalled = await service.isInstalled();
 
   console.log('Camogie Team Optimization CLI');
-  console.log(`Available solvers: ${service.getAvailableSolvers().join(', ')}`);
+  console.log(`Available solvers: ${[...(minizincInstalled ? service.getAvailableSolvers() : []), BUILTIN_SOLVER].join(', ')}`);
+
+  // Determine which solvers to test (a comma-separated list runs each one)
+  let solversToTest: string[] =
+    options.solver === 'all' ? [...SOLVERS.local, BUILTIN_SOLVER] : options.solver.split(',');
+  if (!minizincInstalled && solversToTest.some((s) => s !== BUILTIN_SOLVER)) {
+    console.warn(`MiniZinc not found (set MINIZINC_BIN); using the ${BUILTIN_SOLVER} solver instead`);
+    solversToTest = [BUILTIN_SOLVER];
+  }
 
-  // Determine which solvers to test
-  const solversToTest: string[] =
-    options.solver === 'all' ? [...SOLVERS.local] : [options.solver];
+  registry.problems.forEach((p) => console.warn(`Skipped scenario model: ${p}`));
 
   // Determine which scenarios to test
-  const scenariosToTest: ScenarioId[] =
-    options.scenario === 'all'
-      ? (Object.keys(SCENARIOS) as ScenarioId[])
-      : [options.scenario as ScenarioId];
-
-  // Validate scenario
-  for (const s of scenariosToTest) {
-    if (!SCENARIOS[s]) {
-      console.error(`Unknown scenario: ${s}`);
-      console.error(`Available: ${Object.keys(SCENARIOS).join(', ')}`);
+  const scenariosToTest: ScenarioDefinition[] = [];
+  if (options.scenario === 'all') {
+    scenariosToTest.push(...registry.scenarios);
+  } else {
+    // Validate scenario
+    for (const id of options.scenario.split(',')) {
+      const scenario = findScenario(registry, id);
+      if (!scenario) {
+        console.error(`Unknown scenario: ${id}`);
+        console.error(`Available: ${registry.scenarios.map((s) => s.id).join(', ')}`);
+        process.exit(1);
+      }
+      scenariosToTest.push(scenario);
+    }
+  }
+
+  // Attendance is saved before solving, so it is kept even if the solve fails
+  if (options.present) {
+    try {
+      const session = checkInPresent(options);
+      console.log(`Checked in ${session.present.length} player(s) to session ${session.id} (${session.date})`);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(1);
+    }
+  }
+
+  // The split to rebalance is read once, before any run records a new one
+  if (options.previous || options.rebalance) {
+    try {
+      options.previousSplit = readPreviousSplit(options);
+    } catch (error) {
+      console.error((error as Error).message);
       process.exit(1);
     }
   }
 
+  // So are the past weeks whose teammates are penalised
+  if (options.history || options.season) {
+    try {
+      options.historyWeeks = readHistory(options);
+    } catch (error) {
+      console.error((error as Error).message);
+      process.exit(1);
+    }
+  }
+
+  const serviceFor = (solver: string): TeamSolver =>
+    solver === BUILTIN_SOLVER ? builtin
+    : solver === PORTFOLIO_SOLVER ? new PortfolioSolverService(service)
+    : service;
+
+  if (options.command === 'bench') {
+    const passed = await runBench(solversToTest, scenariosToTest, registry, serviceFor, minizincInstalled, options);
+    if (!passed) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  const teamSheet = resolveTeamSheetTarget(options);
+  const perRun = solversToTest.length * scenariosToTest.length > 1;
+
   // Run all combinations
   for (const solver of solversToTest) {
     for (const scenario of scenariosToTest) {
-      await runSolve(service, solver, scenario, options.file);
+      await runSolve(serviceFor(solver), solver, registry, scenario, options, teamSheet, perRun);
       
       // Small delay between runs
       if (solversToTest.length > 1 || scenariosToTest.length > 1) {
@@ -0,0 +1,109 @@
+/**
+ * Player attributes: numeric CSV columns beyond the rating (speed, stickwork,
+ * fitness, ...), balanced one by one in the balanced_attributes scenario
+ */
+
+import { DEFAULT_ATTRIBUTE_WEIGHT } from './constants.js';
+import type { AttributeData, AttributeSummary, ModelData, Player } from '../solver/types.js';
+
+// A number as written in a CSV cell; decimals are rounded
+const NUMBER_PATTERN = /^[+-]?\d+(\.\d+)?$/;
+
+/**
+ * Header indices of the attribute columns: columns that are not one of the
+ * known roster columns and hold a number in every non-blank cell. A name
+ * repeated in the header (ignoring case) is only used once.
+ */
+export function findAttributeColumns(headers: string[], rows: string[][], knownColumns: number[]): number[] {
+  const seen = new Set<string>();
+  return headers
+    .map((_, idx) => idx)
+    .filter((idx) => {
+      const name = headers[idx].trim().toLowerCase();
+      if (!name || knownColumns.includes(idx) || seen.has(name)) return false;
+      const cells = rows.map((fields) => (fields[idx] ?? '').trim()).filter(Boolean);
+      if (cells.length === 0 || !cells.every((cell) => NUMBER_PATTERN.test(cell))) return false;
+      seen.add(name);
+      return true;
+    });
+}
+
+/**
+ * Whole, non-negative attribute value for a CSV cell. Blank cells count as 0.
+ * Returns a warning as well when the cell had to be fixed up.
+ */
+export function parseAttributeValue(name: string, raw: string): { value: number; warning?: string } {
+  if (raw === '') {
+    return { value: 0, warning: `Missing ${name}; using 0` };
+  }
+  const number = Number(raw);
+  if (number < 0) {
+    return { value: 0, warning: `${name} ${raw} is negative; using 0` };
+  }
+  const value = Math.round(number);
+  return value === number ? { value } : { value, warning: `${name} ${raw} is not a whole number; rounded to ${value}` };
+}
+
+/**
+ * Weight of each attribute, in attribute order. Weights are matched to
+ * attributes ignoring case; unlisted attributes get the default weight.
+ * Throws for a weight naming an attribute the roster does not have.
+ */
+export function attributeWeightList(attributes: string[], weights: Record<string, number> = {}): number[] {
+  const byName = new Map(attributes.map((name, a) => [name.toLowerCase(), a]));
+  const list = attributes.map(() => DEFAULT_ATTRIBUTE_WEIGHT);
+  for (const [name, weight] of Object.entries(weights)) {
+    const a = byName.get(name.trim().toLowerCase());
+    if (a === undefined) {
+      const available = attributes.length > 0 ? attributes.join(', ') : 'none (add numeric columns to the CSV)';
+      throw new Error(`Unknown attribute "${name}" in attribute weights. Roster attributes: ${available}`);
+    }
+    list[a] = weight;
+  }
+  return list;
+}
+
+/**
+ * Flatten the players' attributes into the models' per-player rows
+ * (a missing attribute counts as 0)
+ */
+export function buildAttributeData(
+  players: Player[],
+  attributes: string[],
+  weights: Record<string, number> = {}
+): AttributeData {
+  return {
+    num_attributes: attributes.length,
+    attribute_values: players.map((p) => attributes.map((name) => p.attributes?.[name] ?? 0)),
+    attribute_weights: attributeWeightList(attributes, weights),
+  };
+}
+
+/**
+ * Team totals of each attribute for a split, indexed [attribute][team]
+ */
+export function attributeTotals(
+  data: Pick<ModelData, 'num_teams' | 'num_attributes' | 'attribute_values'>,
+  assignment: number[]
+): number[][] {
+  const totals = Array.from({ length: data.num_attributes }, () => Array(data.num_teams).fill(0));
+  assignment.forEach((team, p) => {
+    totals.forEach((row, a) => {
+      row[team] += data.attribute_values[p]?.[a] ?? 0;
+    });
+  });
+  return totals;
+}
+
+/**
+ * Team totals of every attribute for a split, with their spread and weight
+ */
+export function summarizeAttributes(data: ModelData, assignment: number[]): AttributeSummary[] {
+  const totals = attributeTotals(data, assignment);
+  return (data.attributes ?? []).map((name, a) => ({
+    name,
+    weight: data.attribute_weights[a] ?? DEFAULT_ATTRIBUTE_WEIGHT,
+    totals: totals[a],
+    spread: Math.max(...totals[a]) - Math.min(...totals[a]),
+  }));
+}
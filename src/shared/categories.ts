@@ -0,0 +1,241 @@
+/**
+ * Category balance: text columns of the CSV (experience, club, age band, ...)
+ * whose values are spread evenly across teams, as a hard rule or a weighted goal
+ */
+
+import type {
+  CategoryBalance,
+  CategoryData,
+  CategoryRule,
+  CategorySummary,
+  ModelData,
+  Player,
+} from '../solver/types.js';
+
+/**
+ * Header indices of the category columns: columns that are not one of the
+ * known roster columns (nor attributes) and hold text in at least one cell.
+ * A name repeated in the header (ignoring case) is only used once.
+ */
+export function findCategoryColumns(headers: string[], rows: string[][], knownColumns: number[]): number[] {
+  const seen = new Set<string>();
+  return headers
+    .map((_, idx) => idx)
+    .filter((idx) => {
+      const name = headers[idx].trim().toLowerCase();
+      if (!name || knownColumns.includes(idx) || seen.has(name)) return false;
+      if (!rows.some((fields) => (fields[idx] ?? '').trim())) return false;
+      seen.add(name);
+      return true;
+    });
+}
+
+/**
+ * Validate how one category is balanced: "hard" (or true) for the hard rule,
+ * or a non-negative whole-number weight
+ */
+export function parseCategoryRule(name: string, value: unknown): CategoryRule {
+  if (value === true || (typeof value === 'string' && value.trim().toLowerCase() === 'hard')) {
+    return 'hard';
+  }
+  const weight = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (!Number.isInteger(weight) || (weight as number) < 0) {
+    throw new Error(`Balance for "${name}" must be "hard" or a non-negative whole-number weight`);
+  }
+  return weight as number;
+}
+
+/**
+ * Validate an untrusted `{ category: "hard" | weight }` object (API body).
+ * An array of category names balances each of them as a hard rule.
+ */
+export function parseCategoryBalance(value: unknown): CategoryBalance {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  const entries = Array.isArray(value)
+    ? value.map((name) => [String(name), 'hard'] as const)
+    : typeof value === 'object'
+      ? Object.entries(value as Record<string, unknown>)
+      : null;
+  if (!entries) {
+    throw new Error('Category balance must be an object like { "experience": "hard", "club": 2 }');
+  }
+
+  const balance: CategoryBalance = {};
+  for (const [category, rule] of entries) {
+    const name = category.trim();
+    if (!name) {
+      throw new Error('Category names in the balance must not be empty');
+    }
+    balance[name] = parseCategoryRule(name, rule);
+  }
+  return balance;
+}
+
+/**
+ * Parse a CLI balance spec: "experience" or "experience=hard" (hard rule) or "club=2" (weight)
+ */
+export function parseCategorySpec(spec: string, balance: CategoryBalance = {}): CategoryBalance {
+  const match = spec.match(/^([^=]+?)\s*(?:=\s*(.*))?$/);
+  if (!match || !match[1].trim()) {
+    throw new Error(`Invalid balance "${spec}". Use category, category=hard or category=weight, e.g. experience or club=2`);
+  }
+  const [, name, rule] = match;
+  return { ...balance, ...parseCategoryBalance({ [name]: rule ?? 'hard' }) };
+}
+
+/**
+ * Human-readable description of a category rule, used in summaries and error reports
+ */
+export function describeCategoryRule(name: string, rule: CategoryRule): string {
+  return rule === 'hard'
+    ? `spread ${name} evenly (each value within 1 player across teams)`
+    : `balance ${name} (weight ${rule})`;
+}
+
+// Same naming as teamName (0 = Team A)
+function categoryTeamName(team: number): string {
+  return `Team ${String.fromCharCode(65 + team)}`;
+}
+
+// A player's value in a column; numeric attribute columns (e.g. a 1-3 grade)
+// can be balanced as categories too
+function playerValue(player: Player, column: string): string {
+  return player.categories?.[column] ?? String(player.attributes?.[column] ?? '');
+}
+
+/**
+ * Column of the roster a category name refers to (ignoring case). Throws for
+ * a name that is not a column of the roster.
+ */
+function findCategoryColumn(players: Player[], name: string): string {
+  const columns = [
+    ...new Set(players.flatMap((p) => [...Object.keys(p.categories ?? {}), ...Object.keys(p.attributes ?? {})])),
+  ];
+  const column = columns.find((c) => c.toLowerCase() === name.trim().toLowerCase());
+  if (column === undefined) {
+    const available = columns.length > 0 ? columns.join(', ') : 'none (add columns such as experience or club to the CSV)';
+    throw new Error(`Unknown category "${name}" in category balance. Roster columns: ${available}`);
+  }
+  return column;
+}
+
+/**
+ * Distinct values of a column in order of first appearance. Values that
+ * differ only in case are the same; the first spelling is kept.
+ */
+export function categoryValues(players: Player[], column: string): string[] {
+  const values = new Map<string, string>();
+  for (const player of players) {
+    const value = playerValue(player, column);
+    if (value && !values.has(value.toLowerCase())) {
+      values.set(value.toLowerCase(), value);
+    }
+  }
+  return [...values.values()];
+}
+
+/**
+ * Distinct values of the column a category name refers to
+ */
+export function categoryValuesFor(players: Player[], name: string): string[] {
+  return categoryValues(players, findCategoryColumn(players, name));
+}
+
+/**
+ * Flatten the balanced categories into the models' arrays. Throws for a
+ * category that is not a column of the roster.
+ */
+export function buildCategoryData(players: Player[], balance: CategoryBalance): CategoryData {
+  const columns = Object.keys(balance).map((name) => findCategoryColumn(players, name));
+  const values = columns.map((column) => categoryValues(players, column).map((value) => value.toLowerCase()));
+  return {
+    num_categories: columns.length,
+    category_sizes: values.map((list) => list.length),
+    category_indices: players.map((p) =>
+      columns.map((column, c) => values[c].indexOf(playerValue(p, column).toLowerCase()) + 1)
+    ),
+    category_hard: Object.values(balance).map((rule) => rule === 'hard'),
+    category_weights: Object.values(balance).map((rule) => (rule === 'hard' ? 0 : rule)),
+  };
+}
+
+/**
+ * Players of each value of each category per team for a split, indexed
+ * [category][value - 1][team]
+ */
+export function categoryCounts(
+  data: Pick<ModelData, 'num_teams' | 'num_categories' | 'category_sizes' | 'category_indices'>,
+  assignment: number[]
+): number[][][] {
+  const counts = Array.from({ length: data.num_categories }, (_, c) =>
+    Array.from({ length: data.category_sizes[c] }, () => Array(data.num_teams).fill(0)));
+  assignment.forEach((team, p) => {
+    counts.forEach((rows, c) => {
+      const value = data.category_indices[p]?.[c] ?? 0;
+      if (value > 0) rows[value - 1][team]++;
+    });
+  });
+  return counts;
+}
+
+/**
+ * Spread of each category: the spreads (max - min) of its values' counts added up
+ */
+export function categorySpreads(counts: number[][][]): number[] {
+  return counts.map((rows) => rows.reduce((sum, row) => sum + Math.max(...row) - Math.min(...row), 0));
+}
+
+/**
+ * Find hard categories the pins already break: more players of one value
+ * pinned to a team than an even spread allows. Returns one message per problem.
+ */
+export function findCategoryConflicts(data: ModelData & { players: Player[] }): string[] {
+  const conflicts: string[] = [];
+  const names = Object.keys(data.categories ?? {});
+  names.forEach((name, c) => {
+    if (!data.category_hard[c]) return;
+    categoryValuesFor(data.players, name).forEach((value, v) => {
+      const holders = data.players.map((_, p) => p).filter((p) => data.category_indices[p][c] === v + 1);
+      const cap = Math.ceil(holders.length / data.num_teams);
+      for (let t = 1; t <= data.num_teams; t++) {
+        const pinned = holders.filter((p) => data.pinned_team[p] === t).length;
+        if (pinned > cap) {
+          conflicts.push(
+            `${pinned} players with ${name} "${value}" are pinned to ${categoryTeamName(t - 1)}, ` +
+            `but spreading ${name} evenly allows at most ${cap} per team`
+          );
+        }
+      }
+    });
+  });
+  return conflicts;
+}
+
+/**
+ * Set the categories to balance on parsed model data. Returns the conflicts
+ * found; apply pins first.
+ */
+export function applyCategoryBalance(data: ModelData & { players: Player[] }, balance: CategoryBalance): string[] {
+  Object.assign(data, { categories: balance }, buildCategoryData(data.players, balance));
+  return findCategoryConflicts(data);
+}
+
+/**
+ * How each balanced category's values are distributed across the teams of a split
+ */
+export function summarizeCategories(data: ModelData & { players: Player[] }, assignment: number[]): CategorySummary[] {
+  const counts = categoryCounts(data, assignment);
+  const spreads = categorySpreads(counts);
+  return Object.entries(data.categories ?? {}).map(([name, rule], c) => {
+    const column = findCategoryColumn(data.players, name);
+    const values = categoryValues(data.players, column);
+    return {
+      name: column,
+      rule,
+      counts: Object.fromEntries(values.map((value, v) => [value, counts[c][v]])),
+      spread: spreads[c],
+    };
+  });
+}
@@ -2,7 +2,9 @@
  * Shared constants for the Camogie Team Optimization application
  */
 
-// Scenario definitions
+// Bundled scenario definitions. The server and CLI discover scenarios from
+// models/*.scenario.json (see DEFAULT_MODELS_DIR); keep these in step with
+// the bundled manifests, which the browser build cannot read.
 export const SCENARIOS = {
   ratings_only: {
     id: 'ratings_only',
@@ -22,22 +24,111 @@ export const SCENARIOS = {
     description: 'Minimize rating difference within each position group (balanced skill per position)',
     modelFile: 'team_assignment_balanced_positions.mzn',
   },
+  balanced_attributes: {
+    id: 'balanced_attributes',
+    name: 'Attribute Balance',
+    description: 'Balance each player attribute (speed, stickwork, ...) across teams, with per-attribute weights',
+    modelFile: 'team_assignment_balanced_attributes.mzn',
+  },
 } as const;
 
 export type ScenarioId = keyof typeof SCENARIOS;
 
+// Directory scanned for scenario models: each <name>.mzn is registered when a
+// <name>.scenario.json manifest sits next to it
+export const DEFAULT_MODELS_DIR = 'models';
+export const SCENARIO_MANIFEST_SUFFIX = '.scenario.json';
+
+// Value types a scenario manifest may declare for a model output field
+export const OUTPUT_FIELD_TYPES = ['int', 'int[]', 'float', 'float[]', 'bool', 'bool[]', 'string'] as const;
+
+export type OutputFieldType = (typeof OUTPUT_FIELD_TYPES)[number];
+
 export const DEFAULT_SCENARIO: ScenarioId = 'ratings_only';
 
+// Number of teams to split the roster into
+export const DEFAULT_NUM_TEAMS = 2;
+export const MIN_NUM_TEAMS = 2;
+
 // Position mappings (must match MiniZinc model constants)
 export const POSITIONS = {
   forward: { index: 1, name: 'forward', sortOrder: 3 },
   midfield: { index: 2, name: 'midfield', sortOrder: 2 },
   defense: { index: 3, name: 'defense', sortOrder: 1 },
+  goalkeeper: { index: 4, name: 'goalkeeper', sortOrder: 0 },
   unknown: { index: 0, name: 'unknown', sortOrder: 99 },
 } as const;
 
 export type PositionName = keyof typeof POSITIONS;
 
+// Position synonyms accepted in CSV input (matched after lowercasing and
+// collapsing spaces, hyphens and underscores to a single space). A bare
+// "centre" is left out: centre back, centre field and centre forward are
+// different lines.
+export const POSITION_ALIASES: Record<string, PositionName> = {
+  forward: 'forward',
+  forwards: 'forward',
+  attack: 'forward',
+  attacker: 'forward',
+  'full forward': 'forward',
+  'half forward': 'forward',
+  'corner forward': 'forward',
+  'wing forward': 'forward',
+  'centre forward': 'forward',
+  'center forward': 'forward',
+  midfield: 'midfield',
+  midfielder: 'midfield',
+  mid: 'midfield',
+  'centre field': 'midfield',
+  'center field': 'midfield',
+  defense: 'defense',
+  defence: 'defense',
+  defender: 'defense',
+  back: 'defense',
+  backs: 'defense',
+  'full back': 'defense',
+  'half back': 'defense',
+  'corner back': 'defense',
+  'wing back': 'defense',
+  'centre back': 'defense',
+  'center back': 'defense',
+  goalkeeper: 'goalkeeper',
+  keeper: 'goalkeeper',
+  goalie: 'goalkeeper',
+  goal: 'goalkeeper',
+  gk: 'goalkeeper',
+  unknown: 'unknown',
+};
+
+// Separator for several eligible positions in one CSV cell, preferred first
+// (e.g. "midfield|forward")
+export const POSITION_SEPARATOR = '|';
+
+// Number of real positions in the models (indices 1..NUM_POSITIONS; 0 = unknown)
+export const NUM_POSITIONS = 4;
+
+// CSV header aliases (matched case-insensitively after trimming), the
+// exact column name first; an earlier alias wins over a later one
+export const CSV_COLUMN_ALIASES = {
+  name: ['name', 'player', 'player name', 'player_name'],
+  rating: ['rating', 'skill'],
+  position: ['position', 'pos', 'role'],
+  group: ['group', 'together'],
+  avoid: ['avoid', 'apart'],
+  team: ['team', 'pin', 'pinned team', 'pinned_team'],
+  id: ['id', 'player id', 'player_id'],
+  notes: ['notes', 'note', 'comment', 'comments'],
+} as const;
+
+export type CSVColumn = keyof typeof CSV_COLUMN_ALIASES;
+
+// Delimiters tried when sniffing a CSV file (comma, European semicolon, tab)
+export const CSV_DELIMITERS = [',', ';', '\t'] as const;
+
+// Expected rating range; values outside it are accepted with a warning
+export const MIN_RATING = 1;
+export const MAX_RATING = 10;
+
 // Solver configurations
 export const SOLVERS = {
   // Local mode solvers (Node.js with native MiniZinc)
@@ -47,7 +138,91 @@ export const SOLVERS = {
 } as const;
 
 export const DEFAULT_SOLVER = 'cbc';
+
+// Pure-TypeScript branch-and-bound solver, used when MiniZinc is not installed
+export const BUILTIN_SOLVER = 'builtin';
+
+// Races every available solver and keeps the first proven result
+export const PORTFOLIO_SOLVER = 'portfolio';
 export const DEFAULT_TIME_LIMIT = 10000; // 10 seconds
 
+// Most alternative splits returned in k best mode (each one is a full solve)
+export const MAX_ALTERNATIVES = 10;
+
+// Social mixer: most rounds solved in one request (each one is a full solve),
+// and the objective cost of each earlier round a pair of players shared a team
+export const MAX_ROUNDS = 8;
+export const DEFAULT_REPEAT_PENALTY = 1;
+
+// Season history: cost of sharing a team with someone in last week's split,
+// and the share of it kept for each week further back
+export const DEFAULT_HISTORY_PENALTY = 4;
+export const DEFAULT_HISTORY_DECAY = 0.5;
+
 // Rating weight for objective function (in with_positions scenario)
 export const RATING_WEIGHT = 10;
+
+// Tunable objective weights per scenario, with their defaults (the same as
+// the bundled manifests): rating scales the spread of team totals, position
+// the spread of position counts and positionRating the per-position rating
+// spreads. A scenario's model reads only the weights listed for it;
+// ratings_only minimises the rating spread alone. balanced_attributes also
+// weighs each attribute's spread (see DEFAULT_ATTRIBUTE_WEIGHT).
+export const DEFAULT_WEIGHTS = {
+  ratings_only: {},
+  with_positions: { rating: RATING_WEIGHT, position: 1 },
+  balanced_positions: { rating: 0, positionRating: 1 },
+  balanced_attributes: { rating: 1, positionRating: 0 },
+} as const;
+
+// Weight of an attribute's team-total spread unless a request sets one
+export const DEFAULT_ATTRIBUTE_WEIGHT = 1;
+
+// Largest allowed difference between team sizes unless a request says otherwise
+export const DEFAULT_SIZE_TOLERANCE = 1;
+
+// Longest time limit a request may ask for
+export const MAX_TIME_LIMIT = 300000; // 5 minutes
+
+// bench subcommand: runs per solver x scenario x roster combination, report
+// file name (without extension) and the median slowdown, in percent, that
+// counts as a regression against a baseline report
+export const DEFAULT_BENCH_RUNS = 5;
+export const DEFAULT_BENCH_REPORT = 'bench-report';
+export const DEFAULT_BENCH_THRESHOLD = 20;
+
+// Synthetic roster generator: rating distributions, the default position mix
+// (a 15-a-side camogie lineup: 1 goalkeeper, 6 backs, 2 midfield, 6 forwards),
+// the default seed and the largest roster it will produce
+export const RATING_DISTRIBUTIONS = ['uniform', 'normal', 'top-heavy', 'bottom-heavy', 'bimodal'] as const;
+
+export type RatingDistribution = (typeof RATING_DISTRIBUTIONS)[number];
+
+export const DEFAULT_POSITION_MIX = { goalkeeper: 1, defense: 6, midfield: 2, forward: 6 } as const;
+export const DEFAULT_ROSTER_SIZE = 20;
+export const DEFAULT_ROSTER_SEED = 1;
+export const MAX_ROSTER_SIZE = 1000;
+
+// Team-sheet export formats: file extension and content type of each
+export const EXPORT_FORMATS = {
+  csv: { extension: '.csv', contentType: 'text/csv; charset=utf-8' },
+  json: { extension: '.json', contentType: 'application/json; charset=utf-8' },
+  markdown: { extension: '.md', contentType: 'text/markdown; charset=utf-8' },
+  html: { extension: '.html', contentType: 'text/html; charset=utf-8' },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export const DEFAULT_EXPORT_FORMAT: ExportFormat = 'html';
+
+// Player store: JSON file holding the club's squad between solves
+// (override with $PLAYER_STORE or --store)
+export const DEFAULT_PLAYER_STORE = 'data/players.json';
+
+// Elo-style rating updates from match results. Skill is tracked on the rating
+// scale with decimals and rounded for solves. The K-factor is the most a
+// player's skill moves in one game; ELO_SCALE is the team average skill gap at
+// which the stronger team is expected to win 10 games in 11.
+export const DEFAULT_K_FACTOR = 0.5;
+export const MAX_K_FACTOR = 5;
+export const ELO_SCALE = 4;
@@ -0,0 +1,180 @@
+/**
+ * RFC 4180 CSV tokenizing: quoted fields, escaped quotes, CRLF line endings,
+ * UTF-8 byte order marks and delimiter sniffing
+ */
+
+import {
+  CSV_COLUMN_ALIASES,
+  CSV_DELIMITERS,
+  type CSVColumn,
+} from './constants.js';
+import type { CSVIssue, CSVReport } from '../solver/types.js';
+
+/**
+ * One parsed record and the physical line it starts on (1-based)
+ */
+export interface CSVRecord {
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Thrown when a CSV file cannot be turned into a roster at all.
+ * Carries the validation report gathered so far.
+ */
+export class CSVValidationError extends Error {
+  constructor(message: string, public readonly report: CSVReport) {
+    super(message);
+    this.name = 'CSVValidationError';
+  }
+}
+
+/**
+ * Remove a leading UTF-8 byte order mark (as written by Excel)
+ */
+export function stripBOM(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Pick the delimiter that appears most often in the header line,
+ * ignoring quoted text. Defaults to a comma.
+ */
+export function sniffDelimiter(text: string): string {
+  let headerLine = '';
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (char === '\n' || char === '\r')) break;
+    if (!inQuotes) headerLine += char;
+  }
+
+  let best: string = CSV_DELIMITERS[0];
+  let bestCount = 0;
+  for (const delimiter of CSV_DELIMITERS) {
+    const count = headerLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split CSV text into records. Blank lines are skipped; an unterminated
+ * quote is reported as an issue on the line where the field started.
+ */
+export function tokenizeCSV(
+  text: string,
+  delimiter: string
+): { records: CSVRecord[]; issues: CSVIssue[] } {
+  const records: CSVRecord[] = [];
+  const issues: CSVIssue[] = [];
+
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // A record with a single empty field is a blank line
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        // Keep embedded newlines but normalise CRLF to LF
+        if (!(char === '\r' && text[i + 1] === '\n')) field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === '') {
+      // Opening quote; whitespace before it is dropped
+      field = '';
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    issues.push({ line: quoteLine, message: 'Unterminated quoted field' });
+  }
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return { records, issues };
+}
+
+/**
+ * Map known columns to their index in the header row, accepting aliases
+ * such as "player" for name or "skill" for rating. When several headers
+ * match, the one earliest in the alias list wins, so an exact "rating"
+ * column is read even if a "skill" column comes before it.
+ */
+export function resolveColumns(headers: string[]): Partial<Record<CSVColumn, number>> {
+  const normalized = headers.map((h) => h.trim().toLowerCase());
+  const columns: Partial<Record<CSVColumn, number>> = {};
+
+  for (const [column, aliases] of Object.entries(CSV_COLUMN_ALIASES) as [CSVColumn, readonly string[]][]) {
+    const alias = aliases.find((header) => normalized.includes(header));
+    if (alias !== undefined) {
+      columns[column] = normalized.indexOf(alias);
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Format a report issue for display, e.g. "line 4 (rating): ..."
+ */
+export function formatCSVIssue(issue: CSVIssue): string {
+  const column = issue.column ? ` (${issue.column})` : '';
+  return `line ${issue.line}${column}: ${issue.message}`;
+}
+
+/**
+ * Quote a field when it contains the delimiter, a quote or a line break
+ */
+export function quoteCSVField(value: unknown, delimiter: string = ','): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows (header first) as CSV text that tokenizeCSV reads back
+ */
+export function formatCSV(rows: unknown[][], delimiter: string = ','): string {
+  return rows.map((row) => row.map((v) => quoteCSVField(v, delimiter)).join(delimiter)).join('\n') + '\n';
+}
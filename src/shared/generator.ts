@@ -0,0 +1,226 @@
+/**
+ * Synthetic rosters for stress tests and demos: seeded, so the same options
+ * always give the same players
+ */
+
+import {
+  POSITION_SEPARATOR,
+  RATING_DISTRIBUTIONS,
+  DEFAULT_POSITION_MIX,
+  DEFAULT_ROSTER_SIZE,
+  DEFAULT_ROSTER_SEED,
+  MAX_ROSTER_SIZE,
+  MIN_RATING,
+  MAX_RATING,
+  type PositionName,
+  type RatingDistribution,
+} from './constants.js';
+import { formatCSV } from './csv.js';
+import { normalizePosition } from './utils.js';
+import type { Player, PositionMix, RosterOptions } from '../solver/types.js';
+
+const FIRST_NAMES = [
+  'Aoife', 'Ciara', 'Niamh', 'Siobhán', 'Orla', 'Sinéad', 'Gráinne', 'Clodagh',
+  'Róisín', 'Saoirse', 'Caoimhe', 'Áine', 'Eimear', 'Deirdre', 'Méabh', 'Nuala',
+  'Bríd', 'Úna', 'Fionnuala', 'Sorcha', 'Ailbhe', 'Muireann', 'Laoise', 'Éabha',
+];
+
+const LAST_NAMES = [
+  'Murphy', 'Kelly', "O'Sullivan", 'Walsh', 'Byrne', 'Ryan', "O'Brien", 'Doyle',
+  'McCarthy', 'Gallagher', 'Dunne', 'Quinn', 'Lynch', 'Nolan', 'Keane', 'Fitzgerald',
+];
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+// Standard normal sample (Box-Muller)
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * One whole rating between MIN_RATING and MAX_RATING
+ */
+function sampleRating(distribution: RatingDistribution, random: () => number): number {
+  const span = MAX_RATING - MIN_RATING;
+  const mid = (MIN_RATING + MAX_RATING) / 2;
+  let value: number;
+  switch (distribution) {
+    case 'normal':
+      value = mid + gaussian(random) * (span / 6);
+      break;
+    case 'top-heavy':
+      value = MIN_RATING + span * Math.sqrt(random());
+      break;
+    case 'bottom-heavy':
+      value = MAX_RATING - span * Math.sqrt(random());
+      break;
+    case 'bimodal':
+      value = (random() < 0.5 ? MIN_RATING + span / 4 : MAX_RATING - span / 4) + gaussian(random) * (span / 10);
+      break;
+    default:
+      value = MIN_RATING + random() * (span + 1) - 0.5;
+  }
+  return Math.min(MAX_RATING, Math.max(MIN_RATING, Math.round(value)));
+}
+
+/**
+ * Validate an untrusted `{ position: share }` object. Position names go
+ * through the CSV aliases, so "keeper" and "backs" work too.
+ */
+export function parsePositionMix(value: unknown): PositionMix {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Position mix must be an object like { "forward": 6, "goalkeeper": 1 }');
+  }
+  const mix: PositionMix = {};
+  for (const [position, raw] of Object.entries(value as Record<string, unknown>)) {
+    const name = normalizePosition(position);
+    if (!name) {
+      throw new Error(`Unknown position "${position}" in position mix`);
+    }
+    const share = Number(raw);
+    if (!Number.isFinite(share) || share < 0) {
+      throw new Error(`Share of "${position}" must be a number of at least 0`);
+    }
+    mix[name] = (mix[name] ?? 0) + share;
+  }
+  if (!Object.values(mix).some((share) => share! > 0)) {
+    throw new Error('Position mix must give at least one position a share above 0');
+  }
+  return mix;
+}
+
+/**
+ * Parse a CLI position mix spec: "forward=6,midfield=2,goalkeeper=1"
+ */
+export function parsePositionMixSpec(spec: string, mix: PositionMix = {}): PositionMix {
+  const shares: Record<string, string> = {};
+  for (const part of spec.split(',')) {
+    const match = part.match(/^\s*([a-z _-]+?)\s*=\s*([\d.]+)\s*$/i);
+    if (!match) {
+      throw new Error(`Invalid position mix "${part.trim()}". Use position=share, e.g. forward=6`);
+    }
+    shares[match[1]] = match[2];
+  }
+  return { ...mix, ...parsePositionMix(shares) };
+}
+
+/**
+ * Fill in defaults and validate roster options
+ */
+export function parseRosterOptions(options: Partial<RosterOptions> = {}): RosterOptions {
+  const {
+    players = DEFAULT_ROSTER_SIZE,
+    ratings = 'uniform',
+    mix = DEFAULT_POSITION_MIX,
+    multiPosition = 0,
+    duplicates = 0,
+    seed = DEFAULT_ROSTER_SEED,
+  } = options;
+
+  if (!Number.isInteger(players) || players < 1 || players > MAX_ROSTER_SIZE) {
+    throw new Error(`Number of players must be a whole number from 1 to ${MAX_ROSTER_SIZE}`);
+  }
+  if (!RATING_DISTRIBUTIONS.includes(ratings)) {
+    throw new Error(`Unknown rating distribution "${ratings}". Available: ${RATING_DISTRIBUTIONS.join(', ')}`);
+  }
+  if (!Number.isFinite(multiPosition) || multiPosition < 0 || multiPosition > 1) {
+    throw new Error('Multi-position share must be between 0 and 1');
+  }
+  if (!Number.isInteger(duplicates) || duplicates < 0 || duplicates >= players) {
+    throw new Error(`Duplicates must be a whole number from 0 to ${players - 1}`);
+  }
+  if (!Number.isInteger(seed)) {
+    throw new Error('Seed must be a whole number');
+  }
+
+  return { players, ratings, mix: parsePositionMix(mix), multiPosition, duplicates, seed };
+}
+
+/**
+ * Exactly `count` positions in proportion to the mix (largest remainder),
+ * in random order
+ */
+function assignPositions(mix: PositionMix, count: number, random: () => number): PositionName[] {
+  const entries = Object.entries(mix).filter(([, share]) => share! > 0) as [PositionName, number][];
+  const total = entries.reduce((sum, [, share]) => sum + share, 0);
+  const quotas = entries.map(([name, share]) => ({ name, exact: (share / total) * count }));
+  const counts = quotas.map((q) => Math.floor(q.exact));
+
+  let left = count - counts.reduce((a, b) => a + b, 0);
+  const byRemainder = quotas
+    .map((q, i) => ({ i, remainder: q.exact - counts[i] }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { i } of byRemainder) {
+    if (left-- <= 0) break;
+    counts[i]++;
+  }
+
+  return shuffle(quotas.flatMap((q, i) => Array(counts[i]).fill(q.name)), random);
+}
+
+// Distinct for every index: cycles first names, staggering the surname so
+// small rosters still get a variety of both
+function uniqueName(index: number): string {
+  const [f, l] = [index % FIRST_NAMES.length, Math.floor(index / FIRST_NAMES.length)];
+  const first = FIRST_NAMES[f];
+  const last = LAST_NAMES[(f + l) % LAST_NAMES.length];
+  const round = Math.floor(index / (FIRST_NAMES.length * LAST_NAMES.length));
+  return round === 0 ? `${first} ${last}` : `${first} ${last} ${round + 1}`;
+}
+
+/**
+ * Generate a synthetic roster. The last `duplicates` players reuse earlier
+ * players' names, to exercise duplicate-name handling.
+ */
+export function generateRoster(options: Partial<RosterOptions> = {}): Player[] {
+  const { players: count, ratings, mix, multiPosition, duplicates, seed } = parseRosterOptions(options);
+  const random = createRandom(seed);
+
+  const nameOrder = shuffle(Array.from({ length: count }, (_, i) => i), random);
+  const positions = assignPositions(mix, count, random);
+  const secondChoices = (Object.keys(mix) as PositionName[]).filter((p) => p !== 'unknown');
+
+  return positions.map((position, i) => {
+    const name = i >= count - duplicates
+      ? uniqueName(nameOrder[Math.floor(random() * (count - duplicates))])
+      : uniqueName(nameOrder[i]);
+    const player: Player = { name, rating: sampleRating(ratings, random), position };
+
+    const others = secondChoices.filter((p) => p !== position);
+    if (position !== 'unknown' && others.length > 0 && random() < multiPosition) {
+      player.positions = [position, others[Math.floor(random() * others.length)]];
+    }
+    return player;
+  });
+}
+
+/**
+ * Roster as CSV that parseCSV reads back unchanged (multi-position players
+ * list every position, preferred first)
+ */
+export function formatRosterCSV(players: Player[]): string {
+  return formatCSV([
+    ['name', 'rating', 'position'],
+    ...players.map((p) => [p.name, p.rating, (p.positions ?? [p.position]).join(POSITION_SEPARATOR)]),
+  ]);
+}
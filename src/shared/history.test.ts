@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { HistoryWeek, PlayerStore, SessionSplit, TrainingSession } from '../solver/types.js';
+import { buildHistoryData, sessionHistory } from './history.js';
+import { parseCSV } from './utils.js';
+
+const PLAYERS = parseCSV('name,rating\nAoife,7\nCiara,6\nNiamh,5\nSorcha,4\n').players;
+
+// A recorded split with the given teams of names
+const split = (teams: string[][], round?: number): SessionSplit => ({
+  createdAt: '2026-01-01T00:00:00.000Z',
+  scenario: 'ratings_only',
+  status: 'OPTIMAL',
+  ...(round !== undefined ? { round } : {}),
+  teams: teams.map((team) => team.map((name) => ({ id: '', name }))),
+});
+
+const session = (id: string, date: string, splits: SessionSplit[]): TrainingSession => ({
+  id,
+  date,
+  present: [],
+  createdAt: `${date}T00:00:00.000Z`,
+  updatedAt: `${date}T00:00:00.000Z`,
+  splits,
+});
+
+const store = (sessions: TrainingSession[]): PlayerStore => ({
+  version: 1,
+  nextId: 1,
+  players: [],
+  nextSessionId: sessions.length + 1,
+  sessions,
+  nextGameId: 1,
+  games: [],
+});
+
+// Cost of each penalised pair, keyed by their names
+function pairCosts(weeks: HistoryWeek[], penalty = 4, decay = 0.5): Record<string, number> {
+  const data = buildHistoryData(PLAYERS, weeks, penalty, decay);
+  return Object.fromEntries(data.repeat_costs.map((cost, i) =>
+    [`${PLAYERS[data.repeat_a[i] - 1].name}+${PLAYERS[data.repeat_b[i] - 1].name}`, cost]));
+}
+
+// Aoife and Ciara together, Niamh and Sorcha together
+const PAIRED = [['Aoife', 'Ciara'], ['Niamh', 'Sorcha']];
+const SWAPPED = [['Aoife', 'Niamh'], ['Ciara', 'Sorcha']];
+
+describe('sessionHistory', () => {
+  it('counts only the latest split of a session that was solved again', () => {
+    const weeks = sessionHistory(store([session('s1', '2026-01-05', [split(SWAPPED), split(PAIRED)])]));
+
+    assert.equal(weeks.length, 1);
+    assert.deepEqual(pairCosts(weeks), { 'Aoife+Ciara': 4, 'Niamh+Sorcha': 4 });
+  });
+
+  it('counts every round of a social mixer', () => {
+    const mixer = [split(SWAPPED), split(PAIRED, 1), split(SWAPPED, 2)];
+    const weeks = sessionHistory(store([session('s1', '2026-01-05', mixer)]));
+
+    assert.equal(weeks[0].splits.length, 2);
+    assert.deepEqual(pairCosts(weeks), {
+      'Aoife+Ciara': 4, 'Niamh+Sorcha': 4, 'Aoife+Niamh': 4, 'Ciara+Sorcha': 4,
+    });
+  });
+});
+
+describe('buildHistoryData decay', () => {
+  const week = (date: string, teams: string[][]): HistoryWeek => ({
+    date,
+    splits: [teams.flatMap((team, t) => team.map((name) => ({ name, team: t })))],
+  });
+
+  it('decays sessions on the same date alike', () => {
+    assert.deepEqual(pairCosts([week('2026-01-05', PAIRED), week('2026-01-12', SWAPPED), week('2026-01-12', PAIRED)]), {
+      'Aoife+Ciara': 6, 'Niamh+Sorcha': 6, 'Aoife+Niamh': 4, 'Ciara+Sorcha': 4,
+    });
+  });
+
+  it('decays a session before a missed week by two weeks', () => {
+    assert.deepEqual(pairCosts([week('2026-01-05', PAIRED), week('2026-01-19', SWAPPED)]), {
+      'Aoife+Ciara': 1, 'Niamh+Sorcha': 1, 'Aoife+Niamh': 4, 'Ciara+Sorcha': 4,
+    });
+  });
+
+  it('decays by position in the list without dates', () => {
+    const undated = [week('', PAIRED), week('', SWAPPED)].map(({ splits }) => ({ splits }));
+
+    assert.deepEqual(pairCosts(undated), { 'Aoife+Ciara': 2, 'Niamh+Sorcha': 2, 'Aoife+Niamh': 4, 'Ciara+Sorcha': 4 });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Season history: pairs who were teammates in recent weeks cost extra, less
+ * the longer ago it was, so the same core players stop landing together
+ */
+
+import { DEFAULT_HISTORY_DECAY, DEFAULT_HISTORY_PENALTY } from './constants.js';
+import { freshness } from './mixer.js';
+import { findPlacedPlayer, parsePreviousSplit } from './rebalance.js';
+import type {
+  HistorySummary,
+  HistoryWeek,
+  ModelData,
+  Player,
+  PlayerStore,
+  PreviousPlacement,
+  RepeatData,
+  SessionSplit,
+  TrainingSession,
+} from '../solver/types.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The splits a session actually played, of all those recorded for it
+// (re-solves, other scenarios tried, rebalances): the latest one, or every
+// round of the latest social mixer
+function playedSplits<T>(splits: T[]): T[] {
+  const { round } = (splits[splits.length - 1] ?? {}) as { round?: unknown };
+  const rounds = typeof round === 'number' && Number.isInteger(round) && round >= 1 ? round : 1;
+  return splits.slice(-rounds);
+}
+
+// One past week: a recorded session (`{ date, splits }`, counted by the
+// splits it played) or a single split in any form parsePreviousSplit
+// accepts, optionally with a `date`
+function parseHistoryWeek(entry: unknown, index: number): HistoryWeek {
+  const { date, splits } = (entry ?? {}) as Record<string, unknown>;
+  try {
+    return {
+      ...(typeof date === 'string' && date ? { date } : {}),
+      splits: !Array.isArray(entry) && Array.isArray(splits)
+        ? playedSplits(splits).map((split) => parsePreviousSplit(split))
+        : [parsePreviousSplit(entry)],
+    };
+  } catch (error) {
+    throw new Error(`Week ${index + 1} of the history: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Validate past splits (API body or --history file), oldest week first.
+ * Accepted forms: an array of weeks, each a split (e.g. the `teams` of an
+ * earlier /api/solve response) or a recorded session with its `splits`; or
+ * an object with `sessions` (such as the player store file), read in date order.
+ */
+export function parseHistory(value: unknown): HistoryWeek[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const sessions = (value as Record<string, unknown>).sessions;
+  if (Array.isArray(sessions)) {
+    return [...sessions]
+      .sort((a, b) => String(a?.date ?? '').localeCompare(String(b?.date ?? '')))
+      .map(parseHistoryWeek);
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('History must be a list of past splits, oldest first, or a player store with sessions');
+  }
+  return value.map(parseHistoryWeek);
+}
+
+/**
+ * Validate the cost of sharing a team with someone in last week's split
+ */
+export function parseHistoryPenalty(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_HISTORY_PENALTY;
+  }
+  const penalty = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isInteger(penalty) || penalty < 0) {
+    throw new Error('History penalty must be a non-negative integer');
+  }
+  return penalty;
+}
+
+/**
+ * Validate the share of the penalty kept for each week further back
+ * (0 = only last week counts, 1 = every week counts the same)
+ */
+export function parseHistoryDecay(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_HISTORY_DECAY;
+  }
+  const decay = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isFinite(decay) || decay < 0 || decay > 1) {
+    throw new Error('History decay must be a number from 0 to 1, e.g. 0.5');
+  }
+  return decay;
+}
+
+// Players of a recorded split with their teams
+function splitPlacements(split: SessionSplit): PreviousPlacement[] {
+  return split.teams.flatMap((team, t) => team.map((p) => ({ name: p.name, ...(p.id ? { id: p.id } : {}), team: t })));
+}
+
+/**
+ * The splits played in the store's sessions, one week per session in date
+ * order. Solving for a session leaves out that session and any later one.
+ */
+export function sessionHistory(store: PlayerStore, current?: TrainingSession): HistoryWeek[] {
+  return store.sessions
+    .filter((session) => session.splits.length > 0 && session.id !== current?.id)
+    .filter((session) => !current || session.date <= current.date)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((session) => ({ date: session.date, splits: playedSplits(session.splits).map(splitPlacements) }));
+}
+
+// How many weeks before the latest each week was: from the dates when every
+// week has one, so sessions on the same day age alike and a missed week still
+// counts; otherwise from the order of the list
+function weekAges(weeks: HistoryWeek[]): number[] {
+  const times = weeks.map((week) => (week.date ? Date.parse(week.date) : NaN));
+  if (times.some((time) => Number.isNaN(time))) {
+    return weeks.map((_, w) => weeks.length - 1 - w);
+  }
+  const latest = Math.max(...times);
+  return times.map((time) => (latest - time) / (7 * DAY_MS));
+}
+
+/**
+ * Flatten past weeks into the models' penalised pairs. Every split a pair
+ * shared a team in costs `penalty`, times `decay` for each week before the
+ * latest (by date when known); each pair's total is rounded. Players no
+ * longer in the roster are ignored.
+ */
+export function buildHistoryData(
+  players: Player[],
+  weeks: HistoryWeek[],
+  penalty: number = DEFAULT_HISTORY_PENALTY,
+  decay: number = DEFAULT_HISTORY_DECAY
+): RepeatData {
+  const costs = new Map<string, number>();
+  const ages = weekAges(weeks);
+  weeks.forEach((week, w) => {
+    const weight = penalty * decay ** ages[w];
+    for (const split of week.splits) {
+      const teams = new Map<number, Set<number>>();
+      for (const placement of split) {
+        const idx = findPlacedPlayer(players, placement, 'the history');
+        if (idx === -1) continue;
+        teams.set(placement.team, (teams.get(placement.team) ?? new Set()).add(idx));
+      }
+      for (const team of teams.values()) {
+        const members = [...team].sort((a, b) => a - b);
+        members.forEach((p, i) => members.slice(i + 1).forEach((q) => {
+          costs.set(`${p},${q}`, (costs.get(`${p},${q}`) ?? 0) + weight);
+        }));
+      }
+    }
+  });
+
+  const data: RepeatData = { num_repeat_pairs: 0, repeat_a: [], repeat_b: [], repeat_costs: [] };
+  for (const [key, cost] of costs) {
+    const [p, q] = key.split(',').map(Number);
+    if (Math.round(cost) > 0) {
+      data.repeat_a.push(p + 1);
+      data.repeat_b.push(q + 1);
+      data.repeat_costs.push(Math.round(cost));
+    }
+  }
+  data.num_repeat_pairs = data.repeat_a.length;
+  return data;
+}
+
+/**
+ * Set the past weeks whose teammates are penalised on parsed model data
+ */
+export function applyHistory(
+  data: ModelData & { players: Player[] },
+  weeks: HistoryWeek[],
+  penalty: number = DEFAULT_HISTORY_PENALTY,
+  decay: number = DEFAULT_HISTORY_DECAY
+): void {
+  Object.assign(
+    data,
+    { history: { weeks: weeks.length, penalty, decay } },
+    buildHistoryData(data.players, weeks, penalty, decay)
+  );
+}
+
+/**
+ * Recent teammates a split places together again, and its freshness
+ */
+export function summarizeHistory(data: ModelData & { players: Player[] }, assignment: number[]): HistorySummary {
+  const repeats: HistorySummary['repeats'] = [];
+  for (let i = 0; i < data.num_repeat_pairs; i++) {
+    const [p, q] = [data.repeat_a[i] - 1, data.repeat_b[i] - 1];
+    if (assignment[p] !== undefined && assignment[p] === assignment[q]) {
+      repeats.push({ players: [data.players[p].name, data.players[q].name], cost: data.repeat_costs[i] });
+    }
+  }
+  return {
+    weeks: data.history?.weeks ?? 0,
+    penalty: data.history?.penalty ?? DEFAULT_HISTORY_PENALTY,
+    decay: data.history?.decay ?? DEFAULT_HISTORY_DECAY,
+    repeats: repeats.sort((a, b) => b.cost - a.cost),
+    freshness: freshness(data, assignment),
+  };
+}
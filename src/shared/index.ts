@@ -4,3 +4,21 @@
 
 export * from './constants.js';
 export * from './utils.js';
+export * from './pairings.js';
+export * from './pins.js';
+export * from './rebalance.js';
+export * from './attributes.js';
+export * from './categories.js';
+export * from './quotas.js';
+export * from './parameters.js';
+export * from './scenarios.js';
+export * from './csv.js';
+export * from './generator.js';
+export * from './teamsheet.js';
+export * from './modelbundle.js';
+export * from './zip.js';
+export * from './roster.js';
+export * from './sessions.js';
+export * from './ratings.js';
+export * from './mixer.js';
+export * from './history.js';
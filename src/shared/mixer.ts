@@ -0,0 +1,136 @@
+/**
+ * Social mixer: several short rounds in one session, each split fair on its
+ * own while players end up alongside as many different teammates as possible
+ */
+
+import { DEFAULT_REPEAT_PENALTY, MAX_ROUNDS } from './constants.js';
+import type { Player, RepeatData, TeammateSummary } from '../solver/types.js';
+
+/**
+ * Validate a requested number of rounds. Defaults to a single split.
+ */
+export function parseRoundCount(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return 1;
+  }
+  const rounds = typeof value === 'number' ? value : parseInt(String(value), 10);
+  if (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_ROUNDS) {
+    throw new Error(`Number of rounds must be an integer from 1 to ${MAX_ROUNDS}`);
+  }
+  return rounds;
+}
+
+/**
+ * Validate the cost of each earlier round a pair of players shared a team
+ */
+export function parseRepeatPenalty(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_REPEAT_PENALTY;
+  }
+  const penalty = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isInteger(penalty) || penalty < 0) {
+    throw new Error('Repeat penalty must be a non-negative integer');
+  }
+  return penalty;
+}
+
+/**
+ * Rounds each pair of players spent on the same team, given each round's
+ * assignment (team index per player). The diagonal is 0.
+ */
+export function teammateCounts(numPlayers: number, assignments: number[][]): number[][] {
+  const counts = Array.from({ length: numPlayers }, () => Array(numPlayers).fill(0));
+  for (const assignment of assignments) {
+    for (let p = 0; p < numPlayers; p++) {
+      for (let q = p + 1; q < numPlayers; q++) {
+        if (assignment[p] === assignment[q]) {
+          counts[p][q]++;
+          counts[q][p]++;
+        }
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Flatten teammate counts into the models' penalised pairs: every pair who
+ * shared a team costs `penalty` per round they did
+ */
+export function buildRepeatData(counts: number[][], penalty: number = DEFAULT_REPEAT_PENALTY): RepeatData {
+  const data: RepeatData = { num_repeat_pairs: 0, repeat_a: [], repeat_b: [], repeat_costs: [] };
+  counts.forEach((row, p) => {
+    for (let q = p + 1; q < row.length; q++) {
+      if (row[q] > 0 && penalty > 0) {
+        data.repeat_a.push(p + 1);
+        data.repeat_b.push(q + 1);
+        data.repeat_costs.push(row[q] * penalty);
+      }
+    }
+  });
+  data.num_repeat_pairs = data.repeat_a.length;
+  return data;
+}
+
+/**
+ * Cost of the penalised pairs a split places on the same team
+ */
+export function repeatPenalty(data: RepeatData, assignment: number[]): number {
+  let penalty = 0;
+  for (let i = 0; i < data.num_repeat_pairs; i++) {
+    if (assignment[data.repeat_a[i] - 1] === assignment[data.repeat_b[i] - 1]) {
+      penalty += data.repeat_costs[i];
+    }
+  }
+  return penalty;
+}
+
+/**
+ * Combine two sets of penalised pairs (e.g. past weeks and earlier rounds);
+ * a pair in both costs the two costs added up
+ */
+export function mergeRepeatData(a: RepeatData, b: RepeatData): RepeatData {
+  const costs = new Map<string, number>();
+  for (const data of [a, b]) {
+    for (let i = 0; i < data.num_repeat_pairs; i++) {
+      const [p, q] = [data.repeat_a[i], data.repeat_b[i]].sort((x, y) => x - y);
+      costs.set(`${p},${q}`, (costs.get(`${p},${q}`) ?? 0) + data.repeat_costs[i]);
+    }
+  }
+  const pairs = [...costs.entries()].map(([key, cost]) => [...key.split(',').map(Number), cost]);
+  return {
+    num_repeat_pairs: pairs.length,
+    repeat_a: pairs.map(([p]) => p),
+    repeat_b: pairs.map(([, q]) => q),
+    repeat_costs: pairs.map(([, , cost]) => cost),
+  };
+}
+
+/**
+ * Percentage of a split's teammate pairs that are not penalised, rounded
+ * down (100 when no pair is, or no team has two players)
+ */
+export function freshness(data: RepeatData & { num_teams: number }, assignment: number[]): number {
+  const sizes = Array(data.num_teams).fill(0);
+  assignment.forEach((team) => sizes[team]++);
+  const pairs = sizes.reduce((sum, size) => sum + (size * (size - 1)) / 2, 0);
+  let repeated = 0;
+  for (let i = 0; i < data.num_repeat_pairs; i++) {
+    if (assignment[data.repeat_a[i] - 1] === assignment[data.repeat_b[i] - 1]) repeated++;
+  }
+  return pairs === 0 ? 100 : Math.floor((100 * (pairs - repeated)) / pairs);
+}
+
+/**
+ * Teammate co-occurrence across the rounds of a mixer, with how many
+ * different teammates each player had
+ */
+export function summarizeTeammates(players: Player[], assignments: number[][]): TeammateSummary {
+  const matrix = teammateCounts(players.length, assignments);
+  return {
+    players: players.map((p) => p.name),
+    matrix,
+    distinctTeammates: matrix.map((row) => row.filter((count) => count > 0).length),
+    repeatedPairs: matrix.reduce((sum, row, p) => sum + row.filter((count, q) => q > p && count > 1).length, 0),
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * MiniZinc bundles: the data the app passes to a model, written out as .dzn
+ * and JSON files next to the scenario's .mzn, so a run can be reproduced in
+ * the MiniZinc IDE or attached to a bug report
+ */
+
+import { SOLVERS, DEFAULT_SOLVER } from './constants.js';
+import { MODEL_DATA_FIELDS } from './scenarios.js';
+import type {
+  ModelBundle,
+  ModelData,
+  Player,
+  ScenarioDefinition,
+} from '../solver/types.js';
+
+function dznValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(dznValue).join(', ')}]`;
+  }
+  return String(value);
+}
+
+/**
+ * One .dzn assignment; 2-d arrays (e.g. `eligible`) become array2d(...)
+ */
+function dznAssignment(field: string, value: unknown): string {
+  if (Array.isArray(value) && value.length > 0 && Array.isArray(value[0])) {
+    const rows = value as unknown[][];
+    return `${field} = array2d(1..${rows.length}, 1..${rows[0].length}, ${dznValue(rows.flat())});`;
+  }
+  return `${field} = ${dznValue(value)};`;
+}
+
+// Single-line version of a name for a comment
+function commentText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The roster as MiniZinc data (.dzn), limited to `fields` (the parameters
+ * the model declares; MiniZinc rejects assignments to anything else). A
+ * comment maps player numbers to names.
+ */
+export function formatDzn(data: ModelData & { players?: Player[] }, fields: (keyof ModelData)[]): string {
+  const lines = [
+    '% Generated by camogie-team-optimizer',
+    ...(data.players ?? []).map((p, i) =>
+      `% player ${i + 1}: ${commentText(p.name)} (rating ${p.rating}, ${(p.positions ?? [p.position]).join('/')})`),
+    '',
+    ...fields.filter((field) => data[field] !== undefined).map((field) => dznAssignment(field, data[field])),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * The roster as MiniZinc JSON data, limited to `fields` (one field per line)
+ */
+export function formatModelDataJSON(data: ModelData, fields: (keyof ModelData)[]): string {
+  const entries = fields
+    .filter((field) => data[field] !== undefined)
+    .map((field) => `  ${JSON.stringify(field)}: ${JSON.stringify(data[field])}`);
+  return `{\n${entries.join(',\n')}\n}\n`;
+}
+
+/**
+ * Bundle a prepared roster with its scenario's model: the .mzn, data.dzn,
+ * data.json, the original roster CSV (when given) and a README with the
+ * command that reproduces the run
+ */
+export function buildModelBundle(options: {
+  scenario: ScenarioDefinition;
+  modelCode: string;
+  data: ModelData & { players?: Player[] };
+  solver: string;
+  timeLimit: number;
+  csvText?: string;
+}): ModelBundle {
+  const { scenario, modelCode, data, timeLimit, csvText } = options;
+  // A manifest that lists no data gets everything the app provides
+  const fields = scenario.requiredData.length > 0 ? scenario.requiredData : MODEL_DATA_FIELDS;
+  // The built-in and portfolio solvers are not MiniZinc solvers
+  const minizincSolvers: readonly string[] = [...SOLVERS.local, ...SOLVERS.wasm];
+  const solver = minizincSolvers.includes(options.solver) ? options.solver : DEFAULT_SOLVER;
+  const run = `minizinc --solver ${solver} --time-limit ${timeLimit} ${scenario.modelFile}`;
+
+  const readme = [
+    `MiniZinc bundle for the "${scenario.name}" scenario (${scenario.id})`,
+    `Created ${new Date().toISOString()}`,
+    '',
+    `Roster: ${data.num_players} players split into ${data.num_teams} teams`,
+    `Solver: ${options.solver}, time limit ${timeLimit}ms`,
+    '',
+    'Files:',
+    `  ${scenario.modelFile.padEnd(40)} the model`,
+    `  ${'data.dzn'.padEnd(40)} the roster and rules as MiniZinc data`,
+    `  ${'data.json'.padEnd(40)} the same data as JSON`,
+    ...(csvText !== undefined ? [`  ${'roster.csv'.padEnd(40)} the roster as imported`] : []),
+    '',
+    'Run from this folder:',
+    `  ${run} data.dzn`,
+    `  ${run} data.json`,
+    '',
+    `In the MiniZinc IDE, open ${scenario.modelFile}, then choose data.dzn as the data file.`,
+    '',
+  ].join('\n');
+
+  return {
+    name: `minizinc-${scenario.id}`,
+    files: [
+      { name: scenario.modelFile, content: modelCode },
+      { name: 'data.dzn', content: formatDzn(data, fields) },
+      { name: 'data.json', content: formatModelDataJSON(data, fields) },
+      ...(csvText !== undefined ? [{ name: 'roster.csv', content: csvText }] : []),
+      { name: 'README.txt', content: readme },
+    ],
+  };
+}
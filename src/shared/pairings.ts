@@ -0,0 +1,245 @@
+/**
+ * Keep-together / keep-apart pairing rules for team assignment
+ */
+
+import { DEFAULT_SIZE_TOLERANCE } from './constants.js';
+import { teamSizeRange } from './parameters.js';
+import type { Player, PairingRules, PairingData, ModelData } from '../solver/types.js';
+
+// Separator for several group labels in one CSV cell (e.g. "sisters|carpool")
+export const PAIRING_LABEL_SEPARATOR = '|';
+
+/**
+ * Create an empty rule set
+ */
+export function emptyPairingRules(): PairingRules {
+  return { together: [], apart: [] };
+}
+
+/**
+ * Whether a rule set has no rules
+ */
+export function hasPairingRules(rules: PairingRules): boolean {
+  return rules.together.length > 0 || rules.apart.length > 0;
+}
+
+/**
+ * Combine rule sets from several sources (CSV columns, request body, file)
+ */
+export function mergePairingRules(...ruleSets: (PairingRules | undefined)[]): PairingRules {
+  const merged = emptyPairingRules();
+  for (const rules of ruleSets) {
+    if (!rules) continue;
+    merged.together.push(...rules.together);
+    merged.apart.push(...rules.apart);
+  }
+  return merged;
+}
+
+/**
+ * Validate an untrusted `{ together, apart }` object (API body or --pairs file)
+ */
+export function parsePairingRules(value: unknown): PairingRules {
+  if (value === undefined || value === null) {
+    return emptyPairingRules();
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Pairing rules must be an object with "together" and/or "apart" arrays');
+  }
+
+  const raw = value as Record<string, unknown>;
+  const readGroups = (key: 'together' | 'apart'): string[][] => {
+    const groups = raw[key];
+    if (groups === undefined) return [];
+    if (!Array.isArray(groups)) {
+      throw new Error(`Pairing rules "${key}" must be an array of player name groups`);
+    }
+    return groups.map((group, i) => {
+      if (!Array.isArray(group) || group.length < 2 || !group.every((n) => typeof n === 'string')) {
+        throw new Error(`Pairing rules "${key}" group ${i + 1} must list at least two player names`);
+      }
+      return group.map((n: string) => n.trim());
+    });
+  };
+
+  return { together: readGroups('together'), apart: readGroups('apart') };
+}
+
+/**
+ * Build rules from per-player CSV labels: players sharing a `group` label stay
+ * together, players sharing an `avoid` label are kept apart
+ */
+export function pairingRulesFromLabels(
+  players: Player[],
+  groupLabels: string[],
+  avoidLabels: string[]
+): PairingRules {
+  const collect = (labels: string[]): string[][] => {
+    const byLabel = new Map<string, string[]>();
+    labels.forEach((cell, idx) => {
+      for (const label of splitLabels(cell)) {
+        const names = byLabel.get(label) ?? [];
+        names.push(players[idx].name);
+        byLabel.set(label, names);
+      }
+    });
+    return [...byLabel.values()].filter((names) => names.length >= 2);
+  };
+
+  return { together: collect(groupLabels), apart: collect(avoidLabels) };
+}
+
+function splitLabels(cell: string | undefined): string[] {
+  if (!cell) return [];
+  return cell
+    .split(PAIRING_LABEL_SEPARATOR)
+    .map((l) => l.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Human-readable description of a rule, used in error reports
+ */
+export function describePairingRule(kind: 'together' | 'apart', names: string[]): string {
+  return kind === 'together'
+    ? `keep together: ${names.join(', ')}`
+    : `keep apart: ${names.join(', ')}`;
+}
+
+/**
+ * Flatten rules into 1-based player index pairs for the MiniZinc models.
+ * Throws if a rule names an unknown or ambiguous player.
+ */
+export function buildPairingData(players: Player[], rules: PairingRules): PairingData {
+  const resolve = (kind: 'together' | 'apart', group: string[]): number[] =>
+    group.map((name) => {
+      const matches = players
+        .map((p, idx) => (p.name.toLowerCase() === name.toLowerCase() ? idx + 1 : -1))
+        .filter((idx) => idx !== -1);
+      if (matches.length === 0) {
+        throw new Error(`Unknown player "${name}" in rule (${describePairingRule(kind, group)})`);
+      }
+      if (matches.length > 1) {
+        throw new Error(`Player name "${name}" is ambiguous in rule (${describePairingRule(kind, group)})`);
+      }
+      return matches[0];
+    });
+
+  const data: PairingData = {
+    num_together: 0,
+    together_a: [],
+    together_b: [],
+    num_apart: 0,
+    apart_a: [],
+    apart_b: [],
+  };
+
+  // Together groups: chain every member to the first one
+  for (const group of rules.together) {
+    const [first, ...rest] = resolve('together', group);
+    for (const other of rest) {
+      data.together_a.push(first);
+      data.together_b.push(other);
+    }
+  }
+
+  // Apart groups: every pair in the group must differ
+  for (const group of rules.apart) {
+    const indices = resolve('apart', group);
+    for (let i = 0; i < indices.length; i++) {
+      for (let j = i + 1; j < indices.length; j++) {
+        data.apart_a.push(indices[i]);
+        data.apart_b.push(indices[j]);
+      }
+    }
+  }
+
+  data.num_together = data.together_a.length;
+  data.num_apart = data.apart_a.length;
+  return data;
+}
+
+/**
+ * Find rules that can never be satisfied, independent of the scenario's
+ * objective. Returns one message per offending rule.
+ */
+export function findPairingConflicts(
+  players: Player[],
+  rules: PairingRules,
+  numTeams: number,
+  sizeTolerance: number = DEFAULT_SIZE_TOLERANCE
+): string[] {
+  const conflicts: string[] = [];
+  const maxTeamSize = teamSizeRange(players.length, numTeams, sizeTolerance).max;
+
+  // Union-find over together groups to get the players that must share a team
+  const parent = players.map((_, idx) => idx);
+  const find = (idx: number): number => {
+    while (parent[idx] !== idx) {
+      parent[idx] = parent[parent[idx]];
+      idx = parent[idx];
+    }
+    return idx;
+  };
+  const indexOf = (name: string) =>
+    players.findIndex((p) => p.name.toLowerCase() === name.toLowerCase());
+
+  for (const group of rules.together) {
+    const [first, ...rest] = group.map(indexOf);
+    for (const other of rest) {
+      parent[find(other)] = find(first);
+    }
+  }
+
+  const componentSizes = new Map<number, number>();
+  players.forEach((_, idx) => {
+    const root = find(idx);
+    componentSizes.set(root, (componentSizes.get(root) ?? 0) + 1);
+  });
+
+  for (const group of rules.together) {
+    const size = componentSizes.get(find(indexOf(group[0]))) ?? 0;
+    if (size > maxTeamSize) {
+      conflicts.push(
+        `Rule (${describePairingRule('together', group)}) puts ${size} players on one team, ` +
+        `but teams can have at most ${maxTeamSize} players`
+      );
+    }
+  }
+
+  for (const group of rules.apart) {
+    if (group.length > numTeams) {
+      conflicts.push(
+        `Rule (${describePairingRule('apart', group)}) needs ${group.length} different teams, ` +
+        `but only ${numTeams} teams are being picked`
+      );
+      continue;
+    }
+    const roots = group.map((name) => find(indexOf(name)));
+    for (let i = 0; i < roots.length; i++) {
+      for (let j = i + 1; j < roots.length; j++) {
+        if (roots[i] === roots[j]) {
+          conflicts.push(
+            `Rule (${describePairingRule('apart', group)}) contradicts the keep-together rules: ` +
+            `${group[i]} and ${group[j]} must share a team`
+          );
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Merge extra rules into parsed model data and rebuild the index pairs.
+ * Returns the conflicts found for the merged rule set.
+ */
+export function applyPairingRules(
+  data: ModelData & { players: Player[] },
+  extra: PairingRules
+): string[] {
+  const pairings = mergePairingRules(data.pairings, extra);
+  Object.assign(data, { pairings }, buildPairingData(data.players, pairings));
+  return findPairingConflicts(data.players, pairings, data.num_teams, data.size_tolerance);
+}
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { buildParameterData, describeSolveParameters, parseSolveParameters } from './parameters.js';
+import { parseScenarioManifest } from './scenarios.js';
+
+const MANIFEST = {
+  id: 'custom',
+  name: 'Custom',
+  requiredData: ['num_players', 'num_teams', 'ratings', 'rating_weight'],
+  output: { assignment: 'int[]' },
+};
+
+describe('parseSolveParameters weights', () => {
+  it('rejects a weight the scenario does not read', () => {
+    assert.throws(
+      () => parseSolveParameters({ weights: { position: 50 } }, 'balanced_positions'),
+      { message: 'Weight "position" has no effect in this scenario (tunable: rating, position_rating)' }
+    );
+    assert.throws(
+      () => parseSolveParameters({ weights: { rating: 2 } }, 'ratings_only'),
+      /no tunable weights/
+    );
+    assert.throws(
+      () => parseSolveParameters({ attributeWeights: { speed: 2 } }, 'with_positions'),
+      /does not weigh attributes/
+    );
+  });
+
+  it('echoes only the weights that reach the model', () => {
+    const params = parseSolveParameters({ weights: { position_rating: 3 }, attributeWeights: { speed: 2 } },
+      'balanced_attributes');
+
+    assert.deepEqual(params.weights, { rating: 1, positionRating: 3 });
+    assert.equal(
+      describeSolveParameters(params),
+      'weights rating=1 position_rating=3 speed=2, team sizes within 1, time limit 10000ms'
+    );
+    assert.equal(buildParameterData(params).position_weight, 0);
+  });
+});
+
+describe('parseScenarioManifest weights', () => {
+  it('tunes the weights whose fields the model requires', () => {
+    const scenario = parseScenarioManifest(
+      { ...MANIFEST, parameters: { weights: { rating: 4 } } },
+      'custom.mzn'
+    );
+
+    assert.deepEqual(scenario.parameters.weights, { rating: 4 });
+    assert.equal(scenario.parameters.attributeWeights, undefined);
+  });
+
+  it('rejects a weight whose field the model does not require', () => {
+    assert.throws(
+      () => parseScenarioManifest({ ...MANIFEST, parameters: { weights: { position: 1 } } }, 'custom.mzn'),
+      /"parameters": Weight "position" has no effect/
+    );
+  });
+});
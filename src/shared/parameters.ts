@@ -0,0 +1,260 @@
+/**
+ * Per-request solve parameters: objective weights (including per-attribute
+ * weights), team-size tolerance and time limit
+ */
+
+import {
+  DEFAULT_WEIGHTS,
+  DEFAULT_SIZE_TOLERANCE,
+  DEFAULT_TIME_LIMIT,
+  MAX_TIME_LIMIT,
+  type ScenarioId,
+} from './constants.js';
+import { attributeWeightList } from './attributes.js';
+import type {
+  ModelData,
+  ObjectiveWeights,
+  ParameterData,
+  SolveParameters,
+} from '../solver/types.js';
+
+/**
+ * Weight names accepted from the API and CLI (snake_case aliases included)
+ */
+const WEIGHT_NAMES: Record<string, keyof ObjectiveWeights> = {
+  rating: 'rating',
+  position: 'position',
+  positionrating: 'positionRating',
+  position_rating: 'positionRating',
+};
+
+/**
+ * Model data field each weight is passed in; a model that does not require
+ * a weight's field has no use for that weight
+ */
+export const WEIGHT_FIELDS: Record<keyof ObjectiveWeights, keyof ParameterData> = {
+  rating: 'rating_weight',
+  position: 'position_weight',
+  positionRating: 'position_rating_weight',
+};
+
+// Names used in messages and summaries, as the API and CLI accept them
+const WEIGHT_LABELS: Record<keyof ObjectiveWeights, string> = {
+  rating: 'rating',
+  position: 'position',
+  positionRating: 'position_rating',
+};
+
+/**
+ * Parameters a scenario runs with when a request sets none: those of a
+ * bundled scenario, or a registered scenario's manifest defaults
+ */
+export function defaultSolveParameters(scenario: ScenarioId | SolveParameters): SolveParameters {
+  if (typeof scenario !== 'string') {
+    return {
+      ...scenario,
+      weights: { ...scenario.weights },
+      ...(scenario.attributeWeights ? { attributeWeights: { ...scenario.attributeWeights } } : {}),
+    };
+  }
+  return {
+    weights: { ...DEFAULT_WEIGHTS[scenario] },
+    ...(scenario === 'balanced_attributes' ? { attributeWeights: {} } : {}),
+    sizeTolerance: DEFAULT_SIZE_TOLERANCE,
+    timeLimit: DEFAULT_TIME_LIMIT,
+  };
+}
+
+/**
+ * Validate untrusted overrides (`{ weights, attributeWeights, sizeTolerance,
+ * timeLimit }` from the API body or CLI flags) and merge them over the
+ * scenario defaults. Only the weights in the defaults can be set: any other
+ * would never reach the scenario's model.
+ */
+export function parseSolveParameters(
+  value: unknown,
+  scenario: ScenarioId | SolveParameters
+): SolveParameters {
+  const params = defaultSolveParameters(scenario);
+  if (value === undefined || value === null) {
+    return params;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Solve parameters must be an object with "weights", "sizeTolerance" and/or "timeLimit"');
+  }
+
+  const { weights, attributeWeights, sizeTolerance, timeLimit } = value as Record<string, unknown>;
+
+  if (weights !== undefined && weights !== null) {
+    if (typeof weights !== 'object' || Array.isArray(weights)) {
+      throw new Error('Weights must be an object like { "rating": 10, "position": 1 }');
+    }
+    for (const [name, raw] of Object.entries(weights as Record<string, unknown>)) {
+      if (raw === undefined) continue;
+      const key = weightName(name);
+      if (params.weights[key] === undefined) {
+        const tunable = (Object.keys(params.weights) as (keyof ObjectiveWeights)[]).map((k) => WEIGHT_LABELS[k]);
+        throw new Error(
+          `Weight "${name}" has no effect in this scenario ` +
+          (tunable.length > 0 ? `(tunable: ${tunable.join(', ')})` : '(it has no tunable weights)')
+        );
+      }
+      params.weights[key] = nonNegativeInteger(`Weight "${name}"`, raw);
+    }
+  }
+
+  if (attributeWeights !== undefined && attributeWeights !== null) {
+    if (typeof attributeWeights !== 'object' || Array.isArray(attributeWeights)) {
+      throw new Error('Attribute weights must be an object like { "speed": 2, "stickwork": 1 }');
+    }
+    for (const [name, raw] of Object.entries(attributeWeights as Record<string, unknown>)) {
+      if (raw === undefined) continue;
+      if (params.attributeWeights === undefined) {
+        throw new Error(`Attribute weight "${name}" has no effect: this scenario does not weigh attributes`);
+      }
+      params.attributeWeights = {
+        ...params.attributeWeights,
+        [name.trim()]: nonNegativeInteger(`Attribute weight "${name}"`, raw),
+      };
+    }
+  }
+
+  if (sizeTolerance !== undefined && sizeTolerance !== null && sizeTolerance !== '') {
+    params.sizeTolerance = nonNegativeInteger('Team size tolerance', sizeTolerance);
+  }
+
+  if (timeLimit !== undefined && timeLimit !== null && timeLimit !== '') {
+    const ms = nonNegativeInteger('Time limit', timeLimit);
+    if (ms === 0 || ms > MAX_TIME_LIMIT) {
+      throw new Error(`Time limit must be between 1 and ${MAX_TIME_LIMIT} ms`);
+    }
+    params.timeLimit = ms;
+  }
+
+  return params;
+}
+
+/**
+ * Parse a CLI weight spec such as "rating=5" or "position_rating=2"
+ */
+export function parseWeightSpec(
+  spec: string,
+  weights: Partial<ObjectiveWeights> = {}
+): Partial<ObjectiveWeights> {
+  const match = spec.match(/^\s*([a-z_]+)\s*=\s*(\S+)\s*$/i);
+  if (!match) {
+    throw new Error(`Invalid weight "${spec}". Use name=value, e.g. rating=10 or position=2`);
+  }
+  const [, name, value] = match;
+  return { ...weights, [weightName(name)]: nonNegativeInteger(`Weight "${name}"`, value) };
+}
+
+/**
+ * Parse a CLI attribute weight spec such as "speed=2"
+ */
+export function parseAttributeWeightSpec(
+  spec: string,
+  weights: Record<string, number> = {}
+): Record<string, number> {
+  const match = spec.match(/^(.+)=([^=]+)$/);
+  if (!match || !match[1].trim()) {
+    throw new Error(`Invalid attribute weight "${spec}". Use attribute=value, e.g. speed=2`);
+  }
+  const [, name, value] = match;
+  return { ...weights, [name.trim()]: nonNegativeInteger(`Attribute weight "${name.trim()}"`, value) };
+}
+
+function weightName(name: string): keyof ObjectiveWeights {
+  const key = WEIGHT_NAMES[name.trim().toLowerCase()];
+  if (!key) {
+    throw new Error(`Unknown weight "${name}". Available: rating, position, position_rating`);
+  }
+  return key;
+}
+
+function nonNegativeInteger(label: string, value: unknown): number {
+  const n = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`${label} must be a non-negative integer`);
+  }
+  return n;
+}
+
+/**
+ * The weights the scenario's model reads, e.g. "rating=10 position=1"
+ * (empty when it has none)
+ */
+export function describeWeights(params: SolveParameters): string {
+  return [
+    ...(Object.entries(params.weights) as [keyof ObjectiveWeights, number][])
+      .map(([key, weight]) => `${WEIGHT_LABELS[key]}=${weight}`),
+    ...Object.entries(params.attributeWeights ?? {}).map(([name, weight]) => `${name}=${weight}`),
+  ].join(' ');
+}
+
+/**
+ * Human-readable summary for CLI output and logs
+ */
+export function describeSolveParameters(params: SolveParameters): string {
+  const weights = describeWeights(params);
+  return (
+    `${weights ? `weights ${weights}` : 'no tunable weights'}, ` +
+    `team sizes within ${params.sizeTolerance}, time limit ${params.timeLimit}ms`
+  );
+}
+
+/**
+ * Flatten parameters into the models' data fields (0 for a weight the
+ * scenario's model does not read)
+ */
+export function buildParameterData(params: SolveParameters): ParameterData {
+  return {
+    rating_weight: params.weights.rating ?? 0,
+    position_weight: params.weights.position ?? 0,
+    position_rating_weight: params.weights.positionRating ?? 0,
+    size_tolerance: params.sizeTolerance,
+  };
+}
+
+/**
+ * Smallest and largest possible team size when sizes may differ by at most
+ * `tolerance` (tolerance 1 gives floor/ceil of the average)
+ */
+export function teamSizeRange(
+  numPlayers: number,
+  numTeams: number,
+  tolerance: number
+): { min: number; max: number } {
+  return {
+    min: Math.max(0, Math.ceil((numPlayers - (numTeams - 1) * tolerance) / numTeams)),
+    max: Math.floor((numPlayers + (numTeams - 1) * tolerance) / numTeams),
+  };
+}
+
+/**
+ * Find parameters the roster can never satisfy
+ */
+export function findParameterConflicts(
+  numPlayers: number,
+  numTeams: number,
+  params: SolveParameters
+): string[] {
+  if (params.sizeTolerance === 0 && numPlayers % numTeams !== 0) {
+    return [
+      `Team size tolerance 0 needs equal teams, but ${numPlayers} players ` +
+      `cannot be split evenly into ${numTeams} teams`,
+    ];
+  }
+  return [];
+}
+
+/**
+ * Set parameters on parsed model data. Returns the conflicts found for them;
+ * throws for an attribute weight naming an attribute the roster lacks.
+ */
+export function applySolveParameters(data: ModelData, params: SolveParameters): string[] {
+  Object.assign(data, buildParameterData(params), {
+    attribute_weights: attributeWeightList(data.attributes ?? [], params.attributeWeights),
+  });
+  return findParameterConflicts(data.num_players, data.num_teams, params);
+}
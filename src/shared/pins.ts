@@ -0,0 +1,170 @@
+/**
+ * Team pins: players fixed to a given team (e.g. a captain on each side),
+ * with the solver placing everyone else
+ */
+
+import { teamSizeRange } from './parameters.js';
+import type { Player, ModelData, PinData, PinSummary, TeamPins } from '../solver/types.js';
+
+/**
+ * Team index (0 = Team A) for a team written as "A", "Team B", or a team
+ * number counted from 1. Returns null if it is not recognised.
+ */
+export function parseTeamLabel(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 1 ? value - 1 : null;
+  }
+  const label = String(value ?? '').trim().toLowerCase().replace(/^team\s*/, '');
+  if (/^\d+$/.test(label)) {
+    const team = parseInt(label, 10);
+    return team >= 1 ? team - 1 : null;
+  }
+  return /^[a-z]$/.test(label) ? label.charCodeAt(0) - 97 : null;
+}
+
+/**
+ * Validate an untrusted `{ player: team }` object (API body). Players are
+ * named as in the roster (or by stored player ID); teams as for parseTeamLabel.
+ */
+export function parseTeamPins(value: unknown): TeamPins {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Pins must be an object like { "Aoife Kelly": "A", "Ciara Byrne": "B" }');
+  }
+  const pins: TeamPins = {};
+  for (const [player, team] of Object.entries(value as Record<string, unknown>)) {
+    const index = parseTeamLabel(team);
+    if (index === null) {
+      throw new Error(`Invalid team "${team}" for ${player}. Use a team letter (A, B, ...) or number (1, 2, ...)`);
+    }
+    pins[player.trim()] = index;
+  }
+  return pins;
+}
+
+/**
+ * Parse a CLI pin spec: "Aoife Kelly=A" or "p3=2"
+ */
+export function parsePinSpec(spec: string, pins: TeamPins = {}): TeamPins {
+  const match = spec.match(/^(.+)=([^=]+)$/);
+  if (!match || !match[1].trim()) {
+    throw new Error(`Invalid pin "${spec}". Use player=team, e.g. "Aoife Kelly=A"`);
+  }
+  return { ...pins, ...parseTeamPins({ [match[1]]: match[2] }) };
+}
+
+// Same naming as teamName (0 = Team A)
+function pinnedTeamName(team: number): string {
+  return `Team ${String.fromCharCode(65 + team)}`;
+}
+
+/**
+ * Human-readable description of a pin, used in summaries and error reports
+ */
+export function describePin(player: string, team: number): string {
+  return `pin ${player} to ${pinnedTeamName(team)}`;
+}
+
+/**
+ * Flatten pins into a per-player array for the MiniZinc models
+ * (pinned_team[p] = team number counted from 1, 0 = free). Throws if a pin
+ * names an unknown or ambiguous player.
+ */
+export function buildPinData(players: Player[], pins: TeamPins): PinData {
+  const data: PinData = { pinned_team: players.map(() => 0) };
+  for (const [name, team] of Object.entries(pins)) {
+    let matches = players
+      .map((p, idx) => (p.name.toLowerCase() === name.toLowerCase() ? idx : -1))
+      .filter((idx) => idx !== -1);
+    if (matches.length === 0) {
+      matches = players.map((p, idx) => (p.id === name ? idx : -1)).filter((idx) => idx !== -1);
+    }
+    if (matches.length === 0) {
+      throw new Error(`Unknown player "${name}" in pin (${describePin(name, team)})`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Player name "${name}" is ambiguous in pin (${describePin(name, team)})`);
+    }
+    data.pinned_team[matches[0]] = team + 1;
+  }
+  return data;
+}
+
+/**
+ * Find pins that can never be satisfied: teams that are not being picked,
+ * more pinned players than a team can hold, and pins that contradict the
+ * pairing rules. Returns one message per problem.
+ */
+export function findPinConflicts(data: ModelData & { players: Player[] }): string[] {
+  const conflicts: string[] = [];
+  const { players, num_teams: numTeams, pinned_team: pinned } = data;
+  const nameOf = (p: number) => players[p - 1].name;
+  const teamOf = (p: number) => pinnedTeamName(pinned[p - 1] - 1);
+
+  players.forEach((player, idx) => {
+    if (pinned[idx] > numTeams) {
+      conflicts.push(
+        `Pin (${describePin(player.name, pinned[idx] - 1)}) names a team that is not being picked: ` +
+        `only ${numTeams} teams`
+      );
+    }
+  });
+
+  const maxTeamSize = teamSizeRange(players.length, numTeams, data.size_tolerance).max;
+  for (let t = 1; t <= numTeams; t++) {
+    const count = pinned.filter((team) => team === t).length;
+    if (count > maxTeamSize) {
+      conflicts.push(
+        `${count} players are pinned to ${pinnedTeamName(t - 1)}, ` +
+        `but teams can have at most ${maxTeamSize} players`
+      );
+    }
+  }
+
+  for (let i = 0; i < data.num_together; i++) {
+    const [a, b] = [data.together_a[i], data.together_b[i]];
+    if (pinned[a - 1] > 0 && pinned[b - 1] > 0 && pinned[a - 1] !== pinned[b - 1]) {
+      conflicts.push(
+        `${nameOf(a)} and ${nameOf(b)} must share a team, but are pinned to ${teamOf(a)} and ${teamOf(b)}`
+      );
+    }
+  }
+  for (let i = 0; i < data.num_apart; i++) {
+    const [a, b] = [data.apart_a[i], data.apart_b[i]];
+    if (pinned[a - 1] > 0 && pinned[a - 1] === pinned[b - 1]) {
+      conflicts.push(`${nameOf(a)} and ${nameOf(b)} must be kept apart, but are both pinned to ${teamOf(a)}`);
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Merge extra pins into parsed model data (they win over the CSV's `team`
+ * column), rebuild the per-player array and mark the pinned players.
+ * Returns the conflicts found for the merged pins; apply pairing rules first.
+ */
+export function applyTeamPins(data: ModelData & { players: Player[] }, extra: TeamPins): string[] {
+  const pins = { ...data.pins, ...extra };
+  Object.assign(data, { pins }, buildPinData(data.players, pins));
+  data.players.forEach((player, idx) => {
+    if (data.pinned_team[idx] > 0) player.pinned = true;
+    else delete player.pinned;
+  });
+  return findPinConflicts(data);
+}
+
+/**
+ * Which players were pinned (with their team) and which the solver placed
+ */
+export function summarizePins(data: ModelData & { players: Player[] }): PinSummary {
+  const summary: PinSummary = { pinned: {}, optimised: [] };
+  data.players.forEach((player, idx) => {
+    const team = data.pinned_team[idx];
+    if (team > 0) summary.pinned[player.name] = pinnedTeamName(team - 1);
+    else summary.optimised.push(player.name);
+  });
+  return summary;
+}
@@ -0,0 +1,150 @@
+/**
+ * Hard per-team position quotas (e.g. exactly one goalkeeper per team)
+ */
+
+import { POSITIONS, NUM_POSITIONS, type PositionName } from './constants.js';
+import type {
+  Player,
+  ModelData,
+  PositionQuota,
+  PositionQuotas,
+  QuotaData,
+} from '../solver/types.js';
+
+/**
+ * Positions that can carry a quota (everything except "unknown")
+ */
+export function quotaPositions(): PositionName[] {
+  return (Object.keys(POSITIONS) as PositionName[]).filter((p) => POSITIONS[p].index > 0);
+}
+
+/**
+ * Validate an untrusted `{ position: { min, max } }` object (API body)
+ */
+export function parsePositionQuotas(value: unknown): PositionQuotas {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Position quotas must be an object like { "goalkeeper": { "min": 1, "max": 1 } }');
+  }
+
+  const quotas: PositionQuotas = {};
+  for (const [position, raw] of Object.entries(value as Record<string, unknown>)) {
+    const name = position.trim().toLowerCase();
+    if (!quotaPositions().includes(name as PositionName)) {
+      throw new Error(`Unknown position "${position}" in quotas. Available: ${quotaPositions().join(', ')}`);
+    }
+    if (!raw || typeof raw !== 'object') {
+      throw new Error(`Quota for "${position}" must be an object with "min" and/or "max"`);
+    }
+    const { min, max } = raw as Record<string, unknown>;
+    quotas[name] = validateQuota(name, {
+      min: min === undefined ? undefined : Number(min),
+      max: max === undefined ? undefined : Number(max),
+    });
+  }
+  return quotas;
+}
+
+/**
+ * Parse a CLI quota spec: "goalkeeper=1" (exactly), "defense=4:" (at least),
+ * "forward=:5" (at most) or "midfield=3:5"
+ */
+export function parseQuotaSpec(spec: string, quotas: PositionQuotas = {}): PositionQuotas {
+  const match = spec.match(/^\s*([a-z]+)\s*=\s*(\d*)\s*(?::\s*(\d*))?\s*$/i);
+  if (!match) {
+    throw new Error(`Invalid quota "${spec}". Use position=min:max, e.g. goalkeeper=1:1 or defense=4:`);
+  }
+  const [, position, minRaw, maxRaw] = match;
+  const min = minRaw === '' ? undefined : Number(minRaw);
+  // No colon means an exact count
+  const max = maxRaw === undefined ? min : maxRaw === '' ? undefined : Number(maxRaw);
+  return { ...quotas, ...parsePositionQuotas({ [position]: { min, max } }) };
+}
+
+function validateQuota(position: string, quota: PositionQuota): PositionQuota {
+  for (const key of ['min', 'max'] as const) {
+    const value = quota[key];
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new Error(`Quota ${key} for "${position}" must be a non-negative integer`);
+    }
+  }
+  if (quota.min !== undefined && quota.max !== undefined && quota.min > quota.max) {
+    throw new Error(`Quota for "${position}" has min ${quota.min} greater than max ${quota.max}`);
+  }
+  return quota;
+}
+
+/**
+ * Human-readable description of a quota, used in summaries and error reports
+ */
+export function describeQuota(position: string, quota: PositionQuota): string {
+  const { min, max } = quota;
+  if (min !== undefined && min === max) return `${position}: exactly ${min} per team`;
+  if (min !== undefined && max !== undefined) return `${position}: ${min}-${max} per team`;
+  if (min !== undefined) return `${position}: at least ${min} per team`;
+  if (max !== undefined) return `${position}: at most ${max} per team`;
+  return `${position}: no limit`;
+}
+
+/**
+ * Flatten quotas into per-position arrays for the MiniZinc models.
+ * Unset bounds default to 0 and num_players (no limit).
+ */
+export function buildQuotaData(numPlayers: number, quotas: PositionQuotas): QuotaData {
+  const data: QuotaData = {
+    position_min: Array(NUM_POSITIONS).fill(0),
+    position_max: Array(NUM_POSITIONS).fill(numPlayers),
+  };
+  for (const [position, quota] of Object.entries(quotas)) {
+    const index = POSITIONS[position as PositionName]?.index;
+    if (!index || !quota) continue;
+    if (quota.min !== undefined) data.position_min[index - 1] = quota.min;
+    if (quota.max !== undefined) data.position_max[index - 1] = quota.max;
+  }
+  return data;
+}
+
+/**
+ * Find quotas the roster can never meet. Returns one message per offending quota.
+ */
+export function findQuotaConflicts(
+  players: Player[],
+  quotas: PositionQuotas,
+  numTeams: number
+): string[] {
+  const conflicts: string[] = [];
+  for (const [position, quota] of Object.entries(quotas)) {
+    if (!quota) continue;
+    // Multi-position players can cover a minimum, but only players with no
+    // other option count against a maximum
+    const eligible = players.filter((p) => (p.positions ?? [p.position]).includes(position)).length;
+    const onlyOption = players.filter((p) => (p.positions ?? [p.position]).every((q) => q === position)).length;
+    if (quota.min !== undefined && quota.min * numTeams > eligible) {
+      conflicts.push(
+        `Quota (${describeQuota(position, quota)}) needs ${quota.min * numTeams} ${position} players ` +
+        `across ${numTeams} teams, but only ${eligible} on the roster can play there`
+      );
+    }
+    if (quota.max !== undefined && quota.max * numTeams < onlyOption) {
+      conflicts.push(
+        `Quota (${describeQuota(position, quota)}) leaves room for ${quota.max * numTeams} ${position} players ` +
+        `across ${numTeams} teams, but ${onlyOption} on the roster play nowhere else`
+      );
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Set quotas on parsed model data and rebuild the per-position arrays.
+ * Returns the conflicts found for the quotas.
+ */
+export function applyPositionQuotas(
+  data: ModelData & { players: Player[] },
+  quotas: PositionQuotas
+): string[] {
+  Object.assign(data, { quotas }, buildQuotaData(data.num_players, quotas));
+  return findQuotaConflicts(data.players, quotas, data.num_teams);
+}
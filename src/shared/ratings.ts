@@ -0,0 +1,238 @@
+/**
+ * Elo-style rating updates: the score of a game played with a split moves
+ * each player's skill by how much better or worse their team did than the
+ * team averages predicted
+ */
+
+import {
+  DEFAULT_K_FACTOR,
+  MAX_K_FACTOR,
+  ELO_SCALE,
+  MIN_RATING,
+  MAX_RATING,
+} from './constants.js';
+import { findPlayer } from './roster.js';
+import { findSession, parseSessionDate, today } from './sessions.js';
+import type {
+  GameResult,
+  PlayerStore,
+  SessionPlayer,
+  StoredPlayer,
+} from '../solver/types.js';
+
+/**
+ * A validated game to record: the teams as played and their scores
+ */
+export interface GameInput {
+  date: string;
+  sessionId?: string;
+  teams: SessionPlayer[][];
+  scores: number[];
+  kFactor: number;
+}
+
+/**
+ * A player's skill: the decimal rating moved by results, or their rating
+ * before any game was recorded
+ */
+export function playerSkill(player: StoredPlayer): number {
+  return player.skill ?? player.rating;
+}
+
+export function parseKFactor(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_K_FACTOR;
+  }
+  const k = Number(value);
+  if (!Number.isFinite(k) || k <= 0 || k > MAX_K_FACTOR) {
+    throw new Error(`K-factor must be a number above 0 and at most ${MAX_K_FACTOR}`);
+  }
+  return k;
+}
+
+/**
+ * Validate team scores: an array of numbers or "3,1" from the CLI
+ */
+export function parseScores(value: unknown): number[] {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  const scores = raw?.map((score) => (typeof score === 'string' && score.trim() === '' ? NaN : Number(score)));
+  if (!scores || scores.length < 2 || scores.some((score) => !Number.isFinite(score) || score < 0)) {
+    throw new Error('"scores" must list a score of 0 or more for every team, e.g. [3, 1]');
+  }
+  return scores;
+}
+
+/**
+ * Chance that a team of average skill `strength` beats one of `opponent`
+ */
+export function expectedScore(strength: number, opponent: number): number {
+  return 1 / (1 + 10 ** ((opponent - strength) / ELO_SCALE));
+}
+
+/**
+ * Skill change for each team's players. Every pair of teams counts as one
+ * game (win 1, draw 0.5, loss 0), averaged over a team's opponents, so
+ * splits into more than two teams are handled too.
+ */
+export function teamRatingChanges(strengths: number[], scores: number[], kFactor: number): number[] {
+  return strengths.map((strength, t) => {
+    let surprise = 0;
+    strengths.forEach((opponent, o) => {
+      if (o === t) return;
+      const actual = scores[t] > scores[o] ? 1 : scores[t] === scores[o] ? 0.5 : 0;
+      surprise += actual - expectedScore(strength, opponent);
+    });
+    return (kFactor * surprise) / (strengths.length - 1);
+  });
+}
+
+/**
+ * Validate an untrusted game. The teams come from a session's recorded split
+ * (`sessionId`, with `split` numbered from 1, default the latest) or are
+ * given as arrays of player IDs (`teams`).
+ */
+export function parseGameInput(store: PlayerStore, value: unknown): GameInput {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Game must be an object like { "sessionId": "s1", "scores": [3, 1] }');
+  }
+  const { sessionId, split, teams: teamIds, scores: scoresRaw, kFactor, date } = value as Record<string, unknown>;
+
+  let teams: SessionPlayer[][];
+  let sessionDate: string | undefined;
+  if (sessionId !== undefined) {
+    if (teamIds !== undefined) {
+      throw new Error('Send either sessionId or teams, not both');
+    }
+    const session = findSession(store, String(sessionId));
+    if (!session) {
+      throw new Error(`Unknown session: ${sessionId}`);
+    }
+    if (session.splits.length === 0) {
+      throw new Error(`Session ${session.id} has no recorded split to score`);
+    }
+    const index = split === undefined ? session.splits.length : Number(split);
+    if (!Number.isInteger(index) || index < 1 || index > session.splits.length) {
+      throw new Error(`"split" must be a number from 1 to ${session.splits.length} for session ${session.id}`);
+    }
+    teams = session.splits[index - 1].teams;
+    sessionDate = session.date;
+  } else if (Array.isArray(teamIds)) {
+    teams = teamIds.map((team) => {
+      if (!Array.isArray(team) || team.length === 0) {
+        throw new Error('"teams" must list the player IDs of every team, e.g. [["p1", "p2"], ["p3", "p4"]]');
+      }
+      return team.map((id) => {
+        const player = findPlayer(store, String(id));
+        if (!player) {
+          throw new Error(`Unknown player ID: ${id}`);
+        }
+        return { id: player.id, name: player.name };
+      });
+    });
+  } else {
+    throw new Error('Send sessionId (to score a recorded split) or teams (arrays of player IDs)');
+  }
+
+  if (teams.length < 2) {
+    throw new Error('A game needs at least two teams');
+  }
+  const ids = teams.flat().map((p) => p.id);
+  const repeated = ids.filter((id, i) => ids.indexOf(id) !== i);
+  if (repeated.length > 0) {
+    throw new Error(`Player(s) on more than one team: ${[...new Set(repeated)].join(', ')}`);
+  }
+  const scores = parseScores(scoresRaw);
+  if (scores.length !== teams.length) {
+    throw new Error(`Got ${scores.length} scores for ${teams.length} teams`);
+  }
+
+  return {
+    date: date !== undefined ? parseSessionDate(date) : sessionDate ?? today(),
+    ...(sessionId !== undefined ? { sessionId: String(sessionId) } : {}),
+    teams,
+    scores,
+    kFactor: parseKFactor(kFactor),
+  };
+}
+
+// Skills are kept to two decimals and within the rating range
+function roundSkill(skill: number): number {
+  return Math.round(Math.min(MAX_RATING, Math.max(MIN_RATING, skill)) * 100) / 100;
+}
+
+/**
+ * Record a game and update the skill, whole rating and rating history of
+ * every player on it who is still in the store. Team strength is the
+ * average skill of those players.
+ */
+export function recordGame(store: PlayerStore, input: GameInput): GameResult {
+  const rosters = input.teams.map((team) =>
+    team.map((p) => findPlayer(store, p.id)).filter((p): p is StoredPlayer => p !== undefined));
+  const empty = rosters.findIndex((team) => team.length === 0);
+  if (empty !== -1) {
+    throw new Error(`No player of team ${empty + 1} is still in the player store`);
+  }
+
+  const strengths = rosters.map((team) => team.reduce((sum, p) => sum + playerSkill(p), 0) / team.length);
+  const deltas = teamRatingChanges(strengths, input.scores, input.kFactor);
+  const now = new Date().toISOString();
+  const game: GameResult = {
+    id: `g${store.nextGameId++}`,
+    date: input.date,
+    ...(input.sessionId ? { sessionId: input.sessionId } : {}),
+    teams: input.teams,
+    scores: input.scores,
+    kFactor: input.kFactor,
+    changes: [],
+    createdAt: now,
+  };
+
+  rosters.forEach((team, t) => team.forEach((player) => {
+    const before = playerSkill(player);
+    const after = roundSkill(before + deltas[t]);
+    player.skill = after;
+    player.rating = Math.round(after);
+    player.ratingHistory = [
+      ...(player.ratingHistory ?? []),
+      { game: game.id, date: game.date, before, after, rating: player.rating },
+    ];
+    player.updatedAt = now;
+    game.changes.push({ id: player.id, before, after });
+  }));
+
+  store.games.push(game);
+  return game;
+}
+
+/**
+ * Summary of how a player's rating has moved over the recorded games
+ */
+export interface RatingTrend {
+  id: string;
+  name: string;
+  rating: number;
+  skill: number;
+  games: number;
+  /** Skill before the first recorded game */
+  start: number;
+  /** Skill change since then */
+  change: number;
+  /** Skill after each of the last few games, oldest first */
+  recent: number[];
+}
+
+export function ratingTrend(player: StoredPlayer, recentGames: number = 5): RatingTrend {
+  const history = player.ratingHistory ?? [];
+  const skill = playerSkill(player);
+  const start = history[0]?.before ?? skill;
+  return {
+    id: player.id,
+    name: player.name,
+    rating: player.rating,
+    skill,
+    games: history.length,
+    start,
+    change: Math.round((skill - start) * 100) / 100,
+    recent: history.slice(-recentGames).map((change) => change.after),
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Minimal-change rebalancing: re-split a roster after late arrivals or
+ * withdrawals while moving as few players of the previous split as possible
+ */
+
+import { parseTeamLabel } from './pins.js';
+import { teamName } from './utils.js';
+import type {
+  ModelData,
+  Player,
+  PlayerMove,
+  PreviousPlacement,
+  RebalanceData,
+  RebalanceSummary,
+  TrainingSession,
+} from '../solver/types.js';
+
+// One player of a previous team: a name, or an object with a name and/or ID
+function parsePlacement(entry: unknown, team: number): PreviousPlacement {
+  if (typeof entry === 'string' && entry.trim()) {
+    return { name: entry.trim(), team };
+  }
+  const { name, id } = (entry ?? {}) as Record<string, unknown>;
+  if (typeof name === 'string' && name.trim()) {
+    return { name: name.trim(), ...(typeof id === 'string' && id ? { id } : {}), team };
+  }
+  if (typeof id === 'string' && id) {
+    return { name: id, id, team };
+  }
+  throw new Error('Players of a previous split must be names or objects with a "name" or "id"');
+}
+
+/**
+ * Validate a previous split (API body or --previous file). Accepted forms:
+ * an array of teams listing player names or `{ name, id }` objects (e.g. the
+ * `teams` of an earlier /api/solve response), a team sheet (`{ teams: [{ players }] }`),
+ * or an object mapping player names to teams (`{ "Aoife Kelly": "A" }`).
+ */
+export function parsePreviousSplit(value: unknown): PreviousPlacement[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const teams = Array.isArray(value) ? value : (value as Record<string, unknown>).teams;
+  if (Array.isArray(teams)) {
+    return teams.flatMap((team, t) => {
+      const players = Array.isArray(team) ? team : (team as Record<string, unknown> | null)?.players;
+      if (!Array.isArray(players)) {
+        throw new Error(`Team ${t + 1} of the previous split must list its players`);
+      }
+      return players.map((entry) => parsePlacement(entry, t));
+    });
+  }
+  if (typeof value !== 'object') {
+    throw new Error('Previous split must be an array of teams or an object like { "Aoife Kelly": "A" }');
+  }
+  return Object.entries(value as Record<string, unknown>).map(([name, label]) => {
+    const team = parseTeamLabel(label);
+    if (team === null) {
+      throw new Error(`Invalid team "${label}" for ${name} in the previous split`);
+    }
+    return { name: name.trim(), team };
+  });
+}
+
+/**
+ * Validate a cap on moves (undefined when there is none)
+ */
+export function parseMaxMoves(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const moves = typeof value === 'number' ? value : Number(String(value).trim());
+  if (!Number.isInteger(moves) || moves < 0) {
+    throw new Error('Maximum moves must be a non-negative integer');
+  }
+  return moves;
+}
+
+/**
+ * The latest split recorded for a session, as a previous split
+ */
+export function sessionPreviousSplit(session: TrainingSession): PreviousPlacement[] {
+  const split = session.splits[session.splits.length - 1];
+  if (!split) {
+    throw new Error(`Session ${session.id} has no recorded split to rebalance`);
+  }
+  return split.teams.flatMap((team, t) => team.map((p) => ({ name: p.name, ...(p.id ? { id: p.id } : {}), team: t })));
+}
+
+/**
+ * Roster index of a previous player: by stored ID when the roster has it,
+ * otherwise by name (ignoring case). -1 for a player no longer in the roster.
+ */
+export function findPlacedPlayer(
+  players: Player[],
+  placement: PreviousPlacement,
+  source: string = 'the previous split'
+): number {
+  const byId = placement.id ? players.findIndex((p) => p.id === placement.id) : -1;
+  if (byId !== -1) return byId;
+  const matches = players
+    .map((p, idx) => (p.name.toLowerCase() === placement.name.toLowerCase() ? idx : -1))
+    .filter((idx) => idx !== -1);
+  if (matches.length > 1) {
+    throw new Error(`Player name "${placement.name}" in ${source} is ambiguous`);
+  }
+  return matches[0] ?? -1;
+}
+
+/**
+ * Flatten a previous split into the models' per-player array. Players of the
+ * previous split who are not in the roster have withdrawn and are ignored.
+ */
+export function buildRebalanceData(
+  players: Player[],
+  previous: PreviousPlacement[],
+  maxMoves?: number
+): RebalanceData {
+  const data: RebalanceData = { previous_team: players.map(() => 0), max_moves: maxMoves ?? players.length };
+  for (const placement of previous) {
+    const idx = findPlacedPlayer(players, placement);
+    if (idx === -1) continue;
+    if (data.previous_team[idx] > 0 && data.previous_team[idx] !== placement.team + 1) {
+      throw new Error(`${players[idx].name} is on more than one team in the previous split`);
+    }
+    data.previous_team[idx] = placement.team + 1;
+  }
+  return data;
+}
+
+/**
+ * Find a cap on moves that can never be met: players whose previous team is
+ * no longer picked, or who are pinned elsewhere, have to move
+ */
+export function findRebalanceConflicts(data: ModelData & { players: Player[] }): string[] {
+  const forced = data.players.filter((_, idx) => {
+    const previous = data.previous_team[idx];
+    const pinned = data.pinned_team?.[idx] ?? 0;
+    return previous > 0 && (previous > data.num_teams || (pinned > 0 && pinned !== previous));
+  });
+  if (forced.length > data.max_moves) {
+    return [
+      `At most ${data.max_moves} player(s) may move, but ${forced.length} have to ` +
+      `(their previous team is not being picked or they are pinned to another): ` +
+      forced.map((p) => p.name).join(', '),
+    ];
+  }
+  return [];
+}
+
+/**
+ * Set the previous split and move cap on parsed model data. Returns the
+ * conflicts found; apply pins first.
+ */
+export function applyRebalance(
+  data: ModelData & { players: Player[] },
+  previous: PreviousPlacement[],
+  maxMoves?: number
+): string[] {
+  Object.assign(data, { previous }, buildRebalanceData(data.players, previous, maxMoves));
+  return findRebalanceConflicts(data);
+}
+
+/**
+ * Players of the previous split placed on a different team
+ */
+export function countMoves(data: Pick<ModelData, 'previous_team'>, assignment: number[]): number {
+  return assignment.filter((team, p) => {
+    const previous = data.previous_team?.[p] ?? 0;
+    return previous > 0 && team !== previous - 1;
+  }).length;
+}
+
+/**
+ * Who moved, who joined and who withdrew, for a rebalanced split
+ */
+export function summarizeRebalance(
+  data: ModelData & { players: Player[] },
+  assignment: number[]
+): RebalanceSummary {
+  const summary: RebalanceSummary = {
+    moves: [],
+    joined: [],
+    withdrawn: (data.previous ?? [])
+      .filter((placement) => findPlacedPlayer(data.players, placement) === -1)
+      .map((placement) => placement.name),
+    ...(data.max_moves < data.num_players ? { maxMoves: data.max_moves } : {}),
+  };
+  data.players.forEach((player, p) => {
+    const previous = data.previous_team[p];
+    if (assignment[p] === undefined) return;
+    if (previous === 0) {
+      summary.joined.push({ name: player.name, to: teamName(assignment[p]) });
+    } else if (assignment[p] !== previous - 1) {
+      summary.moves.push({ name: player.name, from: teamName(previous - 1), to: teamName(assignment[p]) });
+    }
+  });
+  return summary;
+}
+
+/**
+ * One line per change, e.g. "Aoife Kelly → Team B (from Team A)"
+ */
+export function describeMove(move: PlayerMove): string {
+  return move.from ? `${move.name} → ${move.to} (from ${move.from})` : `${move.name} → ${move.to} (new)`;
+}
@@ -0,0 +1,223 @@
+/**
+ * Player store operations: validating player input, create / update /
+ * remove on a loaded store, and CSV import and export
+ */
+
+import { POSITION_SEPARATOR, MIN_RATING, MAX_RATING, type PositionName } from './constants.js';
+import { formatCSV } from './csv.js';
+import { normalizePosition, parseCSV } from './utils.js';
+import type {
+  CSVReport,
+  Player,
+  PlayerImport,
+  PlayerStore,
+  StoredPlayer,
+} from '../solver/types.js';
+
+/**
+ * Fields of a player that can be set through the API or CLI
+ */
+export type PlayerInput = Pick<StoredPlayer, 'name' | 'rating' | 'position' | 'positions' | 'notes'>;
+
+export function emptyPlayerStore(): PlayerStore {
+  return { version: 1, nextId: 1, players: [], nextSessionId: 1, sessions: [], nextGameId: 1, games: [] };
+}
+
+/**
+ * Validate a parsed player store file
+ */
+export function parsePlayerStore(value: unknown): PlayerStore {
+  const store = value as PlayerStore;
+  if (!store || typeof store !== 'object' || !Array.isArray(store.players) || !Number.isInteger(store.nextId)) {
+    throw new Error('Not a player store (expected an object with "players" and "nextId")');
+  }
+  // Stores written before sessions or games existed have none
+  store.sessions ??= [];
+  store.nextSessionId ??= 1;
+  store.games ??= [];
+  store.nextGameId ??= 1;
+  return store;
+}
+
+/**
+ * Validate positions given as "midfield|forward" or ["midfield", "forward"],
+ * preferred first. Aliases such as "keeper" are accepted.
+ */
+function parsePositions(value: unknown): PositionName[] {
+  const raw = Array.isArray(value) ? value.map(String) : String(value).split(POSITION_SEPARATOR);
+  const positions: PositionName[] = [];
+  for (const entry of raw.map((p) => p.trim()).filter(Boolean)) {
+    const position = normalizePosition(entry);
+    if (!position) {
+      throw new Error(`Unknown position "${entry}"`);
+    }
+    if (!positions.includes(position)) {
+      positions.push(position);
+    }
+  }
+  return positions;
+}
+
+/**
+ * Validate untrusted player fields (API body or CLI flags). With `partial`
+ * only the fields present are checked, for updates.
+ */
+export function parsePlayerInput(value: unknown, partial: boolean = false): Partial<PlayerInput> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Player must be an object like { "name": "Aoife Kelly", "rating": 7, "position": "midfield" }');
+  }
+  const { name, rating, position, positions, notes } = value as Record<string, unknown>;
+  const input: Partial<PlayerInput> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error('"name" is required');
+    }
+    input.name = name.trim();
+  }
+
+  if (rating !== undefined || !partial) {
+    const value = typeof rating === 'string' && rating.trim() !== '' ? Number(rating) : rating;
+    if (!Number.isInteger(value) || (value as number) < MIN_RATING || (value as number) > MAX_RATING) {
+      throw new Error(`"rating" must be a whole number from ${MIN_RATING} to ${MAX_RATING}`);
+    }
+    input.rating = value as number;
+  }
+
+  // "positions" lists every position; "position" alone may also hold several
+  const listed = positions ?? position;
+  if (listed !== undefined && listed !== null) {
+    const parsed = parsePositions(listed).filter((p) => p !== 'unknown');
+    input.position = parsed[0] ?? 'unknown';
+    input.positions = parsed.length > 1 ? parsed : undefined;
+  } else if (!partial) {
+    input.position = 'unknown';
+  }
+
+  if (notes !== undefined) {
+    if (notes !== null && typeof notes !== 'string') {
+      throw new Error('"notes" must be a string');
+    }
+    input.notes = notes?.trim() || undefined;
+  }
+
+  return input;
+}
+
+export function findPlayer(store: PlayerStore, id: string): StoredPlayer | undefined {
+  return store.players.find((p) => p.id === id);
+}
+
+// Keep optional fields out of the stored JSON when they are empty
+function withoutEmptyFields(player: StoredPlayer): StoredPlayer {
+  if (!player.positions) delete player.positions;
+  if (!player.notes) delete player.notes;
+  return player;
+}
+
+/**
+ * Add a player with the next free ID
+ */
+export function addPlayer(store: PlayerStore, input: PlayerInput): StoredPlayer {
+  const now = new Date().toISOString();
+  const player = withoutEmptyFields({ id: `p${store.nextId++}`, ...input, createdAt: now, updatedAt: now });
+  store.players.push(player);
+  return player;
+}
+
+/**
+ * Change some of a player's fields. Returns undefined for an unknown ID.
+ */
+export function updatePlayer(
+  store: PlayerStore,
+  id: string,
+  changes: Partial<PlayerInput>
+): StoredPlayer | undefined {
+  const player = findPlayer(store, id);
+  if (!player) return undefined;
+  // A rating set by hand replaces the skill built up from results; the same
+  // rating (e.g. re-importing an export) keeps it
+  if (changes.rating !== undefined && player.skill !== undefined && Math.round(player.skill) !== changes.rating) {
+    delete player.skill;
+  }
+  Object.assign(player, changes, { updatedAt: new Date().toISOString() });
+  return withoutEmptyFields(player);
+}
+
+/**
+ * Remove a player. Returns the removed player, or undefined for an unknown ID.
+ */
+export function removePlayer(store: PlayerStore, id: string): StoredPlayer | undefined {
+  const index = store.players.findIndex((p) => p.id === id);
+  return index === -1 ? undefined : store.players.splice(index, 1)[0];
+}
+
+/**
+ * Stored players by ID, in the order given (every player for "all").
+ * Throws for IDs that are not in the store.
+ */
+export function selectStoredPlayers(store: PlayerStore, ids: unknown): StoredPlayer[] {
+  if (ids === 'all') {
+    return store.players;
+  }
+  if (!Array.isArray(ids) || ids.length === 0) {
+    throw new Error('"playerIds" must be "all" or a non-empty array of player IDs');
+  }
+  const unknown = ids.filter((id) => !findPlayer(store, String(id)));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown player ID(s): ${unknown.join(', ')}`);
+  }
+  return [...new Set(ids.map(String))].map((id) => findPlayer(store, id)!);
+}
+
+/**
+ * Stored players as CSV (id, name, rating, position, notes) that parseCSV
+ * and importPlayersCSV read back
+ */
+export function formatPlayersCSV(players: StoredPlayer[]): string {
+  return formatCSV([
+    ['id', 'name', 'rating', 'position', 'notes'],
+    ...players.map((p) => [p.id, p.name, p.rating, (p.positions ?? [p.position]).join(POSITION_SEPARATOR), p.notes]),
+  ]);
+}
+
+/**
+ * Import a roster CSV into the store. Rows whose `id` is in the store update
+ * that player, rows matching a stored name (ignoring case) update them too,
+ * and the rest are added. With `replace` the store is emptied first (IDs are
+ * still never reused).
+ */
+export function importPlayersCSV(
+  store: PlayerStore,
+  csvText: string,
+  replace: boolean = false
+): PlayerImport & { report: CSVReport } {
+  const { players, report } = parseCSV(csvText);
+  if (replace) {
+    store.players = [];
+  }
+
+  const result: PlayerImport = { created: [], updated: [], skipped: [] };
+  for (const player of players as Player[]) {
+    let input: PlayerInput;
+    try {
+      input = parsePlayerInput({ ...player, positions: player.positions ?? [player.position] }) as PlayerInput;
+    } catch (error) {
+      result.skipped.push(`${player.name}: ${(error as Error).message}`);
+      continue;
+    }
+    // A CSV without notes leaves stored notes alone
+    if (player.notes) {
+      input.notes = player.notes;
+    }
+
+    const existing = (player.id && findPlayer(store, player.id)) ||
+      store.players.find((p) => p.name.toLowerCase() === input.name.toLowerCase());
+    if (existing) {
+      result.updated.push(updatePlayer(store, existing.id, input)!);
+    } else {
+      result.created.push(addPlayer(store, input));
+    }
+  }
+  return { ...result, report };
+}
@@ -0,0 +1,220 @@
+/**
+ * Scenario manifests: metadata, required data and output schema for a
+ * MiniZinc model, and checks of solver output against that schema
+ */
+
+import {
+  SCENARIOS,
+  OUTPUT_FIELD_TYPES,
+  DEFAULT_SIZE_TOLERANCE,
+  DEFAULT_TIME_LIMIT,
+  type OutputFieldType,
+  type ScenarioId,
+} from './constants.js';
+import { parseSolveParameters, WEIGHT_FIELDS } from './parameters.js';
+import type {
+  ModelData,
+  ObjectiveWeights,
+  ScenarioDefinition,
+  SolveParameters,
+  SolverResult,
+  TeamAssignment,
+} from '../solver/types.js';
+
+/**
+ * Data fields the app passes to every model. A manifest may only require these.
+ */
+export const MODEL_DATA_FIELDS: (keyof ModelData)[] = [
+  'num_players',
+  'num_teams',
+  'ratings',
+  'position_indices',
+  'eligible',
+  'num_attributes',
+  'attribute_values',
+  'attribute_weights',
+  'num_categories',
+  'category_sizes',
+  'category_indices',
+  'category_hard',
+  'category_weights',
+  'num_repeat_pairs',
+  'repeat_a',
+  'repeat_b',
+  'repeat_costs',
+  'num_together',
+  'together_a',
+  'together_b',
+  'num_apart',
+  'apart_a',
+  'apart_b',
+  'pinned_team',
+  'previous_team',
+  'max_moves',
+  'position_min',
+  'position_max',
+  'num_excluded',
+  'excluded_assignments',
+  'rating_weight',
+  'position_weight',
+  'position_rating_weight',
+  'size_tolerance',
+];
+
+/**
+ * Defaults for a manifest that leaves parameters out. The tunable weights are
+ * those whose data fields the model requires, all 0 until the manifest sets
+ * them; attribute weights are tunable when it requires attribute_weights.
+ */
+function manifestParameters(requiredData: (keyof ModelData)[]): SolveParameters {
+  const weights: Partial<ObjectiveWeights> = {};
+  for (const [key, field] of Object.entries(WEIGHT_FIELDS) as [keyof ObjectiveWeights, keyof ModelData][]) {
+    if (requiredData.includes(field)) weights[key] = 0;
+  }
+  return {
+    weights,
+    ...(requiredData.includes('attribute_weights') ? { attributeWeights: {} } : {}),
+    sizeTolerance: DEFAULT_SIZE_TOLERANCE,
+    timeLimit: DEFAULT_TIME_LIMIT,
+  };
+}
+
+// "all" is taken by the CLI to mean every scenario
+const SCENARIO_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * Validate a parsed <name>.scenario.json manifest for `modelFile`
+ */
+export function parseScenarioManifest(value: unknown, modelFile: string): ScenarioDefinition {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Manifest must be a JSON object');
+  }
+  const { id, name, description = '', requiredData = [], output, parameters } =
+    value as Record<string, unknown>;
+
+  if (typeof id !== 'string' || !SCENARIO_ID_PATTERN.test(id) || id === 'all') {
+    throw new Error('"id" must be letters, digits, "_" or "-" (and not "all")');
+  }
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new Error('"name" is required');
+  }
+  if (typeof description !== 'string') {
+    throw new Error('"description" must be a string');
+  }
+
+  if (!Array.isArray(requiredData)) {
+    throw new Error('"requiredData" must be an array of data field names');
+  }
+  for (const field of requiredData) {
+    if (!MODEL_DATA_FIELDS.includes(field)) {
+      throw new Error(
+        `Required data field "${field}" is not provided. Available: ${MODEL_DATA_FIELDS.join(', ')}`
+      );
+    }
+  }
+
+  if (!output || typeof output !== 'object' || Array.isArray(output)) {
+    throw new Error('"output" must map each solution field to a type, e.g. { "assignment": "int[]" }');
+  }
+  for (const [field, type] of Object.entries(output)) {
+    if (!OUTPUT_FIELD_TYPES.includes(type)) {
+      throw new Error(`Output field "${field}" has unknown type "${type}". Available: ${OUTPUT_FIELD_TYPES.join(', ')}`);
+    }
+  }
+  if ((output as Record<string, unknown>).assignment !== 'int[]') {
+    throw new Error('"output" must declare "assignment": "int[]" (team number per player)');
+  }
+
+  let defaults: SolveParameters;
+  try {
+    defaults = parseSolveParameters(parameters, manifestParameters(requiredData as (keyof ModelData)[]));
+  } catch (error) {
+    throw new Error(`"parameters": ${(error as Error).message}`);
+  }
+
+  const bundled = SCENARIOS[id as ScenarioId];
+  return {
+    id,
+    name,
+    description,
+    modelFile,
+    requiredData: requiredData as (keyof ModelData)[],
+    output: output as Record<string, OutputFieldType>,
+    parameters: defaults,
+    builtin: bundled !== undefined && bundled.modelFile === modelFile,
+  };
+}
+
+/**
+ * The bundled scenario a definition runs, or null for a custom model
+ */
+export function bundledScenarioId(scenario: ScenarioDefinition): ScenarioId | null {
+  return scenario.builtin ? (scenario.id as ScenarioId) : null;
+}
+
+/**
+ * Required data fields missing from `data`
+ */
+export function findMissingModelData(scenario: ScenarioDefinition, data: ModelData): string[] {
+  return scenario.requiredData.filter((field) => data[field] === undefined);
+}
+
+function matchesType(value: unknown, type: OutputFieldType): boolean {
+  if (type.endsWith('[]')) {
+    const element = type.slice(0, -2) as OutputFieldType;
+    return Array.isArray(value) && value.every((v) => matchesType(v, element));
+  }
+  switch (type) {
+    case 'int':
+      return Number.isInteger(value);
+    case 'float':
+      return typeof value === 'number';
+    case 'bool':
+      return typeof value === 'boolean';
+    default:
+      return typeof value === 'string';
+  }
+}
+
+/**
+ * Check a solution against the scenario's output schema. Returns one
+ * message per missing or mistyped field.
+ */
+export function validateScenarioOutput(
+  scenario: ScenarioDefinition,
+  solution: TeamAssignment
+): string[] {
+  const problems: string[] = [];
+  const values = solution as unknown as Record<string, unknown>;
+  for (const [field, type] of Object.entries(scenario.output)) {
+    if (values[field] === undefined) {
+      problems.push(`missing "${field}"`);
+    } else if (!matchesType(values[field], type)) {
+      problems.push(`"${field}" should be ${type}, got ${JSON.stringify(values[field])}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Turn a result whose solution breaks the output schema into an ERROR, so
+ * callers never build rosters from malformed model output
+ */
+export function checkScenarioOutput(scenario: ScenarioDefinition, result: SolverResult): SolverResult {
+  const solutions = [
+    ...(result.solution ? [result.solution] : []),
+    ...(result.alternatives ?? []).map((alt) => alt.solution),
+  ];
+  const problems = [...new Set(solutions.flatMap((s) => validateScenarioOutput(scenario, s)))];
+  if (problems.length === 0) {
+    return result;
+  }
+  return {
+    ...result,
+    status: 'ERROR',
+    solution: null,
+    alternatives: undefined,
+    errorMessage:
+      `Output of ${scenario.modelFile} does not match its scenario manifest: ${problems.join('; ')}`,
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * Training sessions: who checked in on a given day, and the splits solved
+ * for them. Sessions live in the player store next to the players.
+ */
+
+import { splitIntoTeams } from './utils.js';
+import { findPlayer, selectStoredPlayers } from './roster.js';
+import type {
+  Player,
+  PlayerStore,
+  SessionSplit,
+  StoredPlayer,
+  TeamAssignment,
+  TrainingSession,
+} from '../solver/types.js';
+
+/**
+ * Fields of a session that can be set through the API or CLI
+ */
+export type SessionInput = Pick<TrainingSession, 'date' | 'present' | 'notes'>;
+
+/**
+ * Today's date as YYYY-MM-DD, in local time
+ */
+export function today(): string {
+  const now = new Date();
+  return [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+    .map((part, i) => String(part).padStart(i === 0 ? 4 : 2, '0'))
+    .join('-');
+}
+
+/**
+ * Validate a session date (YYYY-MM-DD, a real calendar day)
+ */
+export function parseSessionDate(value: unknown): string {
+  const text = String(value ?? '').trim();
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = match ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])) : null;
+  if (!date || date.toISOString().slice(0, 10) !== text) {
+    throw new Error(`Invalid session date "${text}". Use YYYY-MM-DD, e.g. ${today()}`);
+  }
+  return text;
+}
+
+/**
+ * Validate a list of stored player IDs (an array, or "p1,p2" from the CLI)
+ */
+function parsePlayerIds(store: PlayerStore, value: unknown): string[] {
+  const raw = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(',') : null;
+  if (!raw) {
+    throw new Error('"present" must be an array of player IDs');
+  }
+  const ids = [...new Set(raw.map((id) => id.trim()).filter(Boolean))];
+  const unknown = ids.filter((id) => !findPlayer(store, id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown player ID(s): ${unknown.join(', ')}`);
+  }
+  return ids;
+}
+
+/**
+ * Validate untrusted session fields. Without a date a new session is for
+ * today; with `partial` only the fields present are checked, for updates.
+ */
+export function parseSessionInput(
+  store: PlayerStore,
+  value: unknown,
+  partial: boolean = false
+): Partial<SessionInput> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Session must be an object like { "date": "2025-03-04", "present": ["p1", "p2"] }');
+  }
+  const { date, present, notes } = value as Record<string, unknown>;
+  const input: Partial<SessionInput> = {};
+
+  if (date !== undefined) {
+    input.date = parseSessionDate(date);
+  } else if (!partial) {
+    input.date = today();
+  }
+  if (present !== undefined) {
+    input.present = parsePlayerIds(store, present);
+  } else if (!partial) {
+    input.present = [];
+  }
+  if (notes !== undefined) {
+    if (notes !== null && typeof notes !== 'string') {
+      throw new Error('"notes" must be a string');
+    }
+    input.notes = notes?.trim() || undefined;
+  }
+  return input;
+}
+
+export function findSession(store: PlayerStore, id: string): TrainingSession | undefined {
+  return store.sessions.find((s) => s.id === id);
+}
+
+/**
+ * The most recently created session on a date, if any
+ */
+export function findSessionByDate(store: PlayerStore, date: string): TrainingSession | undefined {
+  return store.sessions.filter((s) => s.date === date).pop();
+}
+
+/**
+ * Add a session with the next free ID
+ */
+export function addSession(store: PlayerStore, input: SessionInput): TrainingSession {
+  const now = new Date().toISOString();
+  const session: TrainingSession = {
+    id: `s${store.nextSessionId++}`,
+    date: input.date,
+    present: input.present,
+    ...(input.notes ? { notes: input.notes } : {}),
+    createdAt: now,
+    updatedAt: now,
+    splits: [],
+  };
+  store.sessions.push(session);
+  return session;
+}
+
+/**
+ * Change some of a session's fields. Returns undefined for an unknown ID.
+ */
+export function updateSession(
+  store: PlayerStore,
+  id: string,
+  changes: Partial<SessionInput>
+): TrainingSession | undefined {
+  const session = findSession(store, id);
+  if (!session) return undefined;
+  Object.assign(session, changes, { updatedAt: new Date().toISOString() });
+  if (!session.notes) delete session.notes;
+  return session;
+}
+
+/**
+ * Check players in (or, with `present` false, out) of a session. Returns
+ * undefined for an unknown session; throws for unknown player IDs.
+ */
+export function checkIn(
+  store: PlayerStore,
+  id: string,
+  playerIds: unknown,
+  present: boolean = true
+): TrainingSession | undefined {
+  const session = findSession(store, id);
+  if (!session) return undefined;
+  const ids = parsePlayerIds(store, playerIds);
+  session.present = present
+    ? [...new Set([...session.present, ...ids])]
+    : session.present.filter((p) => !ids.includes(p));
+  session.updatedAt = new Date().toISOString();
+  return session;
+}
+
+/**
+ * Remove a session. Returns the removed session, or undefined for an unknown ID.
+ */
+export function removeSession(store: PlayerStore, id: string): TrainingSession | undefined {
+  const index = store.sessions.findIndex((s) => s.id === id);
+  return index === -1 ? undefined : store.sessions.splice(index, 1)[0];
+}
+
+/**
+ * The stored players who checked in to a session. Throws when nobody has,
+ * or when a checked-in player has since been removed from the store.
+ */
+export function sessionPlayers(store: PlayerStore, session: TrainingSession): StoredPlayer[] {
+  if (session.present.length === 0) {
+    throw new Error(`Nobody has checked in to session ${session.id} (${session.date})`);
+  }
+  return selectStoredPlayers(store, session.present);
+}
+
+/**
+ * Keep a solved split of the session's players (parsed from the stored
+ * roster, so each carries its `id`). Mixer rounds are recorded in order,
+ * each with its `round`.
+ */
+export function recordSessionSplit(
+  session: TrainingSession,
+  players: Player[],
+  solution: TeamAssignment,
+  numTeams: number,
+  details: { scenario: string; solver?: string; status: string; round?: number }
+): SessionSplit {
+  const split: SessionSplit = {
+    createdAt: new Date().toISOString(),
+    scenario: details.scenario,
+    solver: details.solver,
+    status: details.status,
+    ...(details.round !== undefined ? { round: details.round } : {}),
+    // ratings_only has no separate objective; it minimizes the rating spread
+    // (plus any weighted category spreads and repeat penalty)
+    objective: solution.objective ??
+      solution.rating_difference + (solution.category_diff ?? 0) + (solution.repeat_penalty ?? 0),
+    teams: splitIntoTeams(players, solution.assignment ?? [], numTeams)
+      .map((team) => team.map((p) => ({ id: p.id ?? '', name: p.name }))),
+  };
+  session.splits.push(split);
+  session.updatedAt = split.createdAt;
+  return split;
+}
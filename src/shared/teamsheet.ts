@@ -0,0 +1,265 @@
+/**
+ * Team sheets: a solved split laid out with positions, totals and balance
+ * stats, exported as CSV, JSON, Markdown or a printable HTML page
+ */
+
+import {
+  POSITIONS,
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type PositionName,
+} from './constants.js';
+import { formatCSV } from './csv.js';
+import {
+  assignRoles,
+  splitIntoTeams,
+  sortPlayersByPosition,
+  countPositions,
+  calculateTotalRating,
+  playingPosition,
+  teamName,
+  spread,
+} from './utils.js';
+import type {
+  ModelData,
+  Player,
+  TeamAssignment,
+  TeamSheet,
+  Verification,
+} from '../solver/types.js';
+
+/**
+ * Validate a requested export format. "md" is accepted for markdown.
+ */
+export function parseExportFormat(value: unknown): ExportFormat {
+  const format = String(value ?? '').trim().toLowerCase();
+  const name = format === 'md' ? 'markdown' : format;
+  if (!(name in EXPORT_FORMATS)) {
+    throw new Error(`Unknown export format "${value}". Available: ${Object.keys(EXPORT_FORMATS).join(', ')}`);
+  }
+  return name as ExportFormat;
+}
+
+/**
+ * Export format implied by a file name's extension, or null if there is none
+ */
+export function exportFormatForFile(fileName: string): ExportFormat | null {
+  const lower = fileName.toLowerCase();
+  const match = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+    .find((format) => lower.endsWith(EXPORT_FORMATS[format].extension));
+  return match ?? (lower.endsWith('.markdown') ? 'markdown' : lower.endsWith('.htm') ? 'html' : null);
+}
+
+/**
+ * Lay out a solution's split of `data.players`. The rest of `details`
+ * (scenario name, status, solver, verification) is shown as given.
+ */
+export function buildTeamSheet(
+  data: Pick<ModelData, 'num_teams'> & { players: Player[] },
+  solution: TeamAssignment,
+  details: { scenario: string; title?: string; status?: string; solver?: string; verification?: Verification }
+): TeamSheet {
+  const players = assignRoles(data.players, solution.roles);
+  const teams = splitIntoTeams(players, solution.assignment ?? [], data.num_teams).map(sortPlayersByPosition);
+  const counts = teams.map(countPositions);
+
+  // Positions in lineup order; "unknown" only when someone has no position
+  const positions = (Object.keys(POSITIONS) as PositionName[])
+    .filter((p) => p !== 'unknown' || counts.some((c) => c.unknown > 0))
+    .sort((a, b) => POSITIONS[a].sortOrder - POSITIONS[b].sortOrder);
+  const ratingsAt = (position: string) =>
+    teams.map((team) => calculateTotalRating(team.filter((p) => playingPosition(p) === position)));
+  const positionRatings = Object.fromEntries(positions.map((p) => [p, ratingsAt(p)]));
+
+  const totals = teams.map(calculateTotalRating);
+  return {
+    title: details.title ?? `Team sheet: ${details.scenario}`,
+    scenario: details.scenario,
+    status: details.status,
+    solver: details.solver,
+    createdAt: new Date().toISOString(),
+    teams: teams.map((team, t) => ({
+      name: teamName(t),
+      players: team,
+      totalRating: totals[t],
+      averageRating: team.length > 0 ? Math.round((totals[t] / team.length) * 100) / 100 : 0,
+      positions: Object.fromEntries(positions.map((p) => [p, counts[t][p]])),
+      positionRatings: Object.fromEntries(positions.map((p) => [p, positionRatings[p][t]])),
+    })),
+    ratingSpread: spread(totals),
+    positionSpreads: Object.fromEntries(positions.map((p) => [p, spread(counts.map((c) => c[p]))])),
+    positionRatingSpreads: Object.fromEntries(positions.map((p) => [p, spread(positionRatings[p])])),
+    offPreference: players.filter((p) => p.role && p.role !== p.position).length,
+    objective: solution.objective,
+    verified: details.verification?.verified,
+  };
+}
+
+// Position a player is playing, noting a different preferred one
+function describePosition(player: Player): string {
+  const position = playingPosition(player);
+  return position !== player.position ? `${position} (prefers ${player.position})` : position;
+}
+
+// One-line summary of how the sheet was produced
+function describeRun(sheet: TeamSheet): string {
+  return [
+    `Scenario: ${sheet.scenario}`,
+    sheet.status && `Status: ${sheet.status}${sheet.verified === false ? ' (verification failed)' : ''}`,
+    sheet.solver && `Solver: ${sheet.solver}`,
+    sheet.objective !== undefined && `Objective: ${sheet.objective}`,
+  ].filter(Boolean).join(' | ');
+}
+
+/**
+ * Every player with their team, then a blank line and one summary row per team
+ */
+export function formatTeamSheetCSV(sheet: TeamSheet): string {
+  const positions = Object.keys(sheet.teams[0]?.positions ?? {});
+  const players = formatCSV([
+    ['team', 'number', 'name', 'position', 'preferred_position', 'rating'],
+    ...sheet.teams.flatMap((team) =>
+      team.players.map((p, i) => [team.name, i + 1, p.name, playingPosition(p), p.position, p.rating])),
+  ]);
+  const summary = formatCSV([
+    ['team', 'players', 'total_rating', 'average_rating', ...positions, ...positions.map((p) => `${p}_rating`)],
+    ...sheet.teams.map((team) => [
+      team.name, team.players.length, team.totalRating, team.averageRating,
+      ...positions.map((p) => team.positions[p]),
+      ...positions.map((p) => team.positionRatings[p]),
+    ]),
+  ]);
+  return `${players}\n${summary}`;
+}
+
+export function formatTeamSheetJSON(sheet: TeamSheet): string {
+  return JSON.stringify(sheet, null, 2) + '\n';
+}
+
+function markdownCell(value: unknown): string {
+  return String(value ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function markdownTable(header: unknown[], rows: unknown[][]): string[] {
+  const line = (cells: unknown[]) => `| ${cells.map(markdownCell).join(' | ')} |`;
+  return [line(header), line(header.map(() => '---')), ...rows.map(line)];
+}
+
+/**
+ * Markdown tables (one per team, then balance stats) for chat apps and wikis
+ */
+export function formatTeamSheetMarkdown(sheet: TeamSheet): string {
+  const positions = Object.keys(sheet.positionSpreads);
+  const lines = [`# ${sheet.title}`, '', describeRun(sheet)];
+
+  for (const team of sheet.teams) {
+    lines.push('', `## ${team.name} (${team.totalRating} rating points)`, '');
+    lines.push(...markdownTable(
+      ['#', 'Name', 'Position', 'Rating'],
+      team.players.map((p, i) => [i + 1, p.name, describePosition(p), p.rating])
+    ));
+  }
+
+  lines.push('', '## Balance', '');
+  lines.push(...markdownTable(
+    ['', ...sheet.teams.map((team) => team.name), 'Spread'],
+    [
+      ['Players', ...sheet.teams.map((team) => team.players.length), ''],
+      ['Total rating', ...sheet.teams.map((team) => team.totalRating), sheet.ratingSpread],
+      ['Average rating', ...sheet.teams.map((team) => team.averageRating), ''],
+      ...positions.map((p) => [p, ...sheet.teams.map((team) => team.positions[p]), sheet.positionSpreads[p]]),
+      ...positions.map((p) => [
+        `${p} rating`, ...sheet.teams.map((team) => team.positionRatings[p]), sheet.positionRatingSpreads[p],
+      ]),
+    ]
+  ));
+  if (sheet.offPreference > 0) {
+    lines.push('', `${sheet.offPreference} player(s) playing out of their preferred position.`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function escapeHTML(value: unknown): string {
+  return String(value ?? '').replace(/[&<>"']/g, (c) =>
+    ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+}
+
+/**
+ * Self-contained HTML page (inline styles, no scripts) that prints one
+ * team per column on a single sheet
+ */
+export function formatTeamSheetHTML(sheet: TeamSheet): string {
+  const positions = Object.keys(sheet.positionSpreads);
+  const teams = sheet.teams.map((team) => `
+    <section class="team">
+      <h2>${escapeHTML(team.name)} <span>${team.totalRating} pts</span></h2>
+      <table>
+        <thead><tr><th>#</th><th>Name</th><th>Position</th><th>Rating</th></tr></thead>
+        <tbody>
+${team.players.map((p, i) => `          <tr><td>${i + 1}</td><td>${escapeHTML(p.name)}</td><td>${escapeHTML(describePosition(p))}</td><td>${p.rating}</td></tr>`).join('\n')}
+        </tbody>
+      </table>
+    </section>`).join('');
+  const statRow = (label: string, values: unknown[], total: unknown = '') =>
+    `        <tr><th>${escapeHTML(label)}</th>${values.map((v) => `<td>${escapeHTML(v)}</td>`).join('')}<td>${escapeHTML(total)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHTML(sheet.title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 24px; color: #1a1a1a; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    .run { color: #555; font-size: 13px; margin: 0 0 20px; }
+    .teams { display: flex; flex-wrap: wrap; gap: 20px; }
+    .team { flex: 1 1 240px; border: 1px solid #ccc; border-radius: 6px; padding: 12px; break-inside: avoid; }
+    .team h2 { font-size: 17px; margin: 0 0 8px; display: flex; justify-content: space-between; }
+    .team h2 span { font-weight: normal; color: #555; }
+    table { border-collapse: collapse; width: 100%; font-size: 13px; }
+    th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid #eee; }
+    .balance { margin-top: 24px; max-width: 640px; }
+    @media print { body { margin: 8mm; } .team { border-color: #999; } }
+  </style>
+</head>
+<body>
+  <h1>${escapeHTML(sheet.title)}</h1>
+  <p class="run">${escapeHTML(describeRun(sheet))}</p>
+  <div class="teams">${teams}
+  </div>
+  <section class="balance">
+    <h2>Balance</h2>
+    <table>
+      <thead><tr><th></th>${sheet.teams.map((team) => `<th>${escapeHTML(team.name)}</th>`).join('')}<th>Spread</th></tr></thead>
+      <tbody>
+${[
+    statRow('Players', sheet.teams.map((team) => team.players.length)),
+    statRow('Total rating', sheet.teams.map((team) => team.totalRating), sheet.ratingSpread),
+    statRow('Average rating', sheet.teams.map((team) => team.averageRating)),
+    ...positions.map((p) => statRow(p, sheet.teams.map((team) => team.positions[p]), sheet.positionSpreads[p])),
+    ...positions.map((p) =>
+      statRow(`${p} rating`, sheet.teams.map((team) => team.positionRatings[p]), sheet.positionRatingSpreads[p])),
+  ].join('\n')}
+      </tbody>
+    </table>
+  </section>
+</body>
+</html>
+`;
+}
+
+/**
+ * Format a team sheet in the given export format
+ */
+export function formatTeamSheet(sheet: TeamSheet, format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return formatTeamSheetCSV(sheet);
+    case 'json':
+      return formatTeamSheetJSON(sheet);
+    case 'markdown':
+      return formatTeamSheetMarkdown(sheet);
+    case 'html':
+      return formatTeamSheetHTML(sheet);
+  }
+}
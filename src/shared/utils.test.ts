@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { CSVValidationError } from './csv.js';
+import { normalizePosition, parseCSV } from './utils.js';
+
+describe('parseCSV ratings', () => {
+  it('leaves out a player with a negative rating and reports the row', () => {
+    const data = parseCSV('name,rating\nAoife,7\nNiamh,-3\nSorcha,5\n');
+
+    assert.deepEqual(data.players.map((p) => p.name), ['Aoife', 'Sorcha']);
+    assert.deepEqual(data.ratings, [7, 5]);
+    assert.deepEqual(data.report.errors, [
+      { line: 3, column: 'rating', message: 'Rating -3 is negative; player left out' },
+    ]);
+  });
+
+  it('keeps a rating of 0 with an out-of-range warning', () => {
+    const data = parseCSV('name,rating\nAoife,0\nSorcha,5\n');
+
+    assert.deepEqual(data.ratings, [0, 5]);
+    assert.equal(data.report.errors.length, 0);
+    assert.match(data.report.warnings[0].message, /outside the expected range/);
+  });
+
+  it('throws when every rating is negative', () => {
+    assert.throws(() => parseCSV('name,rating\nAoife,-1\nSorcha,-2\n'), CSVValidationError);
+  });
+});
+
+describe('parseCSV labels on duplicate names', () => {
+  // The CSVValidationError thrown for `csvText`, with its report
+  const validationError = (csvText: string): CSVValidationError => {
+    try {
+      parseCSV(csvText);
+    } catch (error) {
+      if (error instanceof CSVValidationError) return error;
+      throw error;
+    }
+    assert.fail('expected a CSVValidationError');
+  };
+
+  it('reports each pin on a shared name as a row error', () => {
+    const error = validationError('name,rating,team\nAoife,7,A\nAoife,6,B\nSorcha,5,\n');
+
+    assert.deepEqual(error.report.errors, [
+      { line: 2, column: 'team', message: 'team "A" is ambiguous: 2 players are named "Aoife"' },
+      { line: 3, column: 'team', message: 'team "B" is ambiguous: 2 players are named "Aoife"' },
+    ]);
+  });
+
+  it('reports a group label on a shared name', () => {
+    const error = validationError('name,rating,group\nAoife,7,sisters\naoife,6,\nSorcha,5,sisters\n');
+
+    assert.deepEqual(error.report.errors.map((issue) => [issue.line, issue.column]), [[2, 'group']]);
+  });
+
+  it('keeps unlabelled players with a shared name and pins the others', () => {
+    const data = parseCSV('name,rating,team\nAoife,7,\nAoife,6,\nSorcha,5,B\n');
+
+    assert.deepEqual(data.report.errors, []);
+    assert.deepEqual(data.pinned_team, [0, 0, 2]);
+  });
+});
+
+describe('normalizePosition', () => {
+  it('maps centre back and centre forward in either spelling', () => {
+    assert.deepEqual(
+      ['Centre-Back', 'center back', 'centre_forward', 'Center Forward', 'centre field', 'center-field']
+        .map(normalizePosition),
+      ['defense', 'defense', 'forward', 'forward', 'midfield', 'midfield']
+    );
+  });
+
+  it('does not guess the line of a bare centre', () => {
+    assert.equal(normalizePosition('centre'), null);
+    assert.equal(normalizePosition('center'), null);
+  });
+});
@@ -2,114 +2,422 @@
  * Shared utility functions for CSV parsing and player data handling
  */
 
-import { POSITIONS, type PositionName } from './constants.js';
-import type { Player, ModelData } from '../solver/types.js';
+import {
+  POSITIONS,
+  POSITION_ALIASES,
+  POSITION_SEPARATOR,
+  NUM_POSITIONS,
+  DEFAULT_NUM_TEAMS,
+  DEFAULT_SCENARIO,
+  DEFAULT_SIZE_TOLERANCE,
+  MIN_NUM_TEAMS,
+  MAX_ALTERNATIVES,
+  MIN_RATING,
+  MAX_RATING,
+  type PositionName,
+  type CSVColumn,
+} from './constants.js';
+import {
+  CSVValidationError,
+  stripBOM,
+  sniffDelimiter,
+  tokenizeCSV,
+  resolveColumns,
+} from './csv.js';
+import {
+  pairingRulesFromLabels,
+  buildPairingData,
+  describePairingRule,
+} from './pairings.js';
+import { buildPinData, describePin, parseTeamLabel } from './pins.js';
+import { buildAttributeData, findAttributeColumns, parseAttributeValue } from './attributes.js';
+import { buildCategoryData, describeCategoryRule, findCategoryColumns } from './categories.js';
+import { buildQuotaData, describeQuota } from './quotas.js';
+import { buildParameterData, defaultSolveParameters } from './parameters.js';
+import type { Player, ModelData, CSVReport, TeamPins } from '../solver/types.js';
 
 /**
- * Parse CSV text into player data for MiniZinc models
+ * Normalise a position as written in a CSV (e.g. "Half-Back", "keeper") to a
+ * known position name, or null if it is not recognised
  */
-export function parseCSV(csvText: string): ModelData & { players: Player[] } {
-  const lines = csvText.trim().split('\n');
-  if (lines.length < 2) {
-    throw new Error('CSV must have at least a header and one data row');
+export function normalizePosition(raw: string): PositionName | null {
+  const key = raw.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  return POSITION_ALIASES[key] ?? null;
+}
+
+/**
+ * Parse CSV text into player data for MiniZinc models.
+ * Optional `group` / `avoid` columns become keep-together / keep-apart rules,
+ * and an optional `team` column pins players to a team (A, B, ... or 1, 2, ...);
+ * optional `id` / `notes` columns (player store exports) are kept on each player.
+ * Any other column with a number in every non-blank cell (e.g. `speed`,
+ * `stickwork`) becomes a player attribute; the remaining text columns (e.g.
+ * `experience`, `club`) become player categories that can be balanced across teams.
+ *
+ * Rows that cannot be used (e.g. a non-numeric rating) are left out and listed
+ * in `report.errors`; recoverable problems are listed in `report.warnings`.
+ * Throws CSVValidationError if no roster can be built at all.
+ */
+export function parseCSV(
+  csvText: string
+): ModelData & { players: Player[]; report: CSVReport } {
+  const text = stripBOM(csvText);
+  const delimiter = sniffDelimiter(text);
+  const { records, issues } = tokenizeCSV(text, delimiter);
+
+  const report: CSVReport = {
+    delimiter,
+    rowCount: Math.max(records.length - 1, 0),
+    playerCount: 0,
+    warnings: [],
+    errors: [...issues],
+  };
+
+  if (records.length < 2) {
+    throw new CSVValidationError('CSV must have at least a header and one data row', report);
   }
 
-  const headers = lines[0].split(',').map((h) => h.trim().toLowerCase());
-  const nameIdx = headers.indexOf('name');
-  const ratingIdx = headers.indexOf('rating');
-  const positionIdx = headers.indexOf('position');
+  const [header, ...rows] = records;
+  const columns = resolveColumns(header.fields);
 
-  if (nameIdx === -1 || ratingIdx === -1) {
-    throw new Error('CSV must contain "name" and "rating" columns');
+  if (columns.name === undefined || columns.rating === undefined) {
+    throw new CSVValidationError(
+      'CSV must contain "name" and "rating" columns (aliases: player, skill)',
+      report
+    );
   }
 
+  // Numeric columns beyond the known ones are player attributes
+  const attributeColumns = findAttributeColumns(
+    header.fields,
+    rows.map((row) => row.fields),
+    Object.values(columns) as number[]
+  );
+  const attributes = attributeColumns.map((idx) => header.fields[idx].trim());
+  // The remaining text columns are categories (blank cells are left out)
+  const categoryColumns = findCategoryColumns(
+    header.fields,
+    rows.map((row) => row.fields),
+    [...(Object.values(columns) as number[]), ...attributeColumns]
+  );
+
   const players: Player[] = [];
   const ratings: number[] = [];
   const positions: string[] = [];
   const positionIndices: number[] = [];
+  const eligible: boolean[][] = [];
+  const groupLabels: string[] = [];
+  const avoidLabels: string[] = [];
+  // Pin labels as written, '' for players without a valid pin
+  const teamLabels: string[] = [];
+  const playerLines: number[] = [];
+  const pins: TeamPins = {};
+  const seenNames = new Map<string, number>();
+
+  rows.forEach((row, i) => {
+    const { line, fields } = row;
+    const field = (column: CSVColumn): string => {
+      const idx = columns[column];
+      return idx === undefined ? '' : (fields[idx] ?? '').trim();
+    };
+
+    if (fields.length !== header.fields.length) {
+      report.warnings.push({
+        line,
+        message: `Expected ${header.fields.length} fields but found ${fields.length}`,
+      });
+    }
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue; // Skip empty lines
-    
-    const values = line.split(',');
-    if (values.length >= 2) {
-      const name = values[nameIdx]?.trim() || `Player ${i}`;
-      const rating = parseInt(values[ratingIdx]?.trim(), 10);
-      const positionRaw = positionIdx !== -1 ? values[positionIdx]?.trim()?.toLowerCase() : 'unknown';
-      const position = (positionRaw || 'unknown') as PositionName;
-
-      if (!isNaN(rating)) {
-        const positionConfig = POSITIONS[position] || POSITIONS.unknown;
-        players.push({ name, rating, position });
-        ratings.push(rating);
-        positions.push(position);
-        positionIndices.push(positionConfig.index);
+    const ratingRaw = field('rating');
+    if (!/^[+-]?\d+$/.test(ratingRaw)) {
+      report.errors.push({
+        line,
+        column: 'rating',
+        message: ratingRaw
+          ? `Rating "${ratingRaw}" is not a whole number; player left out`
+          : 'Missing rating; player left out',
+      });
+      return;
+    }
+    const rating = parseInt(ratingRaw, 10);
+    // The solvers' bounds assume totals only grow as players are added
+    if (rating < 0) {
+      report.errors.push({ line, column: 'rating', message: `Rating ${rating} is negative; player left out` });
+      return;
+    }
+    if (rating < MIN_RATING || rating > MAX_RATING) {
+      report.warnings.push({
+        line,
+        column: 'rating',
+        message: `Rating ${rating} is outside the expected range ${MIN_RATING}-${MAX_RATING}`,
+      });
+    }
+
+    let name = field('name');
+    if (!name) {
+      name = `Player ${i + 1}`;
+      report.warnings.push({ line, column: 'name', message: `Missing name; using "${name}"` });
+    }
+    const firstLine = seenNames.get(name.toLowerCase());
+    if (firstLine !== undefined) {
+      report.warnings.push({
+        line,
+        column: 'name',
+        message: `Duplicate name "${name}" (first seen on line ${firstLine})`,
+      });
+    } else {
+      seenNames.set(name.toLowerCase(), line);
+    }
+
+    // Several eligible positions may be listed, preferred first ("midfield|forward")
+    const eligiblePositions: PositionName[] = [];
+    for (const positionRaw of field('position').split(POSITION_SEPARATOR)) {
+      if (!positionRaw.trim()) continue;
+      const normalized = normalizePosition(positionRaw);
+      if (!normalized) {
+        report.warnings.push({
+          line,
+          column: 'position',
+          message: `Unknown position "${positionRaw.trim()}"; treated as unknown`,
+        });
+      } else if (normalized !== 'unknown' && !eligiblePositions.includes(normalized)) {
+        eligiblePositions.push(normalized);
       }
     }
-  }
+    const position: PositionName = eligiblePositions[0] ?? 'unknown';
+
+    const player: Player = { name, rating, position };
+    if (eligiblePositions.length > 1) {
+      player.positions = eligiblePositions;
+    }
+    if (field('id')) {
+      player.id = field('id');
+    }
+    if (field('notes')) {
+      player.notes = field('notes');
+    }
+    if (attributes.length > 0) {
+      const values: Record<string, number> = {};
+      attributeColumns.forEach((idx, a) => {
+        const { value, warning } = parseAttributeValue(attributes[a], (fields[idx] ?? '').trim());
+        if (warning) {
+          report.warnings.push({ line, column: attributes[a], message: warning });
+        }
+        values[attributes[a]] = value;
+      });
+      player.attributes = values;
+    }
+    const categories: Record<string, string> = {};
+    for (const idx of categoryColumns) {
+      const value = (fields[idx] ?? '').trim();
+      if (value) categories[header.fields[idx].trim()] = value;
+    }
+    if (Object.keys(categories).length > 0) {
+      player.categories = categories;
+    }
+    players.push(player);
+    ratings.push(rating);
+    positions.push(position);
+    positionIndices.push(POSITIONS[position].index);
+    eligible.push(
+      Array.from({ length: NUM_POSITIONS }, (_, q) =>
+        eligiblePositions.some((name) => POSITIONS[name].index === q + 1)
+      )
+    );
+    groupLabels.push(field('group'));
+    avoidLabels.push(field('avoid'));
+    playerLines.push(line);
+
+    const teamRaw = field('team');
+    const team = teamRaw ? parseTeamLabel(teamRaw) : null;
+    if (teamRaw && team === null) {
+      report.warnings.push({ line, column: 'team', message: `Unknown team "${teamRaw}"; player not pinned` });
+    } else if (team !== null) {
+      pins[name] = team;
+      player.pinned = true;
+    }
+    teamLabels.push(team === null ? '' : teamRaw);
+  });
+
+  report.playerCount = players.length;
 
   if (players.length === 0) {
-    throw new Error('No valid player data found in CSV');
+    throw new CSVValidationError('No valid player data found in CSV', report);
+  }
+
+  // Labels and pins become rules by player name, so a labelled or pinned
+  // player must have a unique name
+  const labelColumns = ['group', 'avoid', 'team'] as const;
+  const labelsFor = { group: groupLabels, avoid: avoidLabels, team: teamLabels };
+  players.forEach((player, idx) => {
+    const sameName = players.filter((p) => p.name.toLowerCase() === player.name.toLowerCase()).length;
+    if (sameName < 2) return;
+    labelColumns.forEach((column) => {
+      const label = labelsFor[column][idx];
+      if (label) {
+        report.errors.push({
+          line: playerLines[idx],
+          column,
+          message: `${column} "${label}" is ambiguous: ${sameName} players are named "${player.name}"`,
+        });
+      }
+    });
+  });
+  if (report.errors.some((issue) => labelColumns.some((column) => issue.column === column))) {
+    throw new CSVValidationError('Group, avoid and team labels need players with unique names', report);
   }
+  const pairings = pairingRulesFromLabels(players, groupLabels, avoidLabels);
 
   return {
     num_players: players.length,
+    num_teams: DEFAULT_NUM_TEAMS,
     players,
     ratings,
     positions,
     position_indices: positionIndices,
+    eligible,
+    pairings,
+    ...buildPairingData(players, pairings),
+    pins,
+    ...buildPinData(players, pins),
+    previous_team: players.map(() => 0),
+    max_moves: players.length,
+    quotas: {},
+    ...buildQuotaData(players.length, {}),
+    attributes,
+    ...buildAttributeData(players, attributes),
+    categories: {},
+    ...buildCategoryData(players, {}),
+    num_excluded: 0,
+    excluded_assignments: [],
+    num_repeat_pairs: 0,
+    repeat_a: [],
+    repeat_b: [],
+    repeat_costs: [],
+    ...buildParameterData(defaultSolveParameters(DEFAULT_SCENARIO)),
+    report,
   };
 }
 
 /**
- * Sort players by position (defense first, then midfield, then forward) then alphabetically by name
+ * Position a player is playing: the solver-assigned role if there is one,
+ * otherwise their preferred position
+ */
+export function playingPosition(player: Player): string {
+  return player.role ?? player.position;
+}
+
+/**
+ * Position name for a model position index (0 = unknown)
+ */
+export function positionNameForIndex(index: number): PositionName {
+  const entry = Object.values(POSITIONS).find((p) => p.index === index);
+  return entry?.name ?? 'unknown';
+}
+
+/**
+ * Attach solver-assigned roles (position indices, one per player) to players
+ */
+export function assignRoles(players: Player[], roles?: number[]): Player[] {
+  if (!roles || roles.length === 0) return players;
+  return players.map((player, idx) =>
+    roles[idx] === undefined ? player : { ...player, role: positionNameForIndex(roles[idx]) }
+  );
+}
+
+/**
+ * Sort players by position (goalkeeper, defense, midfield, forward) then alphabetically by name
  */
 export function sortPlayersByPosition(players: Player[]): Player[] {
   return [...players].sort((a, b) => {
-    const posA = POSITIONS[a.position as PositionName]?.sortOrder ?? 99;
-    const posB = POSITIONS[b.position as PositionName]?.sortOrder ?? 99;
+    const posA = POSITIONS[playingPosition(a) as PositionName]?.sortOrder ?? 99;
+    const posB = POSITIONS[playingPosition(b) as PositionName]?.sortOrder ?? 99;
     if (posA !== posB) return posA - posB;
     return a.name.localeCompare(b.name);
   });
 }
 
+/**
+ * Parse and validate a requested number of teams against the roster size
+ */
+export function parseNumTeams(value: unknown, numPlayers: number): number {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_NUM_TEAMS;
+  }
+
+  const numTeams = typeof value === 'number' ? value : parseInt(String(value), 10);
+  if (!Number.isInteger(numTeams) || numTeams < MIN_NUM_TEAMS) {
+    throw new Error(`Number of teams must be an integer of at least ${MIN_NUM_TEAMS}`);
+  }
+  if (numTeams > numPlayers) {
+    throw new Error(`Cannot split ${numPlayers} players into ${numTeams} teams`);
+  }
+
+  return numTeams;
+}
+
+/**
+ * Validate a requested number of alternative splits (k best mode).
+ * Defaults to a single split.
+ */
+export function parseAlternativeCount(value: unknown): number {
+  if (value === undefined || value === null || value === '') {
+    return 1;
+  }
+
+  const count = typeof value === 'number' ? value : parseInt(String(value), 10);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_ALTERNATIVES) {
+    throw new Error(`Number of alternatives must be an integer from 1 to ${MAX_ALTERNATIVES}`);
+  }
+
+  return count;
+}
+
+/**
+ * Display name for a team index (0 = Team A, 1 = Team B, ...)
+ */
+export function teamName(index: number): string {
+  return `Team ${String.fromCharCode(65 + index)}`;
+}
+
 /**
  * Split players into teams based on assignment array
+ * (assignment[p] is the 0-based team index of player p)
  */
 export function splitIntoTeams(
   players: Player[],
-  assignment: number[]
-): { teamA: Player[]; teamB: Player[] } {
-  const teamA: Player[] = [];
-  const teamB: Player[] = [];
+  assignment: number[],
+  numTeams: number = DEFAULT_NUM_TEAMS
+): Player[][] {
+  const teams: Player[][] = Array.from({ length: numTeams }, () => []);
 
   assignment.forEach((team, idx) => {
-    if (idx < players.length) {
-      if (team === 0) {
-        teamA.push(players[idx]);
-      } else {
-        teamB.push(players[idx]);
-      }
+    if (idx < players.length && teams[team]) {
+      teams[team].push(players[idx]);
     }
   });
 
-  return { teamA, teamB };
+  return teams;
+}
+
+/**
+ * Spread (max - min) of per-team values, used as the balance measure
+ */
+export function spread(values: number[]): number {
+  if (values.length === 0) return 0;
+  return Math.max(...values) - Math.min(...values);
 }
 
 /**
  * Count positions in a team
  */
 export function countPositions(players: Player[]): Record<PositionName, number> {
-  const counts: Record<string, number> = {
-    forward: 0,
-    midfield: 0,
-    defense: 0,
-    unknown: 0,
-  };
+  const counts: Record<string, number> = Object.fromEntries(
+    Object.keys(POSITIONS).map((position) => [position, 0])
+  );
 
   for (const player of players) {
-    const pos = player.position?.toLowerCase() || 'unknown';
+    const pos = playingPosition(player)?.toLowerCase() || 'unknown';
     if (pos in counts) {
       counts[pos]++;
     } else {
@@ -120,6 +428,56 @@ export function countPositions(players: Player[]): Record<PositionName, number>
   return counts as Record<PositionName, number>;
 }
 
+/**
+ * Format a team's position counts for display
+ */
+export function formatPositionCounts(counts: Record<PositionName, number>): string {
+  const parts = [
+    `${counts.forward} forwards`,
+    `${counts.midfield} midfield`,
+    `${counts.defense} defense`,
+  ];
+  if (counts.goalkeeper > 0) {
+    parts.push(`${counts.goalkeeper} goalkeeper${counts.goalkeeper === 1 ? '' : 's'}`);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Describe the hard rules (pairings, pins, move cap, position quotas,
+ * category spreads) in force for a solve
+ */
+export function describeHardRules(data: ModelData): string[] {
+  return [
+    ...(data.pairings?.together ?? []).map((g) => describePairingRule('together', g)),
+    ...(data.pairings?.apart ?? []).map((g) => describePairingRule('apart', g)),
+    ...Object.entries(data.pins ?? {}).map(([player, team]) => describePin(player, team)),
+    ...(data.previous?.length && data.max_moves < data.num_players
+      ? [`at most ${data.max_moves} player(s) of the previous split change team`]
+      : []),
+    ...Object.entries(data.quotas ?? {}).map(([position, quota]) => describeQuota(position, quota ?? {})),
+    ...Object.entries(data.categories ?? {})
+      .filter(([, rule]) => rule === 'hard')
+      .map(([name, rule]) => describeCategoryRule(name, rule)),
+    ...(data.size_tolerance !== DEFAULT_SIZE_TOLERANCE
+      ? [`team sizes differ by at most ${data.size_tolerance}`]
+      : []),
+  ];
+}
+
+/**
+ * Explain an UNSATISFIABLE result when no single rule is contradictory on its
+ * own, listing the hard rules that were in force (null if there were none)
+ */
+export function explainInfeasibleSplit(data: ModelData): string | null {
+  const rules = describeHardRules(data);
+  if (rules.length === 0) return null;
+  return (
+    'No balanced split satisfies these rules together with the scenario constraints: ' +
+    rules.join('; ')
+  );
+}
+
 /**
  * Calculate total rating for a team
  */
@@ -131,7 +489,10 @@ export function calculateTotalRating(players: Player[]): number {
  * Format player for display
  */
 export function formatPlayer(player: Player, index: number): string {
-  return `  ${(index + 1).toString().padStart(2)}. ${player.name.padEnd(20)} | ${player.position.padEnd(8)} | Rating: ${player.rating}`;
+  const position = playingPosition(player);
+  const preference = position !== player.position ? ` (prefers ${player.position})` : '';
+  const pinned = player.pinned ? ' [pinned]' : '';
+  return `  ${(index + 1).toString().padStart(2)}. ${player.name.padEnd(20)} | ${position.padEnd(10)} | Rating: ${player.rating}${preference}${pinned}`;
 }
 
 /**
@@ -0,0 +1,58 @@
+/**
+ * k best distinct splits: solve repeatedly, excluding every split found so far
+ */
+
+import { objectiveValue } from './evaluate.js';
+import type {
+  ModelData,
+  SolverConfig,
+  SolverResult,
+  SplitAlternative,
+  TeamSolver,
+} from './types.js';
+
+/**
+ * Solve for up to `count` distinct splits (up to team relabelling), best
+ * first. Each split is a full solve with the earlier ones excluded, so the
+ * time limit applies per split. The returned result is the best split, with
+ * every split found listed in `alternatives`.
+ */
+export async function solveAlternatives(
+  service: TeamSolver,
+  modelCode: string,
+  data: ModelData,
+  config: SolverConfig,
+  modelFilename: string,
+  count: number
+): Promise<SolverResult> {
+  const excluded: number[][] = [];
+  const alternatives: SplitAlternative[] = [];
+  let best: SolverResult | null = null;
+  let solveTime = 0;
+
+  while (alternatives.length < count && !config.signal?.aborted) {
+    const result = await service.solve(
+      modelCode,
+      { ...data, num_excluded: excluded.length, excluded_assignments: excluded.flat() },
+      config,
+      modelFilename
+    );
+    best ??= result;
+    solveTime += result.solveTime;
+
+    const solution = result.solution;
+    if ((result.status !== 'OPTIMAL' && result.status !== 'SATISFIED') || !solution?.assignment) {
+      break;
+    }
+
+    alternatives.push({
+      rank: alternatives.length + 1,
+      status: result.status,
+      objective: objectiveValue(solution),
+      solution,
+    });
+    excluded.push(solution.assignment);
+  }
+
+  return { ...best!, solveTime, alternatives };
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { SCENARIOS, type ScenarioId } from '../shared/constants.js';
+import { applyCategoryBalance } from '../shared/categories.js';
+import { createRandom } from '../shared/generator.js';
+import { applyPairingRules } from '../shared/pairings.js';
+import { applySolveParameters, defaultSolveParameters } from '../shared/parameters.js';
+import { applyTeamPins } from '../shared/pins.js';
+import { parseCSV } from '../shared/utils.js';
+import { searchSplit } from './builtin.js';
+import { evaluateSplit, objectiveValue, scenarioUsesRoles } from './evaluate.js';
+import { verifySolution } from './verify.js';
+
+const POSITION_CELLS = ['forward', 'midfield', 'defense', 'goalkeeper', 'midfield|forward', 'defense|midfield'];
+const CLUBS = ['Na Fianna', 'Ballyboden', 'Cuala'];
+
+// A small seeded roster with positions (some multi-position), two attributes and a club
+function randomRoster(seed: number, numPlayers: number): string {
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const rows = Array.from({ length: numPlayers }, (_, p) =>
+    [`P${p + 1}`, 1 + Math.floor(random() * 10), pick(POSITION_CELLS), Math.floor(random() * 6),
+      Math.floor(random() * 6), pick(CLUBS)].join(','));
+  return ['name,rating,position,speed,stickwork,club', ...rows].join('\n');
+}
+
+interface Case {
+  seed: number;
+  numPlayers: number;
+  numTeams: number;
+  /** Add keep-together/keep-apart rules, a pin and a soft club balance */
+  rules: boolean;
+}
+
+function buildData(scenarioId: ScenarioId, { seed, numPlayers, numTeams, rules }: Case) {
+  const data = parseCSV(randomRoster(seed, numPlayers));
+  data.num_teams = numTeams;
+  const conflicts = applySolveParameters(data, defaultSolveParameters(scenarioId));
+  if (rules) {
+    conflicts.push(
+      ...applyPairingRules(data, { together: [['P1', 'P2']], apart: [['P3', 'P4']] }),
+      ...applyTeamPins(data, { P5: 1 }),
+      ...applyCategoryBalance(data, { club: 2 })
+    );
+  }
+  assert.deepEqual(conflicts, []);
+  return data;
+}
+
+// Every combination of the given options, one choice per position
+function* combinations(options: number[][]): Generator<number[]> {
+  if (options.length === 0) {
+    yield [];
+    return;
+  }
+  for (const rest of combinations(options.slice(1))) {
+    for (const choice of options[0]) yield [choice, ...rest];
+  }
+}
+
+// Best objective over every split (and every choice of roles) that keeps the rules
+function bruteForceBest(scenarioId: ScenarioId, data: ReturnType<typeof buildData>): number | null {
+  const teams = Array.from({ length: data.num_teams }, (_, t) => t);
+  const roleOptions = data.eligible.map((row, p) => {
+    if (!scenarioUsesRoles(scenarioId)) return [data.position_indices?.[p] ?? 0];
+    const eligible = row.flatMap((ok, q) => (ok ? [q + 1] : []));
+    return eligible.length > 0 ? eligible : [0];
+  });
+
+  let best: number | null = null;
+  for (const assignment of combinations(data.ratings.map(() => teams))) {
+    for (const roles of combinations(roleOptions)) {
+      const solution = evaluateSplit(scenarioId, data, assignment, roles);
+      if (!verifySolution(scenarioId, data, solution).verified) continue;
+      const value = objectiveValue(solution);
+      if (best === null || value < best) best = value;
+    }
+  }
+  return best;
+}
+
+const CASES: Case[] = [
+  { seed: 1, numPlayers: 6, numTeams: 2, rules: false },
+  { seed: 2, numPlayers: 7, numTeams: 2, rules: false },
+  { seed: 3, numPlayers: 7, numTeams: 3, rules: false },
+  { seed: 4, numPlayers: 7, numTeams: 2, rules: true },
+  { seed: 5, numPlayers: 6, numTeams: 3, rules: true },
+];
+
+describe('built-in solver against brute force', () => {
+  for (const scenarioId of Object.keys(SCENARIOS) as ScenarioId[]) {
+    for (const testCase of CASES) {
+      const label = `${testCase.numPlayers} players, ${testCase.numTeams} teams${testCase.rules ? ', with rules' : ''}`;
+      it(`finds the optimum for ${scenarioId} (seed ${testCase.seed}, ${label})`, async () => {
+        const data = buildData(scenarioId, testCase);
+        const outcome = await searchSplit(scenarioId, data, { timeLimit: 10000 });
+
+        assert.equal(outcome.complete, true);
+        assert.ok(outcome.assignment, 'expected a split');
+        const solution = evaluateSplit(scenarioId, data, outcome.assignment, outcome.roles ?? undefined);
+        assert.deepEqual(verifySolution(scenarioId, data, solution).issues, []);
+        assert.equal(objectiveValue(solution), bruteForceBest(scenarioId, data));
+      });
+    }
+  }
+});
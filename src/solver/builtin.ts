@@ -0,0 +1,478 @@
+/**
+ * Built-in exact solver for the bundled scenarios
+ *
+ * Depth-first branch-and-bound over a (team, role) choice per player. Used
+ * when MiniZinc is not installed; results have the same shape as the models'.
+ */
+
+import {
+  BUILTIN_SOLVER,
+  DEFAULT_TIME_LIMIT,
+  NUM_POSITIONS,
+  SCENARIOS,
+  type ScenarioId,
+} from '../shared/constants.js';
+import { teamSizeRange } from '../shared/parameters.js';
+import { evaluateSplit, objectiveValue, scenarioForModelFile, scenarioUsesRoles } from './evaluate.js';
+import type {
+  ExecutionMode,
+  ModelData,
+  SolverConfig,
+  SolverResult,
+  TeamSolver,
+} from './types.js';
+
+// How often (in search nodes) the search pauses to let the event loop run
+// (abort signals, progress events) and checks the time limit
+const DEADLINE_CHECK_INTERVAL = 4096;
+
+interface SearchOutcome {
+  assignment: number[] | null;
+  roles: number[] | null;
+  /** Whether the whole search tree was explored (optimality proven) */
+  complete: boolean;
+  nodes: number;
+}
+
+/**
+ * Lower bound on the final spread of per-team totals, given the current
+ * totals and the most that can still be added across all teams. Only valid
+ * when nothing still to be added is negative, which is why parseCSV rejects
+ * negative ratings and attribute values are clamped to 0.
+ */
+function spreadLowerBound(values: number[], remaining: number): number {
+  const total = values.reduce((a, b) => a + b, 0) + remaining;
+  return Math.max(0, Math.ceil(Math.max(...values) - total / values.length));
+}
+
+interface SearchOptions {
+  timeLimit: number;
+  signal?: AbortSignal;
+  /** Called with each improving split (canonical team numbering) */
+  onImprove?: (assignment: number[], roles: number[]) => void;
+}
+
+// Give queued I/O and timers a turn (setTimeout where setImmediate is missing, i.e. browsers)
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) =>
+    typeof setImmediate === 'function' ? setImmediate(resolve) : setTimeout(resolve, 0));
+}
+
+/**
+ * Search for an optimal split. Stops early at the time limit (or when the
+ * signal is aborted), returning the best split found so far (if any) with
+ * `complete: false`. The search pauses every DEADLINE_CHECK_INTERVAL nodes,
+ * so a server keeps answering (and can cancel it) while it runs.
+ */
+export async function searchSplit(
+  scenarioId: ScenarioId,
+  data: ModelData,
+  options: SearchOptions
+): Promise<SearchOutcome> {
+  const steps = searchSteps(scenarioId, data, options);
+  for (let step = steps.next(); ; step = steps.next()) {
+    if (step.done) return step.value;
+    await yieldToEventLoop();
+  }
+}
+
+// The search itself, yielding at each pause
+function* searchSteps(
+  scenarioId: ScenarioId,
+  data: ModelData,
+  { timeLimit, signal, onImprove }: SearchOptions
+): Generator<void, SearchOutcome, void> {
+  const numPlayers = data.num_players;
+  const numTeams = data.num_teams;
+  const ratings = data.ratings;
+  const preferred = data.position_indices ?? Array(numPlayers).fill(0);
+  const usesRoles = scenarioUsesRoles(scenarioId);
+
+  // Candidate roles per player, preferred position first (0 = unknown)
+  const roleOptions = ratings.map((_, p) => {
+    if (!usesRoles) return [preferred[p]];
+    const eligible: number[] = [];
+    (data.eligible[p] ?? []).forEach((ok, q) => ok && eligible.push(q + 1));
+    if (eligible.length === 0) return [0];
+    return eligible.includes(preferred[p])
+      ? [preferred[p], ...eligible.filter((q) => q !== preferred[p])]
+      : eligible;
+  });
+
+  const together: number[][] = ratings.map(() => []);
+  const apart: number[][] = ratings.map(() => []);
+  for (let i = 0; i < data.num_together; i++) {
+    together[data.together_a[i] - 1].push(data.together_b[i] - 1);
+    together[data.together_b[i] - 1].push(data.together_a[i] - 1);
+  }
+  for (let i = 0; i < data.num_apart; i++) {
+    apart[data.apart_a[i] - 1].push(data.apart_b[i] - 1);
+    apart[data.apart_b[i] - 1].push(data.apart_a[i] - 1);
+  }
+
+  // Pinned players have one team (0 = free), and players of a split being
+  // rebalanced have the team they were on. Those teams are told apart; only
+  // the remaining free teams are interchangeable.
+  const pinned = data.pinned_team ?? Array(numPlayers).fill(0);
+  const previous = data.previous_team ?? Array(numPlayers).fill(0);
+  const maxMoves = data.max_moves ?? numPlayers;
+  const pinnedTeams = [...new Set([...pinned, ...previous].filter((t) => t > 0 && t <= numTeams).map((t) => t - 1))];
+  const freeTeams = Array.from({ length: numTeams }, (_, t) => t).filter((t) => !pinnedTeams.includes(t));
+  // Fewest moves breaks ties between equally fair splits (moves <= numPlayers)
+  const moveScale = numPlayers + 1;
+
+  // Splits returned earlier (k best mode), keyed by canonical team numbering
+  const excluded = new Set<string>();
+  for (let e = 0; e < data.num_excluded; e++) {
+    excluded.add(data.excluded_assignments.slice(e * numPlayers, (e + 1) * numPlayers).join(','));
+  }
+
+  const { min: minSize, max: maxSize } = teamSizeRange(numPlayers, numTeams, data.size_tolerance);
+  const { rating_weight: ratingWeight, position_weight: positionWeight } = data;
+  const positionRatingWeight = data.position_rating_weight;
+  const totalRating = ratings.reduce((a, b) => a + b, 0);
+  // Attributes count in balanced_attributes only; values are non-negative
+  const attributeRows = scenarioId === 'balanced_attributes'
+    ? Array.from({ length: data.num_attributes }, (_, a) => a)
+    : [];
+  const attributeValues = data.attribute_values;
+  const attributeWeights = data.attribute_weights;
+  // Balanced categories count in every scenario: hard ones are pruned on,
+  // soft ones add their weighted spread
+  const categoryRows = Array.from({ length: data.num_categories ?? 0 }, (_, c) => c);
+  const hardCategories = categoryRows.filter((c) => data.category_hard[c]);
+  const softCategories = categoryRows.filter((c) => data.category_weights[c] > 0);
+  const categoryWeights = data.category_weights;
+  const categoryIndices = data.category_indices;
+  // Penalised pairs count in every scenario, as neighbour lists per player
+  const repeatNeighbours: { q: number; cost: number }[][] = Array.from({ length: numPlayers }, () => []);
+  for (let i = 0; i < (data.num_repeat_pairs ?? 0); i++) {
+    const [a, b, cost] = [data.repeat_a[i] - 1, data.repeat_b[i] - 1, data.repeat_costs[i]];
+    repeatNeighbours[a].push({ q: b, cost });
+    repeatNeighbours[b].push({ q: a, cost });
+  }
+
+  // Incremental state; position rows are indexed 0..NUM_POSITIONS (0 = unknown)
+  const teamOf = Array(numPlayers).fill(-1);
+  const roleOf = Array(numPlayers).fill(0);
+  const sizes = Array(numTeams).fill(0);
+  const teamRatings = Array(numTeams).fill(0);
+  const counts = Array.from({ length: NUM_POSITIONS + 1 }, () => Array(numTeams).fill(0));
+  const positionRatings = Array.from({ length: NUM_POSITIONS + 1 }, () => Array(numTeams).fill(0));
+  const remainingEligible = Array(NUM_POSITIONS + 1).fill(0);
+  const remainingEligibleRating = Array(NUM_POSITIONS + 1).fill(0);
+  const attributeTotals = attributeRows.map(() => Array(numTeams).fill(0));
+  const remainingAttribute = attributeRows.map((a) => attributeValues.reduce((sum, row) => sum + row[a], 0));
+  // Indexed [category][value - 1][team]; blank values are not counted
+  const categoryCounts = categoryRows.map((c) =>
+    Array.from({ length: data.category_sizes[c] }, () => Array(numTeams).fill(0)));
+  const remainingCategory = categoryRows.map((c) => Array(data.category_sizes[c]).fill(0));
+  // Cost each player would add by joining each team, given who is placed
+  const repeatCostTo = Array.from({ length: numPlayers }, () => Array(numTeams).fill(0));
+  let remainingRating = totalRating;
+  let offPreference = 0;
+  let repeatPenalty = 0;
+  let moves = 0;
+
+  roleOptions.forEach((options, p) => {
+    for (const q of options) {
+      remainingEligible[q]++;
+      remainingEligibleRating[q] += ratings[p];
+    }
+  });
+  categoryIndices.forEach((values) => {
+    for (const c of categoryRows) {
+      if (values[c] > 0) remainingCategory[c][values[c] - 1]++;
+    }
+  });
+
+  const positionRows = Array.from({ length: NUM_POSITIONS }, (_, i) => i + 1);
+
+  const lowerBound = (): number => fairnessBound() * moveScale + moves;
+
+  const fairnessBound = (): number => {
+    let ratingBound = spreadLowerBound(teamRatings, remainingRating);
+    if (totalRating % numTeams !== 0) ratingBound = Math.max(ratingBound, 1);
+    const categoryBound = softCategories
+      .map((c) => categoryWeights[c] * categoryCounts[c]
+        .reduce((sum, row, v) => sum + spreadLowerBound(row, remainingCategory[c][v]), 0))
+      .reduce((x, y) => x + y, 0);
+    // Every unplaced player adds at least the cheapest team's cost
+    let repeatBound = repeatPenalty;
+    for (let p = 0; p < numPlayers; p++) {
+      if (teamOf[p] === -1 && repeatNeighbours[p].length > 0) repeatBound += Math.min(...repeatCostTo[p]);
+    }
+    const sharedBound = categoryBound + repeatBound;
+    if (scenarioId === 'ratings_only') return ratingBound + sharedBound;
+    if (scenarioId === 'with_positions') {
+      return ratingBound * ratingWeight + offPreference + sharedBound + positionWeight * positionRows
+        .map((q) => spreadLowerBound(counts[q], remainingEligible[q]))
+        .reduce((a, b) => a + b, 0);
+    }
+    const attributeBound = attributeRows
+      .map((a) => attributeWeights[a] * spreadLowerBound(attributeTotals[a], remainingAttribute[a]))
+      .reduce((x, y) => x + y, 0);
+    return ratingBound * ratingWeight + offPreference + attributeBound + sharedBound + positionRatingWeight * positionRows
+      .map((q) => spreadLowerBound(positionRatings[q], remainingEligibleRating[q]))
+      .reduce((a, b) => a + b, 0);
+  };
+
+  // Hard constraints that can already be ruled out for the partial split
+  const feasible = (remainingPlayers: number): boolean => {
+    if (moves > maxMoves) return false;
+    let sizeDeficit = 0;
+    for (let t = 0; t < numTeams; t++) sizeDeficit += Math.max(0, minSize - sizes[t]);
+    if (sizeDeficit > remainingPlayers) return false;
+
+    for (const q of positionRows) {
+      const row = counts[q];
+      const min = data.position_min[q - 1];
+      let quotaDeficit = 0;
+      for (let t = 0; t < numTeams; t++) {
+        if (row[t] > data.position_max[q - 1]) return false;
+        quotaDeficit += Math.max(0, min - row[t]);
+      }
+      if (quotaDeficit > remainingEligible[q]) return false;
+      if (scenarioId === 'with_positions' && Math.max(...row) - Math.min(...row) - remainingEligible[q] > 1) {
+        return false;
+      }
+    }
+
+    for (const c of hardCategories) {
+      for (let v = 0; v < categoryCounts[c].length; v++) {
+        const row = categoryCounts[c][v];
+        if (Math.max(...row) - Math.min(...row) - remainingCategory[c][v] > 1) return false;
+      }
+    }
+    return true;
+  };
+
+  // Search order: pinned players, then strongest first so the rating bound bites early
+  const order = ratings.map((_, p) => p)
+    .sort((a, b) => Number(pinned[b] > 0) - Number(pinned[a] > 0) || ratings[b] - ratings[a]);
+
+  let best = Infinity;
+  let bestAssignment: number[] | null = null;
+  let bestRoles: number[] | null = null;
+  let nodes = 0;
+  let timedOut = false;
+  const deadline = Date.now() + timeLimit;
+  const rootBound = lowerBound();
+
+  const place = (p: number, team: number, role: number, sign: 1 | -1) => {
+    teamOf[p] = sign === 1 ? team : -1;
+    roleOf[p] = role;
+    sizes[team] += sign;
+    teamRatings[team] += sign * ratings[p];
+    counts[role][team] += sign;
+    positionRatings[role][team] += sign * ratings[p];
+    remainingRating -= sign * ratings[p];
+    for (const a of attributeRows) {
+      attributeTotals[a][team] += sign * attributeValues[p][a];
+      remainingAttribute[a] -= sign * attributeValues[p][a];
+    }
+    for (const c of categoryRows) {
+      const v = categoryIndices[p][c];
+      if (v > 0) {
+        categoryCounts[c][v - 1][team] += sign;
+        remainingCategory[c][v - 1] -= sign;
+      }
+    }
+    if (role !== preferred[p]) offPreference += sign;
+    repeatPenalty += sign * repeatCostTo[p][team];
+    for (const { q, cost } of repeatNeighbours[p]) repeatCostTo[q][team] += sign * cost;
+    if (previous[p] > 0 && team !== previous[p] - 1) moves += sign;
+    for (const q of roleOptions[p]) {
+      remainingEligible[q] -= sign;
+      remainingEligibleRating[q] -= sign * ratings[p];
+    }
+  };
+
+  function* search(depth: number, usedFreeTeams: number): Generator<void, void, void> {
+    if (timedOut || best === rootBound) return;
+    if (++nodes % DEADLINE_CHECK_INTERVAL === 0) {
+      yield;
+      if (Date.now() > deadline || signal?.aborted) {
+        timedOut = true;
+        return;
+      }
+    }
+
+    if (depth === numPlayers) {
+      if (excluded.size > 0 && excluded.has(canonicalTeamOrder(teamOf, freeTeams).join(','))) return;
+      const value = evaluateLeaf();
+      if (value !== null && value < best) {
+        best = value;
+        bestAssignment = [...teamOf];
+        bestRoles = [...roleOf];
+        onImprove?.(canonicalTeamOrder(bestAssignment, freeTeams), bestRoles);
+      }
+      return;
+    }
+
+    const p = order[depth];
+    // Free teams are interchangeable: only open one new free team per level
+    const candidates = pinned[p] > 0
+      ? [pinned[p] - 1]
+      : [...pinnedTeams, ...freeTeams.slice(0, usedFreeTeams + 1)];
+    const teams = candidates
+      .filter((t) => sizes[t] < maxSize)
+      .filter((t) => together[p].every((o) => teamOf[o] === -1 || teamOf[o] === t))
+      .filter((t) => apart[p].every((o) => teamOf[o] !== t))
+      .sort((a, b) => Number(b === previous[p] - 1) - Number(a === previous[p] - 1) ||
+        repeatCostTo[p][a] - repeatCostTo[p][b] || teamRatings[a] - teamRatings[b]);
+
+    for (const role of roleOptions[p]) {
+      for (const team of teams) {
+        place(p, team, role, 1);
+        if (feasible(numPlayers - depth - 1) && lowerBound() < best) {
+          yield* search(depth + 1, Math.max(usedFreeTeams, freeTeams.indexOf(team) + 1));
+        }
+        place(p, team, role, -1);
+        if (timedOut) return;
+      }
+    }
+  }
+
+  const evaluateLeaf = (): number | null => {
+    const value = evaluateFairness();
+    return value === null ? null : value * moveScale + moves;
+  };
+
+  const evaluateFairness = (): number | null => {
+    for (const q of positionRows) {
+      if (counts[q].some((c) => c < data.position_min[q - 1])) return null;
+    }
+    const spreadOf = (row: number[]) => Math.max(...row) - Math.min(...row);
+    if (spreadOf(sizes) > data.size_tolerance) return null;
+    const ratingDiff = spreadOf(teamRatings);
+    for (const c of hardCategories) {
+      if (categoryCounts[c].some((row) => spreadOf(row) > 1)) return null;
+    }
+    const categoryDiff = softCategories.reduce(
+      (sum, c) => sum + categoryWeights[c] * categoryCounts[c].reduce((s, row) => s + spreadOf(row), 0),
+      0
+    );
+    const sharedDiff = categoryDiff + repeatPenalty;
+    if (scenarioId === 'ratings_only') return ratingDiff + sharedDiff;
+    if (scenarioId === 'with_positions') {
+      let positionDiff = 0;
+      for (const q of positionRows) {
+        const diff = spreadOf(counts[q]);
+        if (diff > 1) return null;
+        positionDiff += diff;
+      }
+      return ratingDiff * ratingWeight + positionDiff * positionWeight + offPreference + sharedDiff;
+    }
+    const positionRatingDiff = positionRows.reduce((sum, q) => sum + spreadOf(positionRatings[q]), 0);
+    const attributeDiff = attributeRows.reduce((sum, a) => sum + attributeWeights[a] * spreadOf(attributeTotals[a]), 0);
+    return (
+      positionRatingDiff * positionRatingWeight + ratingDiff * ratingWeight + offPreference + attributeDiff + sharedDiff
+    );
+  };
+
+  yield* search(0, 0);
+
+  return {
+    assignment: bestAssignment && canonicalTeamOrder(bestAssignment, freeTeams),
+    roles: bestRoles,
+    complete: !timedOut,
+    nodes,
+  };
+}
+
+/**
+ * Renumber the free teams (those without a pinned player) in order of first
+ * appearance by player index, matching the models' value_precede_chain
+ * symmetry breaking. Teams with a pinned player keep their number.
+ */
+function canonicalTeamOrder(assignment: number[], freeTeams: number[]): number[] {
+  const relabel = new Map<number, number>();
+  return assignment.map((team) => {
+    if (!freeTeams.includes(team)) return team;
+    if (!relabel.has(team)) relabel.set(team, freeTeams[relabel.size]);
+    return relabel.get(team)!;
+  });
+}
+
+export class BuiltinSolverService implements TeamSolver {
+  private mode: ExecutionMode;
+
+  constructor() {
+    this.mode = typeof window === 'undefined' ? 'node' : 'browser';
+  }
+
+  async init(): Promise<void> {
+    // Nothing to load
+  }
+
+  isSolverAvailable(solver: string): boolean {
+    return solver === BUILTIN_SOLVER;
+  }
+
+  async solve(
+    _modelCode: string,
+    data: ModelData,
+    config: SolverConfig,
+    modelFilename: string = 'model.mzn'
+  ): Promise<SolverResult> {
+    const startTime = Date.now();
+    const scenarioId = scenarioForModelFile(modelFilename);
+
+    if (!scenarioId) {
+      return {
+        status: 'ERROR',
+        solution: null,
+        statistics: null,
+        solveTime: 0,
+        errorMessage:
+          `The built-in solver only supports the bundled scenarios ` +
+          `(${Object.values(SCENARIOS).map((s) => s.modelFile).join(', ')}), not "${modelFilename}"`,
+        solver: BUILTIN_SOLVER,
+      };
+    }
+
+    const onSolution = config.onSolution;
+    const outcome = await searchSplit(scenarioId, data, {
+      timeLimit: config.timeLimit || DEFAULT_TIME_LIMIT,
+      signal: config.signal,
+      onImprove: onSolution && ((assignment, roles) => {
+        const solution = evaluateSplit(scenarioId, data, assignment, roles);
+        onSolution({
+          solver: BUILTIN_SOLVER,
+          objective: objectiveValue(solution),
+          elapsed: Date.now() - startTime,
+          solution,
+        });
+      }),
+    });
+    const solveTime = Date.now() - startTime;
+    const statistics = { nodes: outcome.nodes, solveTime };
+
+    if (!outcome.assignment) {
+      return {
+        status: outcome.complete ? 'UNSATISFIABLE' : 'UNKNOWN',
+        solution: null,
+        statistics,
+        solveTime,
+        solver: BUILTIN_SOLVER,
+      };
+    }
+
+    return {
+      status: outcome.complete ? 'OPTIMAL' : 'SATISFIED',
+      solution: evaluateSplit(scenarioId, data, outcome.assignment, outcome.roles ?? undefined),
+      statistics,
+      solveTime,
+      solver: BUILTIN_SOLVER,
+    };
+  }
+
+  getMode(): ExecutionMode {
+    return this.mode;
+  }
+
+  getAvailableSolvers(): string[] {
+    return [BUILTIN_SOLVER];
+  }
+}
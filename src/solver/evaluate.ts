@@ -0,0 +1,167 @@
+/**
+ * Scenario metrics computed in TypeScript from an assignment
+ *
+ * Mirrors the definitions in models/*.mzn so that a split can be scored
+ * without MiniZinc (built-in solver) and compared against a model's output.
+ */
+
+import {
+  NUM_POSITIONS,
+  POSITIONS,
+  SCENARIOS,
+  type ScenarioId,
+} from '../shared/constants.js';
+import { attributeTotals } from '../shared/attributes.js';
+import { categoryCounts, categorySpreads } from '../shared/categories.js';
+import { freshness, repeatPenalty } from '../shared/mixer.js';
+import { countMoves } from '../shared/rebalance.js';
+import type { ModelData, TeamAssignment } from './types.js';
+
+/**
+ * Scenario whose bundled model file has the given name, if any
+ */
+export function scenarioForModelFile(modelFilename: string): ScenarioId | null {
+  const entry = Object.values(SCENARIOS).find((s) => s.modelFile === modelFilename);
+  return entry ? (entry.id as ScenarioId) : null;
+}
+
+/**
+ * Whether a scenario lets the solver pick roles for multi-position players
+ */
+export function scenarioUsesRoles(scenarioId: ScenarioId): boolean {
+  return scenarioId !== 'ratings_only';
+}
+
+function spreadOf(values: number[]): number {
+  return values.length === 0 ? 0 : Math.max(...values) - Math.min(...values);
+}
+
+/**
+ * Compute every metric the scenario's model reports for a split.
+ * `roles` holds the position index each player fills; when omitted each
+ * player plays their preferred position.
+ */
+export function evaluateSplit(
+  scenarioId: ScenarioId,
+  data: ModelData,
+  assignment: number[],
+  roles?: number[]
+): TeamAssignment {
+  const numTeams = data.num_teams;
+  const preferred = data.position_indices ?? [];
+  const roleOf = (p: number): number =>
+    scenarioUsesRoles(scenarioId) && roles ? roles[p] : preferred[p] ?? 0;
+
+  const teamSizes = Array(numTeams).fill(0);
+  const teamRatings = Array(numTeams).fill(0);
+  // Indexed [position index][team]; row 0 collects unknown positions
+  const counts = Array.from({ length: NUM_POSITIONS + 1 }, () => Array(numTeams).fill(0));
+  const positionRatings = Array.from({ length: NUM_POSITIONS + 1 }, () => Array(numTeams).fill(0));
+
+  assignment.forEach((team, p) => {
+    const role = roleOf(p);
+    teamSizes[team]++;
+    teamRatings[team] += data.ratings[p];
+    counts[role][team]++;
+    positionRatings[role][team] += data.ratings[p];
+  });
+
+  const ratingDiff = spreadOf(teamRatings);
+  // Every scenario balances the chosen categories and penalises repeated
+  // pairs; the soft categories' weighted spreads and the penalty add to its objective
+  const categories = categoryCounts(data, assignment);
+  const categorySpreadList = categorySpreads(categories);
+  const categoryDiff = categorySpreadList.reduce(
+    (sum, categorySpread, c) => sum + data.category_weights[c] * categorySpread,
+    0
+  );
+  const penalty = repeatPenalty(data, assignment);
+  const solution: TeamAssignment = {
+    num_teams: numTeams,
+    team_sizes: teamSizes,
+    team_ratings: teamRatings,
+    rating_difference: ratingDiff,
+    freshness: freshness(data, assignment),
+    category_counts: categories.flat(2),
+    category_spreads: categorySpreadList,
+    category_diff: categoryDiff,
+    repeat_penalty: penalty,
+    moves: countMoves(data, assignment),
+    assignment: [...assignment],
+  };
+
+  if (!scenarioUsesRoles(scenarioId)) {
+    return solution;
+  }
+
+  const effectiveRoles = assignment.map((_, p) => roleOf(p));
+  const offPreference = effectiveRoles.filter((role, p) => role !== (preferred[p] ?? 0)).length;
+  const { forward, midfield, defense, goalkeeper } = POSITIONS;
+
+  Object.assign(solution, {
+    forwards: counts[forward.index],
+    midfield: counts[midfield.index],
+    defense: counts[defense.index],
+    goalkeepers: counts[goalkeeper.index],
+    off_preference: offPreference,
+    roles: effectiveRoles,
+  });
+
+  if (scenarioId === 'with_positions') {
+    const positionDiff = [forward, midfield, defense, goalkeeper]
+      .map((pos) => spreadOf(counts[pos.index]))
+      .reduce((a, b) => a + b, 0);
+    solution.position_diff = positionDiff;
+    solution.rating_weight = data.rating_weight;
+    solution.position_weight = data.position_weight;
+    solution.objective =
+      ratingDiff * data.rating_weight + positionDiff * data.position_weight + offPreference +
+      categoryDiff + penalty;
+  } else {
+    solution.forward_ratings = positionRatings[forward.index];
+    solution.midfield_ratings = positionRatings[midfield.index];
+    solution.defense_ratings = positionRatings[defense.index];
+    solution.goalkeeper_ratings = positionRatings[goalkeeper.index];
+    solution.forward_rating_diff = spreadOf(solution.forward_ratings);
+    solution.midfield_rating_diff = spreadOf(solution.midfield_ratings);
+    solution.defense_rating_diff = spreadOf(solution.defense_ratings);
+    solution.goalkeeper_rating_diff = spreadOf(solution.goalkeeper_ratings);
+    solution.rating_weight = data.rating_weight;
+    solution.position_rating_weight = data.position_rating_weight;
+    solution.objective =
+      data.position_rating_weight *
+        (solution.forward_rating_diff +
+          solution.midfield_rating_diff +
+          solution.defense_rating_diff +
+          solution.goalkeeper_rating_diff) +
+      ratingDiff * data.rating_weight +
+      offPreference +
+      categoryDiff +
+      penalty;
+  }
+
+  // balanced_attributes adds the weighted attribute spreads to the position-wise objective
+  if (scenarioId === 'balanced_attributes') {
+    const totals = attributeTotals(data, assignment);
+    solution.attribute_totals = totals.flat();
+    solution.attribute_spreads = totals.map(spreadOf);
+    solution.attribute_weights = [...data.attribute_weights];
+    solution.objective = solution.attribute_spreads.reduce(
+      (sum, attributeSpread, a) => sum + data.attribute_weights[a] * attributeSpread,
+      solution.objective ?? 0
+    );
+  }
+
+  return solution;
+}
+
+/**
+ * Objective a solution was scored by (rating spread plus weighted category
+ * spreads and repeat penalty for ratings_only, which has no separate objective)
+ */
+export function objectiveValue(solution: TeamAssignment): number {
+  return (
+    solution.objective ??
+    solution.rating_difference + (solution.category_diff ?? 0) + (solution.repeat_penalty ?? 0)
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * Portfolio solver: race several solvers on the same model and keep the
+ * first proven answer
+ */
+
+import { PORTFOLIO_SOLVER } from '../shared/constants.js';
+import { objectiveValue } from './evaluate.js';
+import type {
+  ExecutionMode,
+  MiniZincInitConfig,
+  ModelData,
+  SolverConfig,
+  SolverResult,
+  SolverRun,
+  TeamSolver,
+} from './types.js';
+
+// Statuses no other solver can improve on
+const PROVEN_STATUSES: SolverResult['status'][] = ['OPTIMAL', 'UNSATISFIABLE'];
+
+export class PortfolioSolverService implements TeamSolver {
+  constructor(
+    private service: TeamSolver,
+    private solvers: string[] = service.getAvailableSolvers()
+  ) {}
+
+  async init(config?: MiniZincInitConfig): Promise<void> {
+    await this.service.init(config);
+  }
+
+  isSolverAvailable(solver: string): boolean {
+    return solver === PORTFOLIO_SOLVER;
+  }
+
+  /**
+   * Launch every solver in parallel (separate processes in Node, separate
+   * workers in WASM mode). The first OPTIMAL or UNSATISFIABLE result wins
+   * and the others are cancelled. Without a proven result, the best
+   * SATISFIED one is returned.
+   */
+  async solve(
+    modelCode: string,
+    data: ModelData,
+    config: SolverConfig,
+    modelFilename: string = 'model.mzn'
+  ): Promise<SolverResult> {
+    if (this.solvers.length === 0) {
+      return {
+        status: 'ERROR',
+        solution: null,
+        statistics: null,
+        solveTime: 0,
+        errorMessage: 'No solvers available to race',
+      };
+    }
+
+    const startTime = Date.now();
+    const controllers = this.solvers.map(() => new AbortController());
+    config.signal?.addEventListener('abort', () => controllers.forEach((c) => c.abort()), { once: true });
+
+    // Only pass on solutions that beat every solver's best so far
+    let bestObjective = Infinity;
+    const onSolution: SolverConfig['onSolution'] = config.onSolution && ((update) => {
+      if (update.objective < bestObjective) {
+        bestObjective = update.objective;
+        config.onSolution!({ ...update, elapsed: Date.now() - startTime });
+      }
+    });
+
+    const runs: SolverRun[] = [];
+    const results: SolverResult[] = [];
+    let winner = -1;
+
+    await Promise.all(
+      this.solvers.map(async (solver, i) => {
+        const result = await this.service.solve(
+          modelCode,
+          data,
+          { ...config, solver: solver as SolverConfig['solver'], signal: controllers[i].signal, onSolution },
+          modelFilename
+        );
+        const cancelled = controllers[i].signal.aborted && i !== winner;
+        results[i] = result;
+        runs[i] = {
+          solver,
+          status: cancelled ? 'CANCELLED' : result.status,
+          solveTime: result.solveTime,
+          objective: result.solution ? objectiveValue(result.solution) : undefined,
+          errorMessage: result.errorMessage,
+        };
+
+        if (winner === -1 && !cancelled && PROVEN_STATUSES.includes(result.status)) {
+          winner = i;
+          controllers.forEach((c, j) => j !== i && c.abort());
+        }
+      })
+    );
+
+    if (winner === -1) {
+      winner = pickFallback(runs);
+    }
+
+    return {
+      ...results[winner],
+      solveTime: Date.now() - startTime,
+      solver: this.solvers[winner],
+      portfolio: runs,
+    };
+  }
+
+  getMode(): ExecutionMode {
+    return this.service.getMode();
+  }
+
+  getAvailableSolvers(): string[] {
+    return [...this.solvers];
+  }
+}
+
+/**
+ * Without a proven result: the SATISFIED run with the lowest objective,
+ * else the first run that did not fail, else the first run
+ */
+function pickFallback(runs: SolverRun[]): number {
+  let best = -1;
+  runs.forEach((run, i) => {
+    if (run.status !== 'SATISFIED' || run.objective === undefined) return;
+    if (best === -1 || run.objective < runs[best].objective!) best = i;
+  });
+  if (best !== -1) return best;
+
+  const usable = runs.findIndex((run) => run.status !== 'ERROR' && run.status !== 'CANCELLED');
+  return usable === -1 ? 0 : usable;
+}
@@ -0,0 +1,73 @@
+/**
+ * Scenario registry: discovers MiniZinc models and their manifests in a
+ * models directory (Node only)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SCENARIOS, SCENARIO_MANIFEST_SUFFIX } from '../shared/constants.js';
+import { parseScenarioManifest } from '../shared/scenarios.js';
+import type { ScenarioDefinition, ScenarioRegistry } from './types.js';
+
+/**
+ * Register every <name>.mzn in `dir` that has a valid <name>.scenario.json
+ * next to it. Models without a manifest, invalid manifests and duplicate
+ * ids are skipped and reported in `problems`. The directory is read on
+ * every call, so new models show up without a restart.
+ */
+export function loadScenarioRegistry(dir: string): ScenarioRegistry {
+  const registry: ScenarioRegistry = { dir: path.resolve(dir), scenarios: [], problems: [] };
+
+  let files: string[];
+  try {
+    files = fs.readdirSync(registry.dir);
+  } catch (error) {
+    registry.problems.push(`Cannot read models directory ${registry.dir}: ${(error as Error).message}`);
+    return registry;
+  }
+
+  for (const modelFile of files.filter((f) => f.endsWith('.mzn')).sort()) {
+    const manifestFile = modelFile.replace(/\.mzn$/, SCENARIO_MANIFEST_SUFFIX);
+    if (!files.includes(manifestFile)) {
+      registry.problems.push(`${modelFile}: no ${manifestFile} manifest, skipped`);
+      continue;
+    }
+
+    let scenario: ScenarioDefinition;
+    try {
+      const manifest = JSON.parse(fs.readFileSync(path.join(registry.dir, manifestFile), 'utf8'));
+      scenario = parseScenarioManifest(manifest, modelFile);
+    } catch (error) {
+      registry.problems.push(`${manifestFile}: ${(error as Error).message}`);
+      continue;
+    }
+
+    const existing = findScenario(registry, scenario.id);
+    if (existing) {
+      registry.problems.push(
+        `${manifestFile}: scenario id "${scenario.id}" is already used by ${existing.modelFile}`
+      );
+      continue;
+    }
+    registry.scenarios.push(scenario);
+  }
+
+  // Bundled scenarios first, in their usual order, then custom ones by id
+  const bundledOrder = Object.keys(SCENARIOS);
+  const rank = (s: ScenarioDefinition) =>
+    s.builtin ? bundledOrder.indexOf(s.id) : bundledOrder.length;
+  registry.scenarios.sort((a, b) => rank(a) - rank(b) || a.id.localeCompare(b.id));
+
+  return registry;
+}
+
+export function findScenario(registry: ScenarioRegistry, id: string): ScenarioDefinition | undefined {
+  return registry.scenarios.find((s) => s.id === id);
+}
+
+/**
+ * Source of a registered scenario's model
+ */
+export function readScenarioModel(registry: ScenarioRegistry, scenario: ScenarioDefinition): string {
+  return fs.readFileSync(path.join(registry.dir, scenario.modelFile), 'utf8');
+}
@@ -0,0 +1,88 @@
+/**
+ * Social mixer rounds: solve one split per round, penalising pairs who were
+ * teammates in an earlier round
+ */
+
+import type { ScenarioId } from '../shared/constants.js';
+import { buildRepeatData, mergeRepeatData, teammateCounts } from '../shared/mixer.js';
+import { objectiveValue } from './evaluate.js';
+import { verifySolution } from './verify.js';
+import type {
+  ModelData,
+  SolverConfig,
+  SolverResult,
+  SplitRound,
+  TeamSolver,
+} from './types.js';
+
+export interface RoundOptions {
+  rounds: number;
+  /** Cost of each earlier round a pair of players shared a team */
+  repeatPenalty: number;
+  /** Bundled scenario the model implements (null for a custom model) */
+  scenarioId: ScenarioId | null;
+}
+
+/**
+ * Solve `rounds` splits one after another. Each round is a full solve whose
+ * objective adds the repeat penalty for every pair who already shared a team
+ * (on top of any pairs the data already penalises),
+ * so the time limit applies per round. Each round is verified against the
+ * data it was solved with. The returned result is the first round, with
+ * every round solved listed in `rounds` (UNKNOWN with no rounds when
+ * cancelled before the first round).
+ */
+export async function solveRounds(
+  service: TeamSolver,
+  modelCode: string,
+  data: ModelData,
+  config: SolverConfig,
+  modelFilename: string,
+  { rounds, repeatPenalty, scenarioId }: RoundOptions
+): Promise<SolverResult> {
+  const assignments: number[][] = [];
+  const splits: SplitRound[] = [];
+  let first: SolverResult | null = null;
+  let solveTime = 0;
+
+  while (splits.length < rounds && !config.signal?.aborted) {
+    // Pairs already penalised (e.g. recent weeks' teammates) stay penalised
+    const roundData: ModelData = {
+      ...data,
+      ...mergeRepeatData(data, buildRepeatData(teammateCounts(data.num_players, assignments), repeatPenalty)),
+    };
+    const result = await service.solve(modelCode, roundData, config, modelFilename);
+    first ??= result;
+    solveTime += result.solveTime;
+
+    const solution = result.solution;
+    if ((result.status !== 'OPTIMAL' && result.status !== 'SATISFIED') || !solution?.assignment) {
+      break;
+    }
+
+    splits.push({
+      round: splits.length + 1,
+      status: result.status,
+      objective: objectiveValue(solution),
+      solution,
+      verification: {
+        ...verifySolution(scenarioId, roundData, solution),
+        timeLimited: result.status === 'SATISFIED',
+      },
+    });
+    assignments.push(solution.assignment);
+  }
+
+  // Cancelled before the first round finished: nothing was solved
+  if (!first) {
+    return {
+      status: 'UNKNOWN',
+      solution: null,
+      statistics: null,
+      solveTime,
+      errorMessage: 'Cancelled before the first round was solved',
+      rounds: [],
+    };
+  }
+  return { ...first, solveTime, rounds: splits };
+}
@@ -1,13 +1,19 @@
 import * as MiniZinc from 'minizinc';
+import { BUILTIN_SOLVER, PORTFOLIO_SOLVER } from '../shared/constants.js';
+import { BuiltinSolverService } from './builtin.js';
+import { PortfolioSolverService } from './portfolio.js';
+import { objectiveValue } from './evaluate.js';
 import type {
   ExecutionMode,
   MiniZincInitConfig,
   ModelData,
   SolverConfig,
   SolverResult,
+  TeamAssignment,
+  TeamSolver,
 } from './types.js';
 
-export class MiniZincService {
+export class MiniZincService implements TeamSolver {
   private mode: ExecutionMode;
   private initialized: boolean = false;
 
@@ -37,6 +43,21 @@ export class MiniZincService {
     this.initialized = true;
   }
 
+  /**
+   * Whether the MiniZinc executable can actually be run (init does not check)
+   */
+  async isInstalled(): Promise<boolean> {
+    if (this.mode === 'browser') {
+      return this.initialized;
+    }
+    try {
+      await MiniZinc.version();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   isSolverAvailable(solver: string): boolean {
     if (this.mode === 'browser') {
       const wasmSolvers = ['gecode', 'chuffed', 'cbc'];
@@ -75,60 +96,44 @@ export class MiniZincService {
           solver: config.solver,
           'time-limit': config.timeLimit || 10000,
           'all-solutions': config.allSolutions || false,
+          ...(config.onSolution ? { 'intermediate-solutions': true } : {}),
           statistics: true,
         },
       });
 
-      const result = await solve;
-      const solveTime = Date.now() - startTime;
+      // Report each improving solution as the solver prints it
+      if (config.onSolution) {
+        solve.on('solution', (event) => {
+          const solution = parseModelOutput(event.output?.default);
+          if (solution) {
+            config.onSolution!({
+              solver: config.solver,
+              objective: objectiveValue(solution),
+              elapsed: Date.now() - startTime,
+              solution,
+            });
+          }
+        });
+      }
 
-      // Extract solution data from minizinc result
-      // The result structure varies between Node and WASM modes
-      const resultAny = result as any;
-
-      // Try to parse JSON from solver output blocks
-      let parsed: any = null;
-      const rawOutput =
-        resultAny?.output ??
-        resultAny?.solution?.output?.default ??
-        null;
-
-      if (typeof rawOutput === 'string') {
-        try {
-          parsed = JSON.parse(rawOutput.trim());
-        } catch {
-          // ignore parsing errors
-        }
+      // Kill the solver process (or WASM worker) if the caller gives up on it
+      if (config.signal?.aborted) {
+        solve.cancel();
+      } else {
+        config.signal?.addEventListener('abort', () => solve.cancel(), { once: true });
       }
 
-      // Extract status - try multiple locations
-      const status =
-        parsed?.status ||
-        resultAny?.status ||
-        resultAny?.result?.status ||
-        resultAny?.solution?.status ||
-        (parsed ? 'OPTIMAL' : 'UNKNOWN');
-
-      // Extract solution - try multiple locations
-      const extractedSolution =
-        parsed?.solution ||
-        resultAny?.solution?.output?.json ||
-        resultAny?.solution?.solution ||
-        resultAny?.solution ||
-        resultAny?.result ||
-        null;
-
-      // Extract statistics
-      const statistics =
-        parsed?.statistics ||
-        resultAny?.statistics ||
-        resultAny?.result?.statistics ||
-        null;
+      const result = await solve;
+      const solveTime = Date.now() - startTime;
+
+      // The model prints its solution as JSON in the default output section;
+      // the status is the solver's own, not anything the model prints
+      const parsed = parseModelOutput(result.solution?.output?.default);
 
       return {
-        status,
-        solution: extractedSolution,
-        statistics,
+        status: solverStatus(result.status, parsed !== null),
+        solution: parsed,
+        statistics: result.statistics ?? null,
         solveTime,
       };
     } catch (error: unknown) {
@@ -181,3 +186,72 @@ export class MiniZincService {
     return ['cbc', 'coinbc', 'cp-sat', 'chuffed'];
   }
 }
+
+/**
+ * Parse the JSON object printed by a model's output block. Models print
+ * `{ "solution": { ... } }`; a bare solution object is accepted too.
+ */
+function parseModelOutput(rawOutput: unknown): TeamAssignment | null {
+  if (typeof rawOutput !== 'string') {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(rawOutput.trim());
+    if (!parsed || typeof parsed !== 'object') {
+      return null;
+    }
+    return parsed.solution ?? parsed;
+  } catch {
+    // ignore parsing errors
+    return null;
+  }
+}
+
+/**
+ * Map MiniZinc's final status onto ours. A solve stopped by the time limit
+ * (or cancelled) after finding a solution reports SATISFIED, not OPTIMAL.
+ */
+function solverStatus(status: MiniZinc.Status, hasSolution: boolean): SolverResult['status'] {
+  switch (status) {
+    case 'OPTIMAL_SOLUTION':
+    case 'ALL_SOLUTIONS':
+      return 'OPTIMAL';
+    case 'SATISFIED':
+      return 'SATISFIED';
+    case 'UNSATISFIABLE':
+    case 'UNSAT_OR_UNBOUNDED':
+      return 'UNSATISFIABLE';
+    case 'ERROR':
+      return 'ERROR';
+    default:
+      return hasSolution ? 'SATISFIED' : 'UNKNOWN';
+  }
+}
+
+/**
+ * Create the service for a solver name. MiniZinc solvers (and the portfolio,
+ * which races them) fall back to the built-in solver when MiniZinc is not
+ * installed or fails to load.
+ */
+export async function createSolverService(
+  solver: string,
+  config?: MiniZincInitConfig
+): Promise<{ service: TeamSolver; fallback: boolean }> {
+  if (solver === BUILTIN_SOLVER) {
+    return { service: new BuiltinSolverService(), fallback: false };
+  }
+
+  const service = new MiniZincService();
+  try {
+    await service.init(config);
+    if (await service.isInstalled()) {
+      return {
+        service: solver === PORTFOLIO_SOLVER ? new PortfolioSolverService(service) : service,
+        fallback: false,
+      };
+    }
+  } catch {
+    // Fall through to the built-in solver
+  }
+  return { service: new BuiltinSolverService(), fallback: true };
+}
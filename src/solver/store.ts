@@ -0,0 +1,40 @@
+/**
+ * Player store file: the club's squad kept as JSON between solves (Node only)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { emptyPlayerStore, parsePlayerStore } from '../shared/roster.js';
+import type { PlayerStore } from './types.js';
+
+/**
+ * Read the store at `file`; a missing file is an empty store
+ */
+export function loadPlayerStore(file: string): PlayerStore {
+  let text: string;
+  try {
+    text = fs.readFileSync(path.resolve(file), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return emptyPlayerStore();
+    }
+    throw error;
+  }
+  try {
+    return parsePlayerStore(JSON.parse(text));
+  } catch (error) {
+    throw new Error(`Player store ${path.resolve(file)} is unreadable: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Write the store, replacing the file in one step so a crash mid-write
+ * never leaves a truncated store behind
+ */
+export function savePlayerStore(file: string, store: PlayerStore): void {
+  const target = path.resolve(file);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  const temp = `${target}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(store, null, 2) + '\n');
+  fs.renameSync(temp, target);
+}
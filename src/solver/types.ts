@@ -1,30 +1,237 @@
+import type { OutputFieldType, RatingDistribution } from '../shared/constants.js';
+
 export interface Player {
   name: string;
   rating: number;
+  /** Preferred position */
+  position: string;
+  /** Every position the player can fill, preferred first (multi-position players) */
+  positions?: string[];
+  /** Position the solver assigned the player to on their team */
+  role?: string;
+  /** Stable ID of the player in the player store */
+  id?: string;
+  notes?: string;
+  /** Fixed to a team by a pin rather than placed by the solver */
+  pinned?: boolean;
+  /** Numeric attribute columns of the CSV (e.g. speed, stickwork), by column name */
+  attributes?: Record<string, number>;
+  /** Text columns of the CSV (e.g. level, club, age band), by column name; blank cells are left out */
+  categories?: Record<string, string>;
+}
+
+/**
+ * A problem found while importing one CSV row (line is 1-based, header = 1)
+ */
+export interface CSVIssue {
+  line: number;
+  column?: string;
+  message: string;
+}
+
+/**
+ * A player kept in the player store between solves
+ */
+export interface StoredPlayer {
+  /** Stable ID ("p1", "p2", ...), never reused after a player is removed */
+  id: string;
+  name: string;
+  /** Whole rating used by solves (`skill` rounded once results are recorded) */
+  rating: number;
+  /** Rating with decimals, moved by recorded results (absent until the first game) */
+  skill?: number;
+  /** Every rating change from a recorded game, oldest first */
+  ratingHistory?: RatingChange[];
+  /** Preferred position */
   position: string;
+  /** Every position the player can fill, preferred first (multi-position players) */
+  positions?: string[];
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One player's rating change from a recorded game
+ */
+export interface RatingChange {
+  game: string;
+  date: string;
+  /** Skill before and after the game */
+  before: number;
+  after: number;
+  /** Whole rating after the game */
+  rating: number;
+}
+
+/**
+ * Contents of the player store file
+ */
+export interface PlayerStore {
+  version: 1;
+  /** Number used for the next player's ID */
+  nextId: number;
+  players: StoredPlayer[];
+  /** Number used for the next session's ID */
+  nextSessionId: number;
+  sessions: TrainingSession[];
+  /** Number used for the next game's ID */
+  nextGameId: number;
+  games: GameResult[];
+}
+
+/**
+ * The score of a game played with a split, and the rating changes it caused
+ */
+export interface GameResult {
+  /** Stable ID ("g1", "g2", ...) */
+  id: string;
+  /** Day of the game, YYYY-MM-DD */
+  date: string;
+  /** Session whose split was played, when it came from one */
+  sessionId?: string;
+  /** Players of each team, Team A first */
+  teams: SessionPlayer[][];
+  /** Score of each team, in team order */
+  scores: number[];
+  kFactor: number;
+  /** Skill change of every player who was still in the store */
+  changes: { id: string; before: number; after: number }[];
+  createdAt: string;
 }
 
+/**
+ * A player on a recorded team, as they were named at the time
+ */
+export interface SessionPlayer {
+  id: string;
+  name: string;
+}
+
+/**
+ * A split solved for a session, kept so the club can look back at who
+ * played with whom
+ */
+export interface SessionSplit {
+  createdAt: string;
+  scenario: string;
+  solver?: string;
+  status: string;
+  objective?: number;
+  /** Round of a social mixer (1 = first); absent for a single split */
+  round?: number;
+  /** Players of each team, Team A first */
+  teams: SessionPlayer[][];
+}
+
+/**
+ * One training or match day: who turned up, and the splits solved for them
+ */
+export interface TrainingSession {
+  /** Stable ID ("s1", "s2", ...) */
+  id: string;
+  /** Day of the session, YYYY-MM-DD */
+  date: string;
+  /** IDs of the stored players who checked in */
+  present: string[];
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+  splits: SessionSplit[];
+}
+
+/**
+ * Outcome of importing a CSV into the player store
+ */
+export interface PlayerImport {
+  created: StoredPlayer[];
+  updated: StoredPlayer[];
+  /** Rows left out, e.g. a rating outside the allowed range */
+  skipped: string[];
+}
+
+/**
+ * Row-level validation report produced by parseCSV. Rows with errors are
+ * left out of the roster; warnings are fixed up and the row is kept.
+ */
+export interface CSVReport {
+  delimiter: string;
+  rowCount: number;
+  playerCount: number;
+  warnings: CSVIssue[];
+  errors: CSVIssue[];
+}
+
+/**
+ * Solver output for a split into num_teams sides. Per-team arrays are
+ * indexed by team number (0 = Team A, 1 = Team B, ...).
+ */
 export interface TeamAssignment {
-  team_a: Player[];
-  team_b: Player[];
-  total_rating_a: number;
-  total_rating_b: number;
+  num_teams?: number;
+  team_sizes?: number[];
+  team_ratings?: number[];
+  /** Spread of team total ratings (max - min) */
   rating_difference: number;
   assignment?: number[];
-  team_a_size?: number;
-  team_b_size?: number;
-  forwards_a?: number;
-  forwards_b?: number;
-  midfield_a?: number;
-  midfield_b?: number;
-  defense_a?: number;
-  defense_b?: number;
+  forwards?: number[];
+  midfield?: number[];
+  defense?: number[];
+  goalkeepers?: number[];
+  position_diff?: number;
+  rating_weight?: number;
+  position_weight?: number;
+  position_rating_weight?: number;
+  forward_ratings?: number[];
+  midfield_ratings?: number[];
+  defense_ratings?: number[];
+  forward_rating_diff?: number;
+  midfield_rating_diff?: number;
+  defense_rating_diff?: number;
+  goalkeeper_ratings?: number[];
+  goalkeeper_rating_diff?: number;
+  /** Assigned position index per player (with_positions / balanced_positions) */
+  roles?: number[];
+  /** Number of players filling a position other than their preferred one */
+  off_preference?: number;
+  /** Players placed on a different team than in the previous split (rebalancing) */
+  moves?: number;
+  /** Team totals of each attribute, attribute by attribute (num_attributes * num_teams) */
+  attribute_totals?: number[];
+  /** Spread of each attribute's team totals */
+  attribute_spreads?: number[];
+  attribute_weights?: number[];
+  /** Players of each value of each balanced category per team, category then value then team */
+  category_counts?: number[];
+  /** Spread of each balanced category: its values' count spreads added up */
+  category_spreads?: number[];
+  /** Weighted sum of the soft categories' spreads */
+  category_diff?: number;
+  /** Cost of the penalised pairs (e.g. teammates in an earlier round) placed on the same team */
+  repeat_penalty?: number;
+  /** Percentage of the split's teammate pairs that are not penalised (100 = all new pairings) */
+  freshness?: number;
+  objective?: number;
 }
 
 export interface SolverConfig {
-  solver: 'cp-sat' | 'gecode' | 'chuffed' | 'cbc' | 'coinbc';
+  solver: 'cp-sat' | 'gecode' | 'chuffed' | 'cbc' | 'coinbc' | 'builtin';
   timeLimit?: number;
   allSolutions?: boolean;
+  /** Cancels the solve when aborted */
+  signal?: AbortSignal;
+  /** Called with each improving solution while the solve runs */
+  onSolution?: (update: SolutionUpdate) => void;
+}
+
+/**
+ * An intermediate solution reported during a solve
+ */
+export interface SolutionUpdate {
+  solver: string;
+  objective: number;
+  /** Milliseconds since the solve started */
+  elapsed: number;
+  solution: TeamAssignment;
 }
 
 export interface SolverResult {
@@ -33,6 +240,110 @@ export interface SolverResult {
   statistics: Record<string, number> | null;
   solveTime: number;
   errorMessage?: string;
+  /** Solver that produced the result, when it differs from the one requested */
+  solver?: string;
+  /** k best distinct splits, best first (only when more than one was asked for) */
+  alternatives?: SplitAlternative[];
+  /** Every solver raced by the portfolio solver, in launch order */
+  portfolio?: SolverRun[];
+  /** Effective weights, size tolerance and time limit the solve ran with */
+  parameters?: SolveParameters;
+  /** Solver numbers and hard rules re-checked in TypeScript */
+  verification?: Verification;
+  /** One split per round of a social mixer, first round first (only when several rounds were asked for) */
+  rounds?: SplitRound[];
+}
+
+/**
+ * One disagreement between a solution and the roster: a reported number
+ * that differs from the recomputed one, or a hard rule the split breaks
+ */
+export interface VerificationIssue {
+  /** Output field (e.g. "team_ratings") or rule (e.g. "size_tolerance") */
+  field: string;
+  message: string;
+  reported?: unknown;
+  expected?: unknown;
+}
+
+/**
+ * Independent check of a solution, recomputed from its assignment
+ */
+export interface Verification {
+  /** Every recomputed number matches and every hard rule holds */
+  verified: boolean;
+  /** Output fields that were recomputed and compared */
+  checked: string[];
+  issues: VerificationIssue[];
+  /** The solver stopped at its time limit without proving the split optimal */
+  timeLimited: boolean;
+}
+
+/**
+ * One solver's run within a portfolio race
+ */
+export interface SolverRun {
+  solver: string;
+  /** CANCELLED when another solver finished first */
+  status: SolverResult['status'] | 'CANCELLED';
+  solveTime: number;
+  objective?: number;
+  errorMessage?: string;
+}
+
+/**
+ * One of the k best distinct splits
+ */
+export interface SplitAlternative {
+  /** 1 = best */
+  rank: number;
+  status: SolverResult['status'];
+  objective: number;
+  solution: TeamAssignment;
+  verification?: Verification;
+}
+
+/**
+ * One round of a social mixer: a split solved with the teammates of the
+ * earlier rounds penalised
+ */
+export interface SplitRound {
+  /** 1 = first round */
+  round: number;
+  status: SolverResult['status'];
+  objective: number;
+  solution: TeamAssignment;
+  verification?: Verification;
+}
+
+/**
+ * Who played alongside whom across the rounds of a social mixer
+ */
+export interface TeammateSummary {
+  /** Player names, in matrix order */
+  players: string[];
+  /** Rounds each pair of players spent on the same team (0 on the diagonal) */
+  matrix: number[][];
+  /** Different teammates each player had, in player order */
+  distinctTeammates: number[];
+  /** Pairs who were teammates in more than one round */
+  repeatedPairs: number;
+}
+
+/**
+ * Common interface for MiniZincService and the built-in solver
+ */
+export interface TeamSolver {
+  init(config?: MiniZincInitConfig): Promise<void>;
+  isSolverAvailable(solver: string): boolean;
+  solve(
+    modelCode: string,
+    data: ModelData,
+    config: SolverConfig,
+    modelFilename?: string
+  ): Promise<SolverResult>;
+  getMode(): ExecutionMode;
+  getAvailableSolvers(): string[];
 }
 
 export type ExecutionMode = 'browser' | 'node';
@@ -46,10 +357,383 @@ export interface MiniZincInitConfig {
   minizincPaths?: string[];
 }
 
-export interface ModelData {
+/**
+ * Must-together / must-apart groups of player names. Every player in a
+ * together group shares a team; no two players in an apart group do.
+ */
+export interface PairingRules {
+  together: string[][];
+  apart: string[][];
+}
+
+/**
+ * Pairing rules flattened into 1-based player index pairs for the models
+ */
+export interface PairingData {
+  num_together: number;
+  together_a: number[];
+  together_b: number[];
+  num_apart: number;
+  apart_a: number[];
+  apart_b: number[];
+}
+
+/**
+ * Players fixed to a team: player name (or stored player ID) to team
+ * index (0 = Team A)
+ */
+export type TeamPins = Record<string, number>;
+
+/**
+ * Pins flattened into a per-player array for the models
+ * (team number counted from 1, 0 = free)
+ */
+export interface PinData {
+  pinned_team: number[];
+}
+
+/**
+ * Players fixed by a pin (name to team name) and those placed by the solver
+ */
+export interface PinSummary {
+  pinned: Record<string, string>;
+  optimised: string[];
+}
+
+/**
+ * A player's team in the split being rebalanced, matched to the roster by
+ * stored player ID when given, otherwise by name
+ */
+export interface PreviousPlacement {
+  name: string;
+  id?: string;
+  /** Team index (0 = Team A) */
+  team: number;
+}
+
+/**
+ * The previous split flattened for the models: previous_team[p] is the team
+ * number counted from 1 (0 = new to the split); at most max_moves players
+ * may change team
+ */
+export interface RebalanceData {
+  previous_team: number[];
+  max_moves: number;
+}
+
+/**
+ * A player who changed team (or joined one) in a rebalanced split
+ */
+export interface PlayerMove {
+  name: string;
+  /** Team name before; absent for a player new to the split */
+  from?: string;
+  to: string;
+}
+
+/**
+ * What rebalancing changed: players who switched team, late arrivals and
+ * withdrawals
+ */
+export interface RebalanceSummary {
+  moves: PlayerMove[];
+  joined: PlayerMove[];
+  withdrawn: string[];
+  maxMoves?: number;
+}
+
+/**
+ * Hard per-team bounds on how many players of one position a team fields
+ */
+export interface PositionQuota {
+  min?: number;
+  max?: number;
+}
+
+export type PositionQuotas = Partial<Record<string, PositionQuota>>;
+
+/**
+ * How to spread one categorical column: 'hard' keeps each value's count
+ * within one player across teams; a number weighs the category's spread
+ * in the objective
+ */
+export type CategoryRule = 'hard' | number;
+
+/**
+ * Categorical columns to balance, by column name
+ */
+export type CategoryBalance = Record<string, CategoryRule>;
+
+/**
+ * Balanced categories flattened for the models: category_indices[p][c] is
+ * player p's value of category c counted from 1 (0 = blank), out of
+ * category_sizes[c] values
+ */
+export interface CategoryData {
+  num_categories: number;
+  category_sizes: number[];
+  category_indices: number[][];
+  category_hard: boolean[];
+  /** Weight of each soft category's spread (0 for hard ones) */
+  category_weights: number[];
+}
+
+/**
+ * Pairs of players that cost repeat_costs[i] when placed on the same team
+ * (1-based player indices), e.g. teammates of earlier mixer rounds
+ */
+export interface RepeatData {
+  num_repeat_pairs: number;
+  repeat_a: number[];
+  repeat_b: number[];
+  repeat_costs: number[];
+}
+
+/**
+ * The splits of one past week (a training session), used to penalise pairs
+ * who were teammates recently
+ */
+export interface HistoryWeek {
+  /** Session date (YYYY-MM-DD), when known */
+  date?: string;
+  splits: PreviousPlacement[][];
+}
+
+/**
+ * How past splits are penalised: a pair costs `penalty` for each split of
+ * the latest week they shared a team in, scaled by `decay` per week older
+ */
+export interface HistorySettings {
+  /** Weeks (sessions) of history read */
+  weeks: number;
+  penalty: number;
+  decay: number;
+}
+
+/**
+ * Teammates of recent weeks placed together again in a split
+ */
+export interface HistorySummary extends HistorySettings {
+  /** Pairs placed together again, costliest first */
+  repeats: { players: [string, string]; cost: number }[];
+  /** Percentage of the split's teammate pairs that are not penalised */
+  freshness: number;
+}
+
+/**
+ * How one balanced category is distributed in a split
+ */
+export interface CategorySummary {
+  name: string;
+  rule: CategoryRule;
+  /** Players of each value per team, in team order */
+  counts: Record<string, number[]>;
+  /** The values' count spreads (max - min) added up */
+  spread: number;
+}
+
+/**
+ * Relative share of each position in a generated roster, e.g.
+ * { midfield: 1 } for an all-midfield squad
+ */
+export type PositionMix = Partial<Record<string, number>>;
+
+/**
+ * Settings for a synthetic roster
+ */
+export interface RosterOptions {
+  players: number;
+  ratings: RatingDistribution;
+  mix: PositionMix;
+  /** Share of players (0..1) who can also play a second position */
+  multiPosition: number;
+  /** Number of extra rows that repeat an earlier player's name */
+  duplicates: number;
+  /** Same seed and options always give the same roster */
+  seed: number;
+}
+
+/**
+ * One team on a team sheet, players sorted by position then name
+ */
+export interface TeamSheetTeam {
+  name: string;
+  players: Player[];
+  totalRating: number;
+  averageRating: number;
+  /** Players at each position they are playing */
+  positions: Record<string, number>;
+  /** Total rating of the players at each position */
+  positionRatings: Record<string, number>;
+}
+
+/**
+ * A solved split laid out for sharing: rosters, totals and balance stats
+ */
+export interface TeamSheet {
+  title: string;
+  scenario: string;
+  status?: string;
+  solver?: string;
+  createdAt: string;
+  teams: TeamSheetTeam[];
+  /** Spread of team total ratings (max - min) */
+  ratingSpread: number;
+  /** Spread of each position's player count across teams */
+  positionSpreads: Record<string, number>;
+  /** Spread of each position's total rating across teams */
+  positionRatingSpreads: Record<string, number>;
+  /** Players filling a position other than their preferred one */
+  offPreference: number;
+  objective?: number;
+  verified?: boolean;
+}
+
+/**
+ * A text file in an exported bundle (name may include folders)
+ */
+export interface BundleFile {
+  name: string;
+  content: string;
+}
+
+/**
+ * Everything needed to re-run a solve in MiniZinc: the scenario's model,
+ * the roster as .dzn and JSON data, and instructions
+ */
+export interface ModelBundle {
+  /** Suggested folder or .zip name */
+  name: string;
+  files: BundleFile[];
+}
+
+/**
+ * Quotas flattened into per-position arrays (index 1..NUM_POSITIONS) for the models
+ */
+export interface QuotaData {
+  position_min: number[];
+  position_max: number[];
+}
+
+/**
+ * Splits the solver must not return again, flattened row by row
+ * (num_players team numbers per excluded split)
+ */
+export interface ExclusionData {
+  num_excluded: number;
+  excluded_assignments: number[];
+}
+
+/**
+ * Objective weights; each scenario's model reads only some of them
+ */
+export interface ObjectiveWeights {
+  /** Spread of team total ratings */
+  rating: number;
+  /** Spread of position counts (with_positions) */
+  position: number;
+  /** Spread of per-position rating totals (balanced_positions) */
+  positionRating: number;
+}
+
+/**
+ * Per-request tuning of a solve
+ */
+export interface SolveParameters {
+  /** The weights the scenario's model reads (its tunable weights); no others can be set */
+  weights: Partial<ObjectiveWeights>;
+  /**
+   * Weight of each attribute's spread by attribute name; unlisted attributes
+   * use the default. Left out for scenarios that do not weigh attributes.
+   */
+  attributeWeights?: Record<string, number>;
+  /** Largest allowed difference between team sizes */
+  sizeTolerance: number;
+  /** Milliseconds */
+  timeLimit: number;
+}
+
+/**
+ * Solve parameters as passed to the models
+ */
+export interface ParameterData {
+  rating_weight: number;
+  position_weight: number;
+  position_rating_weight: number;
+  size_tolerance: number;
+}
+
+/**
+ * Numeric player attributes for the models: attribute_values[p][a] is player
+ * p's value of attribute a, weighted by attribute_weights[a]
+ */
+export interface AttributeData {
+  num_attributes: number;
+  attribute_values: number[][];
+  attribute_weights: number[];
+}
+
+/**
+ * One attribute's balance in a split
+ */
+export interface AttributeSummary {
+  name: string;
+  weight: number;
+  /** Total per team, in team order */
+  totals: number[];
+  /** Spread of the totals (max - min) */
+  spread: number;
+}
+
+export interface ModelData
+  extends PairingData, PinData, RebalanceData, QuotaData, ExclusionData, ParameterData, AttributeData,
+    CategoryData, RepeatData {
   num_players: number;
+  num_teams: number;
   ratings: number[];
   positions: string[];
   position_indices?: number[];
+  /** eligible[p][q - 1]: player p can fill position index q */
+  eligible: boolean[][];
   players?: Player[];
+  pairings?: PairingRules;
+  pins?: TeamPins;
+  previous?: PreviousPlacement[];
+  quotas?: PositionQuotas;
+  /** Attribute names, in attribute_values column order */
+  attributes?: string[];
+  /** Categories being balanced, in category_indices column order */
+  categories?: CategoryBalance;
+  /** Past weeks whose teammates are penalised */
+  history?: HistorySettings;
+}
+
+/**
+ * A scenario discovered from a model directory: a .mzn file plus its
+ * <name>.scenario.json manifest
+ */
+export interface ScenarioDefinition {
+  id: string;
+  name: string;
+  description: string;
+  /** Model file name, relative to the registry directory */
+  modelFile: string;
+  /** ModelData fields the model declares as parameters */
+  requiredData: (keyof ModelData)[];
+  /** Fields the model prints in its solution, with their value types */
+  output: Record<string, OutputFieldType>;
+  /** Defaults for the tunable weights, team-size tolerance and time limit */
+  parameters: SolveParameters;
+  /** One of the bundled scenarios, which the built-in solver also supports */
+  builtin: boolean;
+}
+
+/**
+ * Every scenario found in a model directory, plus the files that were
+ * skipped and why
+ */
+export interface ScenarioRegistry {
+  dir: string;
+  scenarios: ScenarioDefinition[];
+  problems: string[];
 }
@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import type { ScenarioId } from '../shared/constants.js';
+import { applyCategoryBalance } from '../shared/categories.js';
+import { applyPairingRules } from '../shared/pairings.js';
+import { applyTeamPins } from '../shared/pins.js';
+import { applyPositionQuotas } from '../shared/quotas.js';
+import { applyRebalance } from '../shared/rebalance.js';
+import { parseCSV } from '../shared/utils.js';
+import { evaluateSplit } from './evaluate.js';
+import type { TeamAssignment } from './types.js';
+import { verifySolution } from './verify.js';
+
+const ROSTER = `name,rating,position,experience
+Aoife,8,forward,Senior
+Ciara,7,midfield,Senior
+Niamh,6,defense,Junior
+Sorcha,5,forward|midfield,Junior
+Emer,4,midfield,Senior
+Orla,3,defense,Junior`;
+
+// Positions, ratings and experience all even: 18 against 15 rating points
+const FAIR = [0, 1, 0, 1, 0, 1];
+
+const fields = (solution: TeamAssignment, data = parseCSV(ROSTER), scenarioId: ScenarioId = 'ratings_only') =>
+  verifySolution(scenarioId, data, solution).issues.map((issue) => issue.field);
+
+describe('verifySolution', () => {
+  it('accepts a fair split with its numbers as computed', () => {
+    const data = parseCSV(ROSTER);
+    const verification = verifySolution('with_positions', data, evaluateSplit('with_positions', data, FAIR));
+
+    assert.equal(verification.verified, true);
+    assert.deepEqual(verification.issues, []);
+    assert.ok(verification.checked.includes('team_ratings'));
+    assert.ok(verification.checked.includes('objective'));
+  });
+
+  it('reports a number the solver got wrong', () => {
+    const data = parseCSV(ROSTER);
+    const solution = { ...evaluateSplit('ratings_only', data, FAIR), rating_difference: 0 };
+    const verification = verifySolution('ratings_only', data, solution);
+
+    assert.equal(verification.verified, false);
+    assert.deepEqual(verification.issues.map(({ field, reported, expected }) => ({ field, reported, expected })), [
+      { field: 'rating_difference', reported: 0, expected: 3 },
+    ]);
+  });
+
+  it('rejects an assignment that does not fit the roster without checking anything else', () => {
+    const verification = verifySolution('ratings_only', parseCSV(ROSTER), { assignment: [0, 1] } as TeamAssignment);
+
+    assert.equal(verification.verified, false);
+    assert.deepEqual(verification.checked, []);
+    assert.deepEqual(verification.issues.map((issue) => issue.field), ['assignment']);
+  });
+
+  it('checks team sizes against the tolerance', () => {
+    assert.deepEqual(fields({ assignment: [0, 0, 0, 0, 0, 1] } as TeamAssignment), ['size_tolerance']);
+  });
+
+  it('checks keep-together and keep-apart rules', () => {
+    const data = parseCSV(ROSTER);
+    applyPairingRules(data, { together: [['Aoife', 'Ciara']], apart: [['Niamh', 'Orla']] });
+
+    assert.deepEqual(fields({ assignment: [0, 1, 0, 1, 1, 0] } as TeamAssignment, data), ['together', 'apart']);
+    assert.deepEqual(fields({ assignment: [0, 0, 1, 1, 1, 0] } as TeamAssignment, data), []);
+  });
+
+  it('checks pinned players', () => {
+    const data = parseCSV(ROSTER);
+    applyTeamPins(data, { Aoife: 1 });
+    const [issue] = verifySolution('ratings_only', data, { assignment: FAIR } as TeamAssignment).issues;
+
+    assert.equal(issue.field, 'pinned_team');
+    assert.equal(issue.message, 'Aoife is pinned to Team 2 but plays on Team 1');
+  });
+
+  it('checks the cap on moves from the previous split', () => {
+    const data = parseCSV(ROSTER);
+    applyRebalance(data, data.players.map((p, i) => ({ name: p.name, team: FAIR[i] })), 1);
+
+    assert.deepEqual(fields({ assignment: FAIR } as TeamAssignment, data), []);
+    assert.deepEqual(fields({ assignment: [1, 0, 0, 1, 0, 1] } as TeamAssignment, data), ['max_moves']);
+  });
+
+  it('checks position quotas on every team', () => {
+    const data = parseCSV(ROSTER);
+    applyPositionQuotas(data, { defense: { min: 1, max: 1 } });
+
+    assert.deepEqual(fields({ assignment: [0, 0, 1, 0, 1, 1] } as TeamAssignment, data), [
+      'position_quota',
+      'position_quota',
+    ]);
+  });
+
+  it('checks the position balance of with_positions only', () => {
+    const lopsided = { assignment: [0, 0, 1, 0, 1, 1] } as TeamAssignment;
+
+    assert.deepEqual(fields(lopsided, parseCSV(ROSTER), 'with_positions'), [
+      'position_balance',
+      'position_balance',
+    ]);
+    assert.deepEqual(fields(lopsided), []);
+  });
+
+  it('checks that every role is one the player can play', () => {
+    const data = parseCSV(ROSTER);
+    const solution = { assignment: FAIR, roles: [3, 2, 3, 2, 2, 3] } as TeamAssignment;
+    const issues = verifySolution('with_positions', data, solution).issues.filter((issue) => issue.field === 'roles');
+
+    assert.deepEqual(issues.map((issue) => issue.message), ['Aoife cannot play position 3']);
+  });
+
+  it('checks the even spread of hard categories', () => {
+    const data = parseCSV(ROSTER);
+    applyCategoryBalance(data, { experience: 'hard' });
+
+    assert.deepEqual(fields({ assignment: FAIR } as TeamAssignment, data), []);
+    assert.deepEqual(fields({ assignment: [0, 0, 1, 1, 0, 1] } as TeamAssignment, data), [
+      'category_balance',
+      'category_balance',
+    ]);
+  });
+
+  it('leaves the objective of a custom model unchecked', () => {
+    const data = parseCSV(ROSTER);
+    const solution = { ...evaluateSplit('ratings_only', data, FAIR), objective: 999 };
+
+    assert.equal(verifySolution(null, data, solution).verified, true);
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Verification of solver output: recompute a split's numbers in TypeScript
+ * from its assignment and check them, and the hard rules, against the roster
+ */
+
+import { NUM_POSITIONS, POSITIONS, type ScenarioId } from '../shared/constants.js';
+import { categoryCounts, categoryValuesFor } from '../shared/categories.js';
+import { countMoves } from '../shared/rebalance.js';
+import { evaluateSplit, scenarioUsesRoles } from './evaluate.js';
+import type {
+  ModelData,
+  SolverConfig,
+  SolverResult,
+  TeamAssignment,
+  Verification,
+  VerificationIssue,
+} from './types.js';
+
+// Fields that depend on the scenario's objective, compared for bundled scenarios only
+const OBJECTIVE_FIELDS = ['objective', 'rating_weight', 'position_weight', 'position_rating_weight', 'attribute_weights'];
+
+/**
+ * Every number the app can recompute for a custom scenario: sizes, totals,
+ * position counts, position-wise ratings and attribute totals (roles as reported)
+ */
+function genericMetrics(data: ModelData, assignment: number[], roles?: number[]): Record<string, unknown> {
+  const metrics: Record<string, unknown> = {
+    ...evaluateSplit('with_positions', data, assignment, roles),
+    ...evaluateSplit('balanced_attributes', data, assignment, roles),
+  };
+  OBJECTIVE_FIELDS.forEach((field) => delete metrics[field]);
+  if (!roles) {
+    delete metrics.roles;
+  }
+  return metrics;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Hard rules the split must satisfy: a valid team for every player, team
+ * sizes within the tolerance, pairings, pins, the cap on moves, position quotas,
+ * role eligibility and the even spread of hard categories. The with_positions
+ * model also keeps each position's count within 1 across teams.
+ */
+function findRuleViolations(
+  scenarioId: ScenarioId | null,
+  data: ModelData,
+  assignment: number[],
+  roles: number[] | undefined
+): VerificationIssue[] {
+  const issues: VerificationIssue[] = [];
+  const { num_players: numPlayers, num_teams: numTeams } = data;
+
+  if (assignment.length !== numPlayers) {
+    return [{
+      field: 'assignment',
+      message: `Assignment has ${assignment.length} entries for ${numPlayers} players`,
+      reported: assignment.length,
+      expected: numPlayers,
+    }];
+  }
+  const badTeam = assignment.findIndex((t) => !Number.isInteger(t) || t < 0 || t >= numTeams);
+  if (badTeam !== -1) {
+    return [{
+      field: 'assignment',
+      message: `Player ${badTeam + 1} is on team ${assignment[badTeam]}, outside 0..${numTeams - 1}`,
+      reported: assignment[badTeam],
+    }];
+  }
+
+  const sizes = Array(numTeams).fill(0);
+  assignment.forEach((t) => sizes[t]++);
+  const sizeSpread = Math.max(...sizes) - Math.min(...sizes);
+  if (sizeSpread > data.size_tolerance) {
+    issues.push({
+      field: 'size_tolerance',
+      message: `Team sizes differ by ${sizeSpread}, more than the allowed ${data.size_tolerance}`,
+      reported: sizeSpread,
+      expected: data.size_tolerance,
+    });
+  }
+
+  const nameOf = (p: number) => data.players?.[p - 1]?.name ?? `player ${p}`;
+  for (let i = 0; i < data.num_together; i++) {
+    const [a, b] = [data.together_a[i], data.together_b[i]];
+    if (assignment[a - 1] !== assignment[b - 1]) {
+      issues.push({ field: 'together', message: `${nameOf(a)} and ${nameOf(b)} must play on the same team` });
+    }
+  }
+  for (let i = 0; i < data.num_apart; i++) {
+    const [a, b] = [data.apart_a[i], data.apart_b[i]];
+    if (assignment[a - 1] === assignment[b - 1]) {
+      issues.push({ field: 'apart', message: `${nameOf(a)} and ${nameOf(b)} must play on different teams` });
+    }
+  }
+  (data.pinned_team ?? []).forEach((team, p) => {
+    if (team > 0 && assignment[p] !== team - 1) {
+      issues.push({
+        field: 'pinned_team',
+        message: `${nameOf(p + 1)} is pinned to Team ${team} but plays on Team ${assignment[p] + 1}`,
+        reported: assignment[p] + 1,
+        expected: team,
+      });
+    }
+  });
+
+  const moves = countMoves(data, assignment);
+  if (data.max_moves !== undefined && moves > data.max_moves) {
+    issues.push({
+      field: 'max_moves',
+      message: `${moves} players changed team, more than the allowed ${data.max_moves}`,
+      reported: moves,
+      expected: data.max_moves,
+    });
+  }
+
+  const preferred = data.position_indices ?? [];
+  const roleOf = (p: number) => (roles ? roles[p] : preferred[p] ?? 0);
+  if (roles) {
+    roles.forEach((role, p) => {
+      if (role > 0 && data.eligible?.[p] && !data.eligible[p][role - 1]) {
+        issues.push({ field: 'roles', message: `${nameOf(p + 1)} cannot play position ${role}`, reported: role });
+      }
+    });
+  }
+
+  for (let q = 1; q <= NUM_POSITIONS; q++) {
+    const name = Object.values(POSITIONS).find((pos) => pos.index === q)?.name ?? `position ${q}`;
+    const min = data.position_min?.[q - 1] ?? 0;
+    const max = data.position_max?.[q - 1] ?? numPlayers;
+    const row = Array.from({ length: numTeams }, (_, t) =>
+      assignment.filter((team, p) => team === t && roleOf(p) === q).length);
+    row.forEach((count, t) => {
+      if (count < min || count > max) {
+        issues.push({
+          field: 'position_quota',
+          message: `Team ${t + 1} fields ${count} ${name} player(s), outside the quota ${min}..${max}`,
+          reported: count,
+        });
+      }
+    });
+    const positionSpread = Math.max(...row) - Math.min(...row);
+    if (scenarioId === 'with_positions' && positionSpread > 1) {
+      issues.push({
+        field: 'position_balance',
+        message: `Teams field ${row.join(', ')} ${name} players, more than 1 apart`,
+        reported: positionSpread,
+        expected: 1,
+      });
+    }
+  }
+
+  const categories = Object.keys(data.categories ?? {});
+  categoryCounts(data, assignment).forEach((rows, c) => {
+    if (!data.category_hard?.[c]) return;
+    const values = data.players ? categoryValuesFor(data.players, categories[c]) : [];
+    rows.forEach((row, v) => {
+      const valueSpread = Math.max(...row) - Math.min(...row);
+      if (valueSpread > 1) {
+        issues.push({
+          field: 'category_balance',
+          message: `Teams field ${row.join(', ')} players with ${categories[c]} "${values[v] ?? v + 1}", ` +
+            'more than 1 apart',
+          reported: valueSpread,
+          expected: 1,
+        });
+      }
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Recompute every number a solution reports from its assignment and check
+ * the hard rules. `scenarioId` is the bundled scenario the model implements;
+ * pass null for a custom model, whose objective cannot be recomputed.
+ */
+export function verifySolution(
+  scenarioId: ScenarioId | null,
+  data: ModelData,
+  solution: TeamAssignment
+): Omit<Verification, 'timeLimited'> {
+  const assignment = solution.assignment ?? [];
+  const roles = scenarioId === null || scenarioUsesRoles(scenarioId) ? solution.roles : undefined;
+
+  const ruleIssues = findRuleViolations(scenarioId, data, assignment, roles);
+  if (ruleIssues.some((issue) => issue.field === 'assignment')) {
+    return { verified: false, checked: [], issues: ruleIssues };
+  }
+
+  const expected: Record<string, unknown> = scenarioId
+    ? { ...evaluateSplit(scenarioId, data, assignment, roles) }
+    : genericMetrics(data, assignment, roles);
+  delete expected.assignment;
+
+  const reported = solution as unknown as Record<string, unknown>;
+  const checked: string[] = [];
+  const issues: VerificationIssue[] = [];
+  for (const [field, value] of Object.entries(expected)) {
+    if (reported[field] === undefined) continue;
+    checked.push(field);
+    if (!sameValue(reported[field], value)) {
+      issues.push({
+        field,
+        message: `Solver reported ${field} = ${JSON.stringify(reported[field])}, recomputed ${JSON.stringify(value)}`,
+        reported: reported[field],
+        expected: value,
+      });
+    }
+  }
+
+  issues.push(...ruleIssues);
+  return { verified: issues.length === 0, checked, issues };
+}
+
+/**
+ * Attach a verification to a result and to each of its alternatives.
+ * A solve that stopped with a solution but without proof of optimality
+ * (and was not cancelled) is marked time-limited.
+ */
+export function verifyResult(
+  scenarioId: ScenarioId | null,
+  data: ModelData,
+  result: SolverResult,
+  config?: Pick<SolverConfig, 'signal'>
+): SolverResult {
+  const timeLimited =
+    (result.status === 'SATISFIED' || result.status === 'UNKNOWN') && !config?.signal?.aborted;
+
+  if (!result.solution) {
+    return timeLimited ? { ...result, verification: { verified: false, checked: [], issues: [], timeLimited } } : result;
+  }
+
+  return {
+    ...result,
+    verification: { ...verifySolution(scenarioId, data, result.solution), timeLimited },
+    alternatives: result.alternatives?.map((alt) => ({
+      ...alt,
+      verification: {
+        ...verifySolution(scenarioId, data, alt.solution),
+        timeLimited: alt.status === 'SATISFIED',
+      },
+    })),
+  };
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { SCENARIOS } from '../shared/constants.js';
+import { formatRosterCSV, generateRoster } from '../shared/generator.js';
+import { applySolveParameters, defaultSolveParameters } from '../shared/parameters.js';
+import { parseCSV } from '../shared/utils.js';
+import { BuiltinSolverService } from '../solver/builtin.js';
+import type { SolverResult } from '../solver/types.js';
+import { cancelJob, createJob, runJob } from './jobs.js';
+
+describe('solve jobs with the built-in solver', () => {
+  it('streams splits while solving and ends cancelled soon after a cancel', async () => {
+    // Far too large to prove optimal within the time limit
+    const data = parseCSV(formatRosterCSV(generateRoster({ players: 40, seed: 7 })));
+    data.num_teams = 3;
+    applySolveParameters(data, defaultSolveParameters('balanced_positions'));
+
+    const service = new BuiltinSolverService();
+    const job = createJob();
+    const startTime = Date.now();
+    const done = runJob(
+      job,
+      (extra) => service.solve(
+        '',
+        data,
+        { solver: 'builtin', timeLimit: 30000, ...extra },
+        SCENARIOS.balanced_positions.modelFile
+      ),
+      { respond: (result: SolverResult) => ({ status: result.status }) }
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    assert.equal(job.status, 'running');
+    assert.ok(job.events.some((e) => e.event === 'solution'), 'expected a split before the cancel');
+    cancelJob(job);
+    await done;
+
+    assert.equal(job.status, 'cancelled');
+    assert.equal(job.events[job.events.length - 1].event, 'cancelled');
+    assert.ok(Date.now() - startTime < 5000, `took ${Date.now() - startTime} ms`);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * In-memory solve jobs streamed to clients as Server-Sent Events
+ */
+
+import { randomUUID } from 'crypto';
+import type { Response } from 'express';
+
+import type { SolverConfig } from '../solver/types.js';
+
+export type JobStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * One SSE message: "solution" for each improving split, then a final
+ * "result", "cancelled" or "error"
+ */
+export interface JobEvent {
+  event: 'solution' | 'result' | 'cancelled' | 'error';
+  data: unknown;
+}
+
+export interface SolveJob {
+  id: string;
+  status: JobStatus;
+  createdAt: number;
+  /** Every event so far, replayed to clients that subscribe late */
+  events: JobEvent[];
+  controller: AbortController;
+  subscribers: Set<Response>;
+}
+
+// How long a finished job stays available to late subscribers
+const JOB_RETENTION_MS = 10 * 60 * 1000;
+
+const jobs = new Map<string, SolveJob>();
+
+export function createJob(): SolveJob {
+  const job: SolveJob = {
+    id: randomUUID(),
+    status: 'running',
+    createdAt: Date.now(),
+    events: [],
+    controller: new AbortController(),
+    subscribers: new Set(),
+  };
+  jobs.set(job.id, job);
+  return job;
+}
+
+export function getJob(id: string): SolveJob | undefined {
+  return jobs.get(id);
+}
+
+function writeEvent(res: Response, event: JobEvent, id: number): void {
+  res.write(`id: ${id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+/**
+ * Record an event and push it to every connected client
+ */
+export function emitJobEvent(job: SolveJob, event: JobEvent): void {
+  job.events.push(event);
+  for (const res of job.subscribers) {
+    writeEvent(res, event, job.events.length - 1);
+  }
+}
+
+/**
+ * Emit the final event, close every stream and schedule the job for removal
+ */
+export function finishJob(job: SolveJob, status: Exclude<JobStatus, 'running'>, event: JobEvent): void {
+  if (job.status !== 'running') return;
+  job.status = status;
+  emitJobEvent(job, event);
+  for (const res of job.subscribers) {
+    res.end();
+  }
+  job.subscribers.clear();
+  setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS).unref();
+}
+
+/**
+ * Open an SSE stream for a job. Events already emitted are replayed first
+ * (after Last-Event-ID when the browser reconnects).
+ */
+export function subscribeToJob(job: SolveJob, res: Response, lastEventId?: string): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const from = lastEventId === undefined ? 0 : Number(lastEventId) + 1;
+  job.events.slice(from).forEach((event, i) => writeEvent(res, event, from + i));
+
+  if (job.status !== 'running') {
+    res.end();
+    return;
+  }
+  job.subscribers.add(res);
+  res.on('close', () => job.subscribers.delete(res));
+}
+
+/**
+ * Stop a running job's solver. The job finishes as "cancelled" once the
+ * solver has stopped.
+ */
+export function cancelJob(job: SolveJob): void {
+  job.controller.abort();
+}
+
+/**
+ * Run a job's solve with its abort signal, streaming each improving split,
+ * then finish the job: "cancelled" if it was cancelled meanwhile (even if the
+ * solver returned a split), otherwise "completed" with `respond(result)`
+ */
+export async function runJob<T>(
+  job: SolveJob,
+  solve: (extra: Pick<SolverConfig, 'signal' | 'onSolution'>) => Promise<T>,
+  { respond, onCompleted }: { respond: (result: T) => unknown; onCompleted?: (result: T) => void }
+): Promise<void> {
+  try {
+    const result = await solve({
+      signal: job.controller.signal,
+      onSolution: (update) => emitJobEvent(job, { event: 'solution', data: update }),
+    });
+    if (job.controller.signal.aborted) {
+      finishJob(job, 'cancelled', { event: 'cancelled', data: respond(result) });
+    } else {
+      onCompleted?.(result);
+      finishJob(job, 'completed', { event: 'result', data: respond(result) });
+    }
+  } catch (error) {
+    console.error('Job error:', error);
+    finishJob(job, 'failed', { event: 'error', data: { error: (error as Error).message } });
+  }
+}
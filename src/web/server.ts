@@ -1,19 +1,100 @@
 import express from 'express';
-import { MiniZincService } from '../solver/service.js';
+import { MiniZincService, createSolverService } from '../solver/service.js';
+import { solveAlternatives } from '../solver/alternatives.js';
+import { solveRounds } from '../solver/rounds.js';
+import { verifyResult, verifySolution } from '../solver/verify.js';
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
+import { findScenario, loadScenarioRegistry, readScenarioModel } from '../solver/registry.js';
 import {
-  SCENARIOS,
   DEFAULT_SCENARIO,
-  DEFAULT_TIME_LIMIT,
-  type ScenarioId,
+  DEFAULT_MODELS_DIR,
+  DEFAULT_PLAYER_STORE,
+  BUILTIN_SOLVER,
+  PORTFOLIO_SOLVER,
+  EXPORT_FORMATS,
+  DEFAULT_EXPORT_FORMAT,
+  type ExportFormat,
 } from '../shared/constants.js';
 import {
   parseCSV,
+  parseNumTeams,
+  parseAlternativeCount,
   sortPlayersByPosition,
   splitIntoTeams,
+  assignRoles,
   countPositions,
+  explainInfeasibleSplit,
 } from '../shared/utils.js';
+import { applyPairingRules, parsePairingRules } from '../shared/pairings.js';
+import { applyTeamPins, parseTeamPins, summarizePins } from '../shared/pins.js';
+import {
+  applyRebalance,
+  parseMaxMoves,
+  parsePreviousSplit,
+  sessionPreviousSplit,
+  summarizeRebalance,
+} from '../shared/rebalance.js';
+import { summarizeAttributes } from '../shared/attributes.js';
+import { applyCategoryBalance, parseCategoryBalance, summarizeCategories } from '../shared/categories.js';
+import { parseRepeatPenalty, parseRoundCount, summarizeTeammates } from '../shared/mixer.js';
+import {
+  applyHistory,
+  parseHistory,
+  parseHistoryDecay,
+  parseHistoryPenalty,
+  sessionHistory,
+  summarizeHistory,
+} from '../shared/history.js';
+import { applyPositionQuotas, parsePositionQuotas } from '../shared/quotas.js';
+import { CSVValidationError } from '../shared/csv.js';
+import { applySolveParameters, parseSolveParameters } from '../shared/parameters.js';
+import { bundledScenarioId, checkScenarioOutput, findMissingModelData } from '../shared/scenarios.js';
+import { buildTeamSheet, formatTeamSheet, parseExportFormat } from '../shared/teamsheet.js';
+import { buildModelBundle } from '../shared/modelbundle.js';
+import {
+  addPlayer,
+  findPlayer,
+  formatPlayersCSV,
+  importPlayersCSV,
+  parsePlayerInput,
+  removePlayer,
+  selectStoredPlayers,
+  updatePlayer,
+  type PlayerInput,
+} from '../shared/roster.js';
+import {
+  addSession,
+  checkIn,
+  findSession,
+  parseSessionDate,
+  parseSessionInput,
+  recordSessionSplit,
+  removeSession,
+  sessionPlayers,
+  updateSession,
+  type SessionInput,
+} from '../shared/sessions.js';
+import { parseGameInput, ratingTrend, recordGame } from '../shared/ratings.js';
+import { loadPlayerStore, savePlayerStore } from '../solver/store.js';
+import type {
+  ModelBundle,
+  PreviousPlacement,
+  ScenarioDefinition,
+  SolverConfig,
+  SolverResult,
+  SolveParameters,
+  TeamAssignment,
+  TeamSolver,
+  TrainingSession,
+} from '../solver/types.js';
+import {
+  createJob,
+  getJob,
+  runJob,
+  subscribeToJob,
+  cancelJob,
+} from './jobs.js';
 
 const app = express();
 const port = 3000;
@@ -21,14 +102,13 @@ const port = 3000;
 app.use(express.json({ limit: '10mb' }));
 app.use(express.static('public'));
 
-// API: List available scenarios
+// Scenario models and manifests are discovered here on every request
+const modelsDir = process.env.MODELS_DIR || DEFAULT_MODELS_DIR;
+
+// API: List available scenarios (bundled and user-supplied models)
 app.get('/api/scenarios', (_req, res) => {
-  const scenarios = Object.entries(SCENARIOS).map(([id, s]) => ({
-    id,
-    name: s.name,
-    description: s.description,
-  }));
-  res.json({ scenarios });
+  const { scenarios, problems } = loadScenarioRegistry(modelsDir);
+  res.json({ scenarios, problems });
 });
 
 // API: List available solvers
@@ -38,99 +118,833 @@ app.get('/api/solvers', async (_req, res) => {
     await service.init({
       minizinc: process.env.MINIZINC_BIN || 'minizinc',
     });
+    const minizincInstalled = await service.isInstalled();
     res.json({
       mode: service.getMode(),
-      solvers: service.getAvailableSolvers(),
+      minizincInstalled,
+      solvers: minizincInstalled
+        ? [...service.getAvailableSolvers(), BUILTIN_SOLVER, PORTFOLIO_SOLVER]
+        : [BUILTIN_SOLVER],
     });
   } catch (error) {
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
+// Saved squad for /api/players and solves by `playerIds`
+const playerStore = process.env.PLAYER_STORE || DEFAULT_PLAYER_STORE;
+
+// API: List stored players
+app.get('/api/players', (_req, res) => {
+  try {
+    res.json({ players: loadPlayerStore(playerStore).players });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Download the stored players as a roster CSV
+app.get('/api/players/export', (_req, res) => {
+  try {
+    res
+      .type('text/csv')
+      .attachment('players.csv')
+      .send(formatPlayersCSV(loadPlayerStore(playerStore).players));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Import a roster CSV; rows update players with the same ID or name,
+// the rest are added. `replace` empties the store first.
+app.post('/api/players/import', (req, res) => {
+  const { csvData, replace = false } = req.body;
+  if (typeof csvData !== 'string' || !csvData.trim()) {
+    return res.status(400).json({ error: 'CSV data is required' });
+  }
+  try {
+    const store = loadPlayerStore(playerStore);
+    const result = importPlayersCSV(store, csvData, replace === true);
+    savePlayerStore(playerStore, store);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof CSVValidationError) {
+      return res.status(400).json({ error: error.message, csvReport: error.report });
+    }
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: One stored player
+app.get('/api/players/:id', (req, res) => {
+  try {
+    const player = findPlayer(loadPlayerStore(playerStore), req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: `Unknown player: ${req.params.id}` });
+    }
+    res.json(player);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: A player's rating trend and every rating change from recorded games
+app.get('/api/players/:id/ratings', (req, res) => {
+  try {
+    const player = findPlayer(loadPlayerStore(playerStore), req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: `Unknown player: ${req.params.id}` });
+    }
+    res.json({ ...ratingTrend(player), history: player.ratingHistory ?? [] });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Rating trend of every stored player
+app.get('/api/ratings', (_req, res) => {
+  try {
+    res.json({ players: loadPlayerStore(playerStore).players.map((p) => ratingTrend(p)) });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Add a player; the store assigns the ID
+app.post('/api/players', (req, res) => {
+  let input: PlayerInput;
+  try {
+    input = parsePlayerInput(req.body) as PlayerInput;
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+  try {
+    const store = loadPlayerStore(playerStore);
+    const player = addPlayer(store, input);
+    savePlayerStore(playerStore, store);
+    res.status(201).location(`/api/players/${player.id}`).json(player);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Change a player; only the fields given are updated
+const updateStoredPlayer = (req: express.Request<{ id: string }>, res: express.Response) => {
+  let changes: Partial<PlayerInput>;
+  try {
+    changes = parsePlayerInput(req.body, true);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+  try {
+    const store = loadPlayerStore(playerStore);
+    const player = updatePlayer(store, req.params.id, changes);
+    if (!player) {
+      return res.status(404).json({ error: `Unknown player: ${req.params.id}` });
+    }
+    savePlayerStore(playerStore, store);
+    res.json(player);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+};
+app.put('/api/players/:id', updateStoredPlayer);
+app.patch('/api/players/:id', updateStoredPlayer);
+
+// API: Remove a player
+app.delete('/api/players/:id', (req, res) => {
+  try {
+    const store = loadPlayerStore(playerStore);
+    const player = removePlayer(store, req.params.id);
+    if (!player) {
+      return res.status(404).json({ error: `Unknown player: ${req.params.id}` });
+    }
+    savePlayerStore(playerStore, store);
+    res.json(player);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: List sessions, newest first; `?date=YYYY-MM-DD` picks one day
+app.get('/api/sessions', (req, res) => {
+  try {
+    const date = req.query.date === undefined ? undefined : parseSessionDate(req.query.date);
+    const sessions = loadPlayerStore(playerStore).sessions
+      .filter((s) => !date || s.date === date)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+    res.json({ sessions });
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+// API: One session, with the splits solved for it
+app.get('/api/sessions/:id', (req, res) => {
+  try {
+    const session = findSession(loadPlayerStore(playerStore), req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    }
+    res.json(session);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Start a session (date defaults to today, nobody checked in yet)
+app.post('/api/sessions', (req, res) => {
+  try {
+    const store = loadPlayerStore(playerStore);
+    let input: SessionInput;
+    try {
+      input = parseSessionInput(store, req.body) as SessionInput;
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    const session = addSession(store, input);
+    savePlayerStore(playerStore, store);
+    res.status(201).location(`/api/sessions/${session.id}`).json(session);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Change a session's date, notes or whole attendance list
+const updateStoredSession = (req: express.Request<{ id: string }>, res: express.Response) => {
+  try {
+    const store = loadPlayerStore(playerStore);
+    let changes: Partial<SessionInput>;
+    try {
+      changes = parseSessionInput(store, req.body, true);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    const session = updateSession(store, req.params.id, changes);
+    if (!session) {
+      return res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    }
+    savePlayerStore(playerStore, store);
+    res.json(session);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+};
+app.put('/api/sessions/:id', updateStoredSession);
+app.patch('/api/sessions/:id', updateStoredSession);
+
+// API: Check players in to a session, or out with `"present": false`
+app.post('/api/sessions/:id/checkin', (req, res) => {
+  const { playerIds, present = true } = req.body;
+  try {
+    const store = loadPlayerStore(playerStore);
+    let session;
+    try {
+      session = checkIn(store, req.params.id, playerIds, present !== false);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    if (!session) {
+      return res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    }
+    savePlayerStore(playerStore, store);
+    res.json(session);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Remove a session and its recorded splits
+app.delete('/api/sessions/:id', (req, res) => {
+  try {
+    const store = loadPlayerStore(playerStore);
+    const session = removeSession(store, req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    }
+    savePlayerStore(playerStore, store);
+    res.json(session);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Recorded games, newest first
+app.get('/api/games', (_req, res) => {
+  try {
+    const games = [...loadPlayerStore(playerStore).games].reverse();
+    res.json({ games });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: Record the score of a game and update the players' ratings. The
+// teams come from a session's split (`sessionId`, `split`) or `teams`.
+app.post('/api/games', (req, res) => {
+  try {
+    const store = loadPlayerStore(playerStore);
+    let game;
+    try {
+      game = recordGame(store, parseGameInput(store, req.body));
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    savePlayerStore(playerStore, store);
+    res.status(201).location(`/api/games/${game.id}`).json(game);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// API: One recorded game
+app.get('/api/games/:id', (req, res) => {
+  try {
+    const game = loadPlayerStore(playerStore).games.find((g) => g.id === req.params.id);
+    if (!game) {
+      return res.status(404).json({ error: `Unknown game: ${req.params.id}` });
+    }
+    res.json(game);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 // Serve index.html for root
 app.get('/', (_req, res) => {
   res.sendFile(resolve('public/index.html'));
 });
 
-// API: Solve team optimization
-app.post('/api/solve', async (req, res) => {
-  try {
-    const { solver = 'cbc', csvData, scenario = DEFAULT_SCENARIO } = req.body;
+/**
+ * A client error in a solve request, sent back as `status` with `body`
+ */
+class SolveRequestError extends Error {
+  constructor(public readonly status: number, public readonly body: Record<string, unknown>) {
+    super(String(body.error));
+    this.name = 'SolveRequestError';
+  }
+}
+
+/**
+ * A validated request's roster with its rules applied
+ */
+interface PreparedRoster {
+  solver: string;
+  scenario: string;
+  definition: ScenarioDefinition;
+  modelFile: string;
+  modelCode: string;
+  data: ReturnType<typeof parseCSV>;
+  numTeams: number;
+  alternatives: number;
+  /** Social mixer rounds, and the cost of each repeated teammate pairing */
+  rounds: number;
+  repeatPenalty: number;
+  parameters: SolveParameters;
+  /** Model and data files, when the request asked for `bundle` */
+  bundle?: ModelBundle;
+  /** Session whose attendees are being split; the result is recorded there */
+  sessionId?: string;
+}
+
+/**
+ * A validated solve request, ready to hand to the solver
+ */
+interface PreparedSolve extends PreparedRoster {
+  service: TeamSolver;
+  fallback: boolean;
+}
+
+/**
+ * Validate a `/api/solve` or `/api/jobs` body, parse the roster and apply
+ * its rules. Throws SolveRequestError for bad input (400) or rules that
+ * can never be satisfied (422).
+ */
+async function prepareSolve(body: Record<string, any>): Promise<PreparedSolve> {
+  const roster = prepareRoster(body);
+
+  // Initialize solver service (built-in solver if MiniZinc is not installed)
+  const { service, fallback } = await createSolverService(roster.solver, {
+    minizinc: process.env.MINIZINC_BIN || 'minizinc',
+  });
+  return { ...roster, service, fallback };
+}
 
-    if (!csvData) {
-      return res.status(400).json({ error: 'CSV data is required' });
+/**
+ * The part of prepareSolve that needs no solver: validate the body, parse
+ * the roster and apply its rules. Throws SolveRequestError like prepareSolve.
+ */
+function prepareRoster(body: Record<string, any>): PreparedRoster {
+  const {
+    solver = 'cbc',
+    csvData: csvText,
+    playerIds,
+    sessionId,
+    scenario = DEFAULT_SCENARIO,
+    numTeams: numTeamsRaw,
+    pairs,
+    pins,
+    previous: previousRaw,
+    rebalance,
+    maxMoves,
+    positionQuotas,
+    categoryBalance,
+    alternatives: alternativesRaw,
+    rounds: roundsRaw,
+    repeatPenalty: repeatPenaltyRaw,
+    history: historyRaw,
+    season,
+    historyPenalty,
+    historyDecay,
+    weights,
+    attributeWeights,
+    sizeTolerance,
+    timeLimit,
+    bundle: wantsBundle,
+  } = body;
+
+  // The roster comes from the request or, by ID, from the player store:
+  // listed players, or the players checked in to a session
+  if ([csvText, playerIds, sessionId].filter((source) => source !== undefined && source !== '').length > 1) {
+    throw new SolveRequestError(400, { error: 'Send only one of csvData, playerIds or sessionId' });
+  }
+  if (rebalance && sessionId === undefined && previousRaw === undefined) {
+    throw new SolveRequestError(400, { error: 'rebalance needs a sessionId (or send the previous split as previous)' });
+  }
+  let csvData: string = csvText;
+  let previous: PreviousPlacement[] = [];
+  let currentSession: TrainingSession | undefined;
+  if (sessionId !== undefined) {
+    const store = loadPlayerStore(playerStore);
+    const session = findSession(store, String(sessionId));
+    if (!session) {
+      throw new SolveRequestError(404, { error: `Unknown session: ${sessionId}` });
     }
+    currentSession = session;
+    try {
+      csvData = formatPlayersCSV(sessionPlayers(store, session));
+      // Rebalance the session's latest split unless another one is given
+      if (rebalance && previousRaw === undefined) {
+        previous = sessionPreviousSplit(session);
+      }
+    } catch (error) {
+      throw new SolveRequestError(400, { error: (error as Error).message });
+    }
+  } else if (playerIds !== undefined) {
+    try {
+      csvData = formatPlayersCSV(selectStoredPlayers(loadPlayerStore(playerStore), playerIds));
+    } catch (error) {
+      throw new SolveRequestError(400, { error: (error as Error).message });
+    }
+  }
+  if (!csvData) {
+    throw new SolveRequestError(400, { error: 'CSV data, playerIds or sessionId is required' });
+  }
 
-    // Validate scenario
-    if (!SCENARIOS[scenario as ScenarioId]) {
-      return res.status(400).json({
-        error: `Unknown scenario: ${scenario}. Available: ${Object.keys(SCENARIOS).join(', ')}`,
-      });
+  // Validate scenario
+  const registry = loadScenarioRegistry(modelsDir);
+  const definition = findScenario(registry, scenario);
+  if (!definition) {
+    throw new SolveRequestError(400, {
+      error: `Unknown scenario: ${scenario}. Available: ${registry.scenarios.map((s) => s.id).join(', ')}`,
+    });
+  }
+
+  // Parse CSV data using shared utility; row problems are reported, not dropped
+  // silently. Any other failure (e.g. resolving the CSV's pins) is bad input too.
+  let data: ReturnType<typeof parseCSV>;
+  try {
+    data = parseCSV(csvData);
+  } catch (error) {
+    if (error instanceof CSVValidationError) {
+      throw new SolveRequestError(400, { error: error.message, csvReport: error.report });
     }
+    throw new SolveRequestError(400, { error: (error as Error).message });
+  }
+
+  let numTeams: number;
+  let alternatives: number;
+  let rounds: number;
+  let repeatPenalty: number;
+  let parameters: SolveParameters;
+  let conflicts: string[];
+  try {
+    numTeams = parseNumTeams(numTeamsRaw, data.num_players);
+    alternatives = parseAlternativeCount(alternativesRaw);
+    rounds = parseRoundCount(roundsRaw);
+    repeatPenalty = parseRepeatPenalty(repeatPenaltyRaw);
+    if (rounds > 1 && alternatives > 1) {
+      throw new Error('Ask for either several rounds or alternative splits, not both');
+    }
+    parameters = parseSolveParameters({ weights, attributeWeights, sizeTolerance, timeLimit }, definition.parameters);
+    data.num_teams = numTeams;
+    if (previousRaw !== undefined) {
+      previous = parsePreviousSplit(previousRaw);
+    }
+    // Parameters first: the size tolerance bounds how large keep-together groups can be
+    conflicts = [
+      ...applySolveParameters(data, parameters),
+      ...applyPairingRules(data, parsePairingRules(pairs)),
+      ...applyTeamPins(data, parseTeamPins(pins)),
+      ...applyRebalance(data, previous, parseMaxMoves(maxMoves)),
+      ...applyCategoryBalance(data, parseCategoryBalance(categoryBalance)),
+      ...applyPositionQuotas(data, parsePositionQuotas(positionQuotas)),
+    ];
+    // Recent teammates: sent as history, or read from the sessions in the store
+    if (historyRaw !== undefined && season) {
+      throw new Error('Send either history or season, not both');
+    }
+    const history = season
+      ? sessionHistory(loadPlayerStore(playerStore), currentSession)
+      : historyRaw !== undefined ? parseHistory(historyRaw) : null;
+    if (history) {
+      applyHistory(data, history, parseHistoryPenalty(historyPenalty), parseHistoryDecay(historyDecay));
+    }
+  } catch (error) {
+    throw new SolveRequestError(400, { error: (error as Error).message });
+  }
 
-    const scenarioConfig = SCENARIOS[scenario as ScenarioId];
+  // Load model; with `bundle` set it is returned with the data as files
+  const modelCode = readScenarioModel(registry, definition);
+  const bundle = wantsBundle
+    ? buildModelBundle({ scenario: definition, modelCode, data, solver, timeLimit: parameters.timeLimit, csvText: csvData })
+    : undefined;
 
-    // Initialize solver service
-    const service = new MiniZincService();
-    await service.init({
-      minizinc: process.env.MINIZINC_BIN || 'minizinc',
+  // Reject rule sets that can never be satisfied before calling the solver
+  if (conflicts.length > 0) {
+    throw new SolveRequestError(422, {
+      error: 'Pairing rules, pins, move limits, category balance, position quotas or solve parameters cannot be satisfied',
+      conflicts,
+      csvReport: data.report,
+      pairings: data.pairings,
+      pins: summarizePins(data),
+      positionQuotas: data.quotas,
+      categoryBalance: data.categories,
+      parameters,
+      ...(bundle ? { bundle } : {}),
+    });
+  }
+
+  const missing = findMissingModelData(definition, data);
+  if (missing.length > 0) {
+    throw new SolveRequestError(400, {
+      error: `Scenario ${definition.id} needs data fields the roster does not provide: ${missing.join(', ')}`,
+    });
+  }
+
+  return {
+    solver,
+    scenario: definition.id,
+    definition,
+    modelFile: definition.modelFile,
+    modelCode,
+    data,
+    numTeams,
+    alternatives,
+    rounds,
+    repeatPenalty,
+    parameters,
+    bundle,
+    sessionId: sessionId === undefined ? undefined : String(sessionId),
+  };
+}
+
+/**
+ * Keep the best split of a session solve in the session's history (every
+ * round of a social mixer). A session removed while solving is skipped.
+ */
+function recordSessionResult(prepared: PreparedSolve, result: SolverResult): void {
+  if (!prepared.sessionId || !result.solution) {
+    return;
+  }
+  const store = loadPlayerStore(playerStore);
+  const session = findSession(store, prepared.sessionId);
+  if (!session) {
+    return;
+  }
+  const splits = result.rounds?.length
+    ? result.rounds
+    : [{ solution: result.solution, status: result.status }];
+  splits.forEach(({ solution, status }, r) => {
+    recordSessionSplit(session, prepared.data.players, solution, prepared.numTeams, {
+      scenario: prepared.scenario,
+      solver: result.solver ?? prepared.solver,
+      status,
+      ...(result.rounds?.length ? { round: r + 1 } : {}),
     });
+  });
+  savePlayerStore(playerStore, store);
+}
+
+/**
+ * Run the solver for a prepared request (k best mode re-solves with each
+ * earlier split excluded; a social mixer solves one split per round)
+ */
+async function runPreparedSolve(
+  prepared: PreparedSolve,
+  extra: Pick<SolverConfig, 'signal' | 'onSolution'> = {}
+): Promise<SolverResult> {
+  const { service, modelCode, data, modelFile, alternatives, rounds, repeatPenalty, parameters } = prepared;
+  const scenarioId = bundledScenarioId(prepared.definition);
+  const config: SolverConfig = {
+    solver: prepared.solver as SolverConfig['solver'],
+    timeLimit: parameters.timeLimit,
+    ...extra,
+  };
+
+  // Output that breaks the scenario's declared schema becomes an ERROR;
+  // the rest is re-checked against the roster
+  const result = verifyResult(
+    scenarioId,
+    data,
+    checkScenarioOutput(
+      prepared.definition,
+      rounds > 1
+        ? await solveRounds(service, modelCode, data, config, modelFile, { rounds, repeatPenalty, scenarioId })
+        : alternatives > 1
+          ? await solveAlternatives(service, modelCode, data, config, modelFile, alternatives)
+          : await service.solve(modelCode, data, config, modelFile)
+    ),
+    config
+  );
+
+  if (result.status === 'UNSATISFIABLE') {
+    result.errorMessage = explainInfeasibleSplit(data) ?? result.errorMessage;
+  }
+  result.parameters = parameters;
+  return result;
+}
+
+/**
+ * Response body for a finished solve: the result plus sorted team rosters
+ */
+function buildSolveResponse(prepared: PreparedSolve, result: SolverResult) {
+  const { solver, scenario, numTeams, data, service, fallback, bundle, sessionId } = prepared;
+
+  // Build team rosters from assignment array, sorted by position then name.
+  // Multi-position players carry the role the solver picked for them.
+  const assignment = result.solution?.assignment || [];
+  const players = assignRoles(data.players, result.solution?.roles);
+  const teams = splitIntoTeams(players, assignment, numTeams).map(sortPlayersByPosition);
+
+  // Calculate position counts for response
+  const positionCounts = teams.map(countPositions);
+
+  // Enhance result with position data if not present
+  if (result.solution && scenario === 'with_positions') {
+    const sol = result.solution;
+    if (sol.forwards === undefined) {
+      sol.forwards = positionCounts.map((p) => p.forward);
+      sol.midfield = positionCounts.map((p) => p.midfield);
+      sol.defense = positionCounts.map((p) => p.defense);
+      sol.goalkeepers = positionCounts.map((p) => p.goalkeeper);
+    }
+  }
+
+  return {
+    solver,
+    solvedWith: result.solver ?? solver,
+    fallback,
+    scenario,
+    numTeams,
+    mode: service.getMode(),
+    result,
+    players,
+    csvReport: data.report,
+    pairings: data.pairings,
+    pins: summarizePins(data),
+    positionQuotas: data.quotas,
+    parameters: prepared.parameters,
+    // Rebalancing: who changed team relative to the previous split
+    ...(data.previous?.length ? { rebalance: summarizeRebalance(data, assignment) } : {}),
+    // Per-attribute team totals when the CSV has attribute columns
+    ...(data.attributes?.length ? { attributes: summarizeAttributes(data, assignment) } : {}),
+    // Per-value team counts of each balanced category
+    ...(data.num_categories > 0 ? { categories: summarizeCategories(data, assignment) } : {}),
+    // Season history: recent teammates placed together again, and freshness
+    ...(data.history ? { history: summarizeHistory(data, assignment) } : {}),
+    positionCounts,
+    teams,
+    // k best mode: rosters for every distinct split, best first
+    alternatives: (result.alternatives ?? []).map((alt) => ({
+      ...alt,
+      teams: splitIntoTeams(
+        assignRoles(data.players, alt.solution.roles),
+        alt.solution.assignment ?? [],
+        numTeams
+      ).map(sortPlayersByPosition),
+    })),
+    // Social mixer: rosters for every round, and who played alongside whom
+    ...(result.rounds?.length
+      ? {
+          rounds: result.rounds.map((round) => ({
+            ...round,
+            teams: splitIntoTeams(
+              assignRoles(data.players, round.solution.roles),
+              round.solution.assignment ?? [],
+              numTeams
+            ).map(sortPlayersByPosition),
+          })),
+          teammates: summarizeTeammates(
+            data.players,
+            result.rounds.map((round) => round.solution.assignment ?? [])
+          ),
+        }
+      : {}),
+    // Two-team shorthand kept for existing clients
+    teamA: teams[0],
+    teamB: teams[1],
+    ...(bundle ? { bundle } : {}),
+    ...(sessionId ? { sessionId } : {}),
+  };
+}
+
+// API: Solve team optimization
+app.post('/api/solve', async (req, res) => {
+  try {
+    const prepared = await prepareSolve(req.body);
+    const result = await runPreparedSolve(prepared);
+    recordSessionResult(prepared, result);
+    res.json(buildSolveResponse(prepared, result));
+  } catch (error) {
+    if (error instanceof SolveRequestError) {
+      return res.status(error.status).json(error.body);
+    }
+    console.error('Solve error:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-    // Load model
-    const modelPath = resolve(`./models/${scenarioConfig.modelFile}`);
-    const modelCode = readFileSync(modelPath, 'utf8');
-
-    // Parse CSV data using shared utility
-    const data = parseCSV(csvData);
-
-    const config = {
-      solver,
-      timeLimit: DEFAULT_TIME_LIMIT,
-    };
-
-    // Solve
-    const result = await service.solve(modelCode, data, config, scenarioConfig.modelFile);
-
-    // Build team rosters from assignment array
-    const assignment = result.solution?.assignment || [];
-    const { teamA, teamB } = splitIntoTeams(data.players, assignment);
-
-    // Sort teams by position then name
-    const sortedTeamA = sortPlayersByPosition(teamA);
-    const sortedTeamB = sortPlayersByPosition(teamB);
-
-    // Calculate position counts for response
-    const positionsA = countPositions(teamA);
-    const positionsB = countPositions(teamB);
-
-    // Enhance result with position data if not present
-    if (result.solution && scenario === 'with_positions') {
-      const sol = result.solution as any;
-      if (sol.forwards_a === undefined) {
-        sol.forwards_a = positionsA.forward;
-        sol.forwards_b = positionsB.forward;
-        sol.midfield_a = positionsA.midfield;
-        sol.midfield_b = positionsB.midfield;
-        sol.defense_a = positionsA.defense;
-        sol.defense_b = positionsB.defense;
+// API: Team sheet download. Exports the split in `solution` (e.g. from an
+// earlier /api/solve response) after checking it against the roster, or
+// solves the request first when no solution is given.
+app.post('/api/export', async (req, res) => {
+  const { format: formatRaw = DEFAULT_EXPORT_FORMAT, solution, title } = req.body;
+  try {
+    let format: ExportFormat;
+    try {
+      format = parseExportFormat(formatRaw);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+
+    // A given split only needs the roster; its status comes from verifying it
+    // against the rules, never from the request
+    let prepared: PreparedRoster;
+    let result: SolverResult;
+    if (solution) {
+      prepared = prepareRoster(req.body);
+      const given = solution as TeamAssignment;
+      const verification = verifySolution(bundledScenarioId(prepared.definition), prepared.data, given);
+      const shapeIssue = verification.issues.find((issue) => issue.field === 'assignment');
+      if (typeof given !== 'object' || !Array.isArray(given.assignment) || shapeIssue) {
+        return res.status(400).json({
+          error: shapeIssue?.message ?? '"solution.assignment" must list a team number for every player',
+        });
+      }
+      if (!verification.verified) {
+        return res.status(422).json({
+          error: 'The split breaks the roster\'s rules or misreports its numbers',
+          verification: { ...verification, timeLimited: false },
+        });
       }
+      result = {
+        status: 'SATISFIED',
+        solution: given,
+        statistics: null,
+        solveTime: 0,
+        verification: { ...verification, timeLimited: false },
+      };
+    } else {
+      const toSolve = await prepareSolve(req.body);
+      prepared = toSolve;
+      result = await runPreparedSolve(toSolve);
     }
 
-    res.json({
-      solver,
-      scenario,
-      mode: service.getMode(),
-      result,
-      players: data.players,
-      teamA: sortedTeamA,
-      teamB: sortedTeamB,
+    if (!result.solution) {
+      return res.status(422).json({
+        error: result.errorMessage ?? `No split to export (solver status ${result.status})`,
+        status: result.status,
+      });
+    }
+
+    const sheet = buildTeamSheet(prepared.data, result.solution, {
+      scenario: prepared.definition.name,
+      title: typeof title === 'string' && title.trim() ? title.trim() : undefined,
+      status: result.status,
+      solver: solution ? undefined : result.solver ?? prepared.solver,
+      verification: result.verification,
     });
+    res
+      .type(EXPORT_FORMATS[format].contentType)
+      .attachment(`team-sheet${EXPORT_FORMATS[format].extension}`)
+      .send(formatTeamSheet(sheet, format));
   } catch (error) {
-    console.error('Solve error:', error);
+    if (error instanceof SolveRequestError) {
+      return res.status(error.status).json(error.body);
+    }
+    console.error('Export error:', error);
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
+// API: Start a solve in the background; progress is streamed from /events
+app.post('/api/jobs', async (req, res) => {
+  let prepared: PreparedSolve;
+  try {
+    prepared = await prepareSolve(req.body);
+  } catch (error) {
+    if (error instanceof SolveRequestError) {
+      return res.status(error.status).json(error.body);
+    }
+    console.error('Job error:', error);
+    return res.status(500).json({ error: (error as Error).message });
+  }
+
+  const job = createJob();
+  res.status(202).json({ id: job.id, status: job.status, events: `/api/jobs/${job.id}/events` });
+
+  runJob(job, (extra) => runPreparedSolve(prepared, extra), {
+    respond: (result) => buildSolveResponse(prepared, result),
+    onCompleted: (result) => recordSessionResult(prepared, result),
+  });
+});
+
+// API: Job status and final result (if finished)
+app.get('/api/jobs/:id', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+  }
+  const last = job.events[job.events.length - 1];
+  res.json({
+    id: job.id,
+    status: job.status,
+    createdAt: job.createdAt,
+    solutions: job.events.filter((e) => e.event === 'solution').length,
+    ...(job.status !== 'running' && last ? { [last.event]: last.data } : {}),
+  });
+});
+
+// API: Server-Sent Events stream of improving solutions, then the result
+app.get('/api/jobs/:id/events', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+  }
+  subscribeToJob(job, res, req.header('Last-Event-ID'));
+});
+
+// API: Cancel a running job
+app.delete('/api/jobs/:id', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+  }
+  cancelJob(job);
+  res.json({ id: job.id, status: job.status === 'running' ? 'cancelling' : job.status });
+});
+
 app.listen(port, () => {
   console.log(`
 ============================================
@@ -142,7 +956,19 @@ app.listen(port, () => {
   Endpoints:
     GET  /api/scenarios  - List available scenarios
     GET  /api/solvers    - List available solvers
+    GET  /api/players    - List stored players (POST to add)
+    GET/PUT/DELETE /api/players/:id - Read, update or remove a player
+    POST /api/players/import - Import a roster CSV into the store
+    GET  /api/players/export - Download the store as CSV
+    GET  /api/sessions   - List sessions (POST to start one)
+    POST /api/sessions/:id/checkin - Check players in or out
+    POST /api/games      - Record a score and update ratings
+    GET  /api/ratings    - Rating trend of every player
     POST /api/solve      - Solve team optimization
+    POST /api/export     - Download a team sheet (csv, json, markdown, html)
+    POST /api/jobs       - Start a background solve job
+    GET  /api/jobs/:id/events - Stream job progress (SSE)
+    DELETE /api/jobs/:id - Cancel a job
 ============================================
 `);
 });